@@ -3,8 +3,10 @@
 /**
  * Daily Scraper Script for LaunchRadar
  * 
- * This script runs all company scrapers automatically and can be scheduled via cron.
- * Usage: node daily-scraper.js
+ * This script runs all company scrapers once through the server's job API.
+ * The server also schedules scrapes itself (see "Scheduled scrapes" in the README),
+ * so an external cron line is only needed when the built-in scheduler is turned off.
+ * Usage: node daily-scraper.js [competitor ...]
  * 
  * Cron example (daily at 6 AM):
  * 0 6 * * * cd /path/to/launchradar && node daily-scraper.js
@@ -14,14 +16,44 @@
 const fs = require('fs').promises;
 const path = require('path');
 
+const API_BASE = process.env.LAUNCHRADAR_URL || 'http://localhost:3000';
+const POLL_INTERVAL_MS = 5000;
+const JOB_TIMEOUT_MS = 60 * 60 * 1000;
+
 // Helper function to call our API
-async function callAPI(endpoint) {
-  const fetch = (await import('node-fetch')).default;
-  const response = await fetch(`http://localhost:3000${endpoint}`);
+async function callAPI(endpoint, options = {}) {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...(options.headers || {}) }
+  });
+  const body = await response.json().catch(() => ({}));
   if (!response.ok) {
-    throw new Error(`API call failed: ${response.status} ${response.statusText}`);
+    throw new Error(`API call failed: ${response.status} ${body.error || response.statusText}`);
   }
-  return await response.json();
+  return body;
+}
+
+// Scrapes run as server-side jobs, so no request has to stay open while Puppeteer works
+async function waitForJob(jobId) {
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+  let lastProgress = '';
+
+  while (Date.now() < deadline) {
+    const { data: job } = await callAPI(`/api/scrape/jobs/${jobId}`);
+
+    const progress = `${job.state}: ${job.counts.succeeded} succeeded, ${job.counts['skipped-unchanged']} unchanged, ${job.counts.failed} failed, ${job.counts.running} running, ${job.counts.queued} queued`;
+    if (progress !== lastProgress) {
+      console.log(`⏳ Job ${job.id} ${progress}`);
+      lastProgress = progress;
+    }
+
+    if (['succeeded', 'failed', 'cancelled'].includes(job.state)) {
+      return job;
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  throw new Error(`Job ${jobId} did not finish within ${JOB_TIMEOUT_MS / 60000} minutes`);
 }
 
 async function ensureDataDirectory() {
@@ -40,101 +72,44 @@ async function saveCompanyData(companyName, data) {
   console.log(`✅ Saved ${data.updates.length} updates for ${companyName}`);
 }
 
-async function logScrapingResults(results) {
-  const logEntry = {
-    timestamp: new Date().toISOString(),
-    totalCompanies: results.length,
-    successfulScrapes: results.filter(r => r.success).length,
-    failedScrapes: results.filter(r => !r.success).length,
-    totalUpdates: results.reduce((sum, r) => sum + (r.updates || 0), 0),
-    companies: results.map(r => ({
-      name: r.company,
-      success: r.success,
-      updates: r.updates || 0,
-      error: r.error || null
-    }))
-  };
-
-  const logPath = path.join(__dirname, 'data', 'scraping-log.json');
-  
-  // Load existing logs
-  let logs = [];
-  try {
-    const existingLogs = await fs.readFile(logPath, 'utf-8');
-    logs = JSON.parse(existingLogs);
-  } catch (error) {
-    // File doesn't exist yet, start fresh
-  }
-
-  // Add new log entry and keep only last 30 days
-  logs.unshift(logEntry);
-  logs = logs.slice(0, 30);
-
-  await fs.writeFile(logPath, JSON.stringify(logs, null, 2));
-  console.log(`📊 Logged scraping results to ${logPath}`);
-}
-
 async function runDailyScraper() {
   console.log('🚀 Starting daily scraper at', new Date().toISOString());
   
   await ensureDataDirectory();
   
-  // Use API to get supported companies and scrape
-  // Temporarily excluding stripe to avoid over-scraping, and problematic sites
-  const supportedCompanies = ['vercel', 'supabase', 'figma', 'notion', 'gumroad'];
+  // Competitors can be named on the command line; otherwise every configured one is scraped
+  const requestedCompanies = process.argv.slice(2);
   const results = [];
 
-  console.log(`📋 Found ${supportedCompanies.length} companies to scrape:`, supportedCompanies.join(', '));
-
-  for (const company of supportedCompanies) {
-    console.log(`\n🔍 Scraping ${company}...`);
-    
-    try {
-      const startTime = Date.now();
-      
-      // Call the scrape API for this company
-      const apiResult = await callAPI(`/api/scrape?company=${company}`);
-      const endTime = Date.now();
-      
-      if (apiResult.success && apiResult.data) {
-        // Handle both single company and array responses
-        const companyData = Array.isArray(apiResult.data) ? 
-          apiResult.data.find(c => c.competitor === company) || apiResult.data[0] : 
-          apiResult.data;
-        
-        if (companyData && companyData.updates && Array.isArray(companyData.updates)) {
-          results.push({
-            company,
-            success: true,
-            updates: companyData.updates.length,
-            duration: endTime - startTime
-          });
-          
-          console.log(`✅ ${company}: ${companyData.updates.length} updates (${endTime - startTime}ms)`);
-        } else {
-          throw new Error('No updates found in API response');
-        }
-      } else {
-        throw new Error(apiResult.error || 'Unknown API error');
-      }
-      
-    } catch (error) {
-      console.error(`❌ ${company}: Failed -`, error.message);
-      
-      results.push({
-        company,
-        success: false,
-        error: error.message,
-        duration: 0
-      });
-    }
+  const { jobId, data: queued } = await callAPI('/api/scrape/jobs', {
+    method: 'POST',
+    body: JSON.stringify(requestedCompanies.length > 0 ? { competitors: requestedCompanies } : {})
+  });
+  console.log(`📋 Scraping ${queued.competitors.length} companies:`, queued.competitors.map(c => c.competitor).join(', '));
+  console.log(`🧾 Started scrape job ${jobId}`);
+
+  const job = await waitForJob(jobId);
+
+  for (const progress of job.competitors) {
+    const success = progress.state === 'succeeded' || progress.state === 'skipped-unchanged';
+    results.push({
+      company: progress.competitor,
+      success,
+      updates: progress.updates || 0,
+      duration: progress.durationMs || 0,
+      error: success ? undefined : progress.error || progress.state
+    });
 
-    // Small delay between scrapers to be respectful
-    await new Promise(resolve => setTimeout(resolve, 3000));
+    if (success) {
+      const unchanged = progress.state === 'skipped-unchanged' ? ', unchanged' : '';
+      console.log(`✅ ${progress.competitor}: ${progress.updates || 0} updates (${progress.durationMs || 0}ms${unchanged})`);
+    } else {
+      console.error(`❌ ${progress.competitor}: Failed -`, progress.error || progress.state);
+    }
   }
 
-  // Log results
-  await logScrapingResults(results);
+  // The job itself is recorded in the run history
+  console.log(`📊 Run details: ${API_BASE}/admin/runs`);
 
   // Summary
   const successful = results.filter(r => r.success);
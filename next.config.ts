@@ -1,7 +1,7 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  serverExternalPackages: ['puppeteer', 'puppeteer-core', '@puppeteer/browsers'],
+  serverExternalPackages: ['puppeteer', 'puppeteer-core', '@puppeteer/browsers', 'linkedom', 'better-sqlite3'],
   
   // Use Turbopack (default in Next.js 16)
   turbopack: {},
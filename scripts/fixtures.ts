@@ -0,0 +1,114 @@
+/**
+ * Record-and-replay fixtures for offline scraper runs
+ *
+ * Usage:
+ *   npm run fixtures -- record [company...]   Capture live pages and refresh the golden output
+ *   npm run fixtures -- check [company...]    Replay captured pages and diff against the golden output
+ *
+ * Fixtures live in fixtures/<company>/: manifest.json and responses/ hold the recorded
+ * network traffic, dom.html the fully loaded page and expected.json the golden ScrapedData.
+ */
+
+import fs from 'fs';
+import { createTwoFilesPatch } from 'diff';
+import { ChangelogScraper, ScrapedData } from '../src/services/changelog-scraper';
+import { FIXTURES_DIR, FixtureMode, FixtureSession, goldenPath } from '../src/services/fixtures';
+
+// lastScraped changes on every run, so it is left out of the comparison
+function serialize(data: ScrapedData): string {
+  return JSON.stringify({ competitor: data.competitor, updates: data.updates }, null, 2) + '\n';
+}
+
+async function scrapeWithFixtures(scraper: ChangelogScraper, company: string, mode: FixtureMode): Promise<ScrapedData> {
+  const companyScraper = scraper.getScraper(company);
+  if (!companyScraper) {
+    throw new Error(`No scraper found for company: ${company}`);
+  }
+
+  const session = FixtureSession.open(mode, company);
+  companyScraper.useFixtures(session);
+
+  try {
+    return await scraper.scrapeCompany(company, { ignoreExisting: true });
+  } finally {
+    await session.finish();
+    companyScraper.useFixtures(null);
+  }
+}
+
+async function record(scraper: ChangelogScraper, companies: string[]): Promise<number> {
+  let failures = 0;
+
+  for (const company of companies) {
+    try {
+      const data = await scrapeWithFixtures(scraper, company, 'record');
+      fs.writeFileSync(goldenPath(company), serialize(data));
+      console.log(`✅ ${company}: recorded ${data.updates.length} updates`);
+    } catch (error) {
+      failures++;
+      console.error(`❌ ${company}: recording failed -`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return failures;
+}
+
+async function check(scraper: ChangelogScraper, companies: string[]): Promise<number> {
+  let failures = 0;
+
+  for (const company of companies) {
+    const expectedPath = goldenPath(company);
+
+    try {
+      const data = await scrapeWithFixtures(scraper, company, 'replay');
+      const expected = fs.existsSync(expectedPath) ? fs.readFileSync(expectedPath, 'utf8') : '';
+      const actual = serialize(data);
+
+      if (expected === actual) {
+        console.log(`✅ ${company}: extraction matches golden output (${data.updates.length} updates)`);
+        continue;
+      }
+
+      failures++;
+      console.log(`❌ ${company}: extraction output changed`);
+      console.log(createTwoFilesPatch(`${company}/expected.json`, `${company}/actual.json`, expected, actual));
+    } catch (error) {
+      failures++;
+      console.error(`❌ ${company}: replay failed -`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return failures;
+}
+
+async function main() {
+  const [command, ...requested] = process.argv.slice(2);
+  const scraper = new ChangelogScraper();
+
+  if (command === 'record') {
+    const companies = requested.length > 0 ? requested : scraper.getSupportedCompanies();
+    process.exit(await record(scraper, companies) > 0 ? 1 : 0);
+  }
+
+  if (command === 'check') {
+    const recorded = fs.existsSync(FIXTURES_DIR)
+      ? fs.readdirSync(FIXTURES_DIR).filter(company => fs.existsSync(goldenPath(company)))
+      : [];
+    const companies = requested.length > 0 ? requested : recorded;
+
+    if (companies.length === 0) {
+      console.log('No fixtures recorded yet. Run `npm run fixtures -- record` first.');
+      process.exit(1);
+    }
+
+    process.exit(await check(scraper, companies) > 0 ? 1 : 0);
+  }
+
+  console.log('Usage: npm run fixtures -- <record|check> [company...]');
+  process.exit(2);
+}
+
+main().catch(error => {
+  console.error('💥 Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+/**
+ * One-time import of the JSON datasets in data/ into the SQLite backend
+ *
+ * Usage:
+ *   npm run db:import                     Import into data/launchradar.db (or LAUNCHRADAR_DB_PATH)
+ *   npm run db:import -- path/to/file.db  Import into a specific database file
+ *
+ * Each competitor's updates and run history are replaced, so re-running the import is safe.
+ * Set LAUNCHRADAR_STORAGE=sqlite afterwards to serve data from the database.
+ */
+
+import { loadCompetitorConfigs } from '../src/services/competitor-registry';
+import { FileDataStore } from '../src/services/data-store';
+import { DEFAULT_DB_PATH, SqliteDataStore } from '../src/services/sqlite-data-store';
+import { assignUpdateIds } from '../src/services/update-identity';
+
+async function main() {
+  const dbPath = process.argv[2] || process.env.LAUNCHRADAR_DB_PATH || DEFAULT_DB_PATH;
+  const files = new FileDataStore();
+  const database = new SqliteDataStore(dbPath);
+  const listingUrls = new Map(loadCompetitorConfigs().map(config => [config.id, config.listingUrl]));
+
+  try {
+    const datasets = await files.retrieveAll();
+
+    for (const data of datasets) {
+      // Give legacy entries the same IDs /api/data shows for them
+      const updates = assignUpdateIds(data.competitor, data.updates, listingUrls.get(data.competitor));
+      const runs = await files.getRuns(data.competitor);
+
+      database.importStoredData({ ...data, updates }, runs);
+      console.log(`Imported ${data.competitor}: ${updates.length} updates, ${runs.length} runs`);
+    }
+
+    console.log(`Imported ${datasets.length} competitors into ${dbPath}`);
+  } finally {
+    database.close();
+  }
+}
+
+main().catch(error => {
+  console.error('Import failed:', error);
+  process.exit(1);
+});
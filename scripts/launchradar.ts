@@ -0,0 +1,436 @@
+/**
+ * LaunchRadar command-line tool: scrape, inspect and export data without a running web server
+ *
+ * Usage:
+ *   npm run cli -- scrape [company...]        Scrape and store (all companies by default)
+ *   npm run cli -- list                       Supported companies
+ *   npm run cli -- show <company> [--limit n] Stored dataset and scrape status for one company
+ *   npm run cli -- export [--format json|csv] [--competitor x] [--out file]
+ *   npm run cli -- validate [--data-dir dir]  Schema-check the competitor datasets in data/
+ *   npm run cli -- doctor [--stale-days n]    Check Chromium, the data directory, data freshness and scraper health
+ *
+ * Every command accepts --json for machine-readable output. Only command output goes to stdout; logs go to stderr.
+ * Exit codes: 0 success, 1 a scrape, check or validation failed, 2 bad usage.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import puppeteer from 'puppeteer';
+import { closeBrowser, launchBrowser } from '../src/services/browser-pool';
+import { ChangelogScraper, CompanyScrapeResult } from '../src/services/changelog-scraper';
+import { getCompetitorConfigDir, loadCompetitorConfigs } from '../src/services/competitor-registry';
+import { createDataStore, StoredData } from '../src/services/data-store';
+import { validateDataDir } from '../src/services/data-validation';
+import { assignUpdateIds } from '../src/services/update-identity';
+import { flattenUpdates, QueriedUpdate } from '../src/services/update-query';
+import { RunRecorder } from '../src/services/run-history';
+import { getScrapeLockHolder, releaseScrapeLock, tryAcquireScrapeLock } from '../src/services/scrape-lock';
+import { ScraperHealthMonitor } from '../src/services/scraper-health';
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  scrape [company...]   Scrape and store updates (all companies by default)
+  list                  List supported companies
+  show <company>        Show a company's stored updates and scrape status (--limit n)
+  export                Export stored updates (--format json|csv, --competitor x, --out file)
+  validate              Schema-check the datasets in the data directory (--data-dir dir)
+  doctor                Check Chromium, data directory permissions, stale data and scraper health (--stale-days n)
+
+Options:
+  --json                Machine-readable output on stdout
+  -h, --help            Show this help`;
+
+// Bad arguments; reported with the usage text and exit code EXIT_USAGE
+class UsageError extends Error {}
+
+interface CliOptions {
+  json: boolean;
+  limit?: string;
+  format?: string;
+  competitor?: string[];
+  out?: string;
+  'data-dir'?: string;
+  'stale-days'?: string;
+}
+
+function parsePositiveInteger(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new UsageError(`--${name} must be a positive whole number`);
+  }
+  return number;
+}
+
+// Command output goes to stdout; everything the scrapers and stores log goes to stderr
+function print(line: string): void {
+  process.stdout.write(line + '\n');
+}
+
+function printJson(value: unknown): void {
+  print(JSON.stringify(value, null, 2));
+}
+
+// Stored datasets with the same stable IDs /api/data serves
+async function loadDatasets(): Promise<StoredData[]> {
+  const listingUrls = new Map(loadCompetitorConfigs().map(config => [config.id, config.listingUrl]));
+  const datasets = await createDataStore().retrieveAll();
+  return datasets.map(data => ({
+    ...data,
+    updates: assignUpdateIds(data.competitor, data.updates, listingUrls.get(data.competitor))
+  }));
+}
+
+async function scrape(companies: string[], options: CliOptions): Promise<number> {
+  const scraper = new ChangelogScraper();
+  const supported = scraper.getSupportedCompanies();
+  const unknown = companies.filter(company => !supported.includes(company));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown company: ${unknown.join(', ')} (see \`list\`)`);
+  }
+
+  // Refuse rather than wait, so a cron-driven CLI run doesn't pile up behind a long scrape
+  if (!tryAcquireScrapeLock('cli')) {
+    const holder = getScrapeLockHolder();
+    console.error(`Another scrape is running${holder ? ` (${holder.owner}, process ${holder.pid}, since ${holder.acquiredAt})` : ''}; try again later`);
+    return EXIT_FAILURE;
+  }
+  try {
+    return await scrapeLocked(scraper, companies.length > 0 ? companies : supported, options);
+  } finally {
+    releaseScrapeLock('cli');
+  }
+}
+
+async function scrapeLocked(scraper: ChangelogScraper, companies: string[], options: CliOptions): Promise<number> {
+  const recorder = new RunRecorder(createDataStore(), 'cli');
+  await recorder.begin();
+  const controller = new AbortController();
+  // First Ctrl-C cancels the remaining scrapes; a second one exits immediately
+  process.once('SIGINT', () => {
+    console.error('Cancelling scrape...');
+    controller.abort();
+    process.once('SIGINT', () => process.exit(130));
+  });
+
+  const results = await scraper.scrapeAllChangelogs({
+    companies,
+    signal: controller.signal,
+    onCompetitorStart: competitor => recorder.competitorStarted(competitor),
+    onProgress: progress => recorder.observe(progress),
+    onCompetitorDone: (result: CompanyScrapeResult) => recorder.recordResult(result).then(() => undefined)
+  });
+  await recorder.finish(controller.signal.aborted ? 'cancelled' : undefined);
+
+  const recorded = new Map(recorder.run.competitors.map(entry => [entry.competitor, entry]));
+
+  const summary = results.map(result => {
+    const entry = recorded.get(result.competitor);
+    const held = entry?.status === 'quarantined' ? entry : undefined;
+    // A result can succeed and still fail to be stored
+    const failed = !result.success || entry?.status === 'failed';
+    return {
+      competitor: result.competitor,
+      status: result.cancelled
+        ? 'cancelled'
+        : failed ? 'failed' : held ? 'quarantined' : result.data?.unchanged ? 'unchanged' : 'succeeded',
+      updates: failed ? null : result.data?.updates.length ?? null,
+      durationMs: result.durationMs,
+      error: held ? held.qualityProblems?.join('; ') ?? null : failed ? entry?.error ?? result.error ?? null : null,
+      quarantineId: held?.quarantineId ?? null
+    };
+  });
+
+  if (options.json) {
+    printJson(summary);
+  } else {
+    for (const entry of summary) {
+      const detail = entry.error ? entry.error : `${entry.updates} updates`;
+      const icon = entry.status === 'failed' ? '❌' : entry.status === 'quarantined' ? '⚠️ ' : '✅';
+      print(`${icon} ${entry.competitor}: ${entry.status}, ${detail} (${entry.durationMs}ms)`);
+    }
+  }
+
+  return summary.some(entry => entry.status !== 'succeeded' && entry.status !== 'unchanged') ? EXIT_FAILURE : EXIT_OK;
+}
+
+async function list(options: CliOptions): Promise<number> {
+  const scraper = new ChangelogScraper();
+  const configs = new Map(loadCompetitorConfigs().map(config => [config.id, config]));
+
+  const companies = scraper.getSupportedCompanies().map(id => ({
+    id,
+    name: configs.get(id)?.name ?? id,
+    listingUrl: configs.get(id)?.listingUrl ?? scraper.getScraper(id)?.getBaseUrl() ?? null,
+    sources: scraper.getScraper(id)?.getSources() ?? []
+  }));
+
+  if (options.json) {
+    printJson(companies);
+  } else {
+    for (const company of companies) {
+      print(`${company.id.padEnd(14)} ${company.name.padEnd(16)} ${company.sources.join(',').padEnd(20)} ${company.listingUrl}`);
+    }
+  }
+  return EXIT_OK;
+}
+
+async function show(company: string | undefined, options: CliOptions): Promise<number> {
+  if (!company) {
+    throw new UsageError('show needs a company name');
+  }
+
+  const limit = parsePositiveInteger(options.limit, 'limit', 10);
+  const data = (await loadDatasets()).find(dataset => dataset.competitor === company);
+  if (!data) {
+    console.error(`No stored data for ${company}`);
+    return EXIT_FAILURE;
+  }
+
+  if (options.json) {
+    printJson(data);
+    return EXIT_OK;
+  }
+
+  print(`${data.competitor}: ${data.updates.length} updates, last scraped ${data.lastScraped}`);
+  if (data.failureStreak) {
+    print(`⚠️  ${data.failureStreak} failed scrapes in a row since ${data.lastSuccessAt || 'never'}: ${data.lastError}`);
+  }
+  for (const update of data.updates.slice(0, limit)) {
+    print(`  ${String(update.date).padEnd(12)} ${String(update.type).padEnd(12)} ${update.title}`);
+  }
+  if (data.updates.length > limit) {
+    print(`  ... ${data.updates.length - limit} more (use --limit or --json)`);
+  }
+  return EXIT_OK;
+}
+
+const CSV_COLUMNS = ['id', 'competitor', 'date', 'type', 'impact', 'title', 'description', 'url', 'tags', 'confidence', 'firstSeenAt', 'lastSeenAt'];
+
+function csvCell(value: unknown): string {
+  const text = Array.isArray(value) ? value.join(';') : value == null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(updates: QueriedUpdate[]): string {
+  const rows = updates.map(update => CSV_COLUMNS.map(column => csvCell(update[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+async function exportUpdates(options: CliOptions): Promise<number> {
+  const format = options.format || 'json';
+  if (format !== 'json' && format !== 'csv') {
+    throw new UsageError('--format must be json or csv');
+  }
+
+  const datasets = (await loadDatasets())
+    .filter(data => !options.competitor || options.competitor.includes(data.competitor));
+  const updates = flattenUpdates(datasets);
+  const output = format === 'csv' ? toCsv(updates) : JSON.stringify(updates, null, 2) + '\n';
+
+  if (options.out) {
+    fs.writeFileSync(options.out, output);
+    console.error(`Exported ${updates.length} updates from ${datasets.length} companies to ${options.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+  return EXIT_OK;
+}
+
+async function validate(options: CliOptions): Promise<number> {
+  const dataDir = options['data-dir'] || path.join(process.cwd(), 'data');
+  const result = validateDataDir(dataDir);
+  const errors = result.issues.filter(issue => issue.level === 'error');
+  const warnings = result.issues.filter(issue => issue.level === 'warning');
+
+  if (options.json) {
+    printJson({ dataDir, ...result, valid: errors.length === 0 });
+  } else {
+    for (const issue of result.issues) {
+      print(`${issue.level === 'error' ? '❌' : '⚠️ '} ${issue.file} ${issue.path}: ${issue.message}`);
+    }
+    print(`Checked ${result.files} files, ${result.updates} updates: ${errors.length} errors, ${warnings.length} warnings`);
+  }
+
+  return errors.length > 0 ? EXIT_FAILURE : EXIT_OK;
+}
+
+type CheckStatus = 'ok' | 'warn' | 'fail';
+
+interface DoctorCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+const BROWSER_CHECK_TIMEOUT_MS = 30000;
+
+async function checkChromium(): Promise<DoctorCheck> {
+  const executable = puppeteer.executablePath();
+  if (!executable || !fs.existsSync(executable)) {
+    return { name: 'chromium', status: 'fail', detail: `Chromium not found at ${executable || '(none)'}; run \`npx puppeteer browsers install chrome\`` };
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const browser = await Promise.race([
+      launchBrowser(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`launch timed out after ${BROWSER_CHECK_TIMEOUT_MS / 1000}s`)), BROWSER_CHECK_TIMEOUT_MS);
+      })
+    ]);
+    const version = await browser.version();
+    await closeBrowser(browser);
+    return { name: 'chromium', status: 'ok', detail: `${version} (${executable})` };
+  } catch (error) {
+    return { name: 'chromium', status: 'fail', detail: `found ${executable} but it failed to launch: ${error instanceof Error ? error.message : error}` };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function checkDataDir(dataDir: string): DoctorCheck {
+  try {
+    fs.mkdirSync(dataDir, { recursive: true });
+    const probe = path.join(dataDir, `.doctor-${process.pid}`);
+    fs.writeFileSync(probe, 'ok');
+    fs.rmSync(probe);
+    return { name: 'data-dir', status: 'ok', detail: `${dataDir} is writable` };
+  } catch (error) {
+    return { name: 'data-dir', status: 'fail', detail: `${dataDir} is not writable: ${error instanceof Error ? error.message : error}` };
+  }
+}
+
+function checkConfigs(): DoctorCheck {
+  const configDir = getCompetitorConfigDir();
+  const files = fs.existsSync(configDir) ? fs.readdirSync(configDir).filter(file => file.endsWith('.json')) : [];
+  const loaded = loadCompetitorConfigs().length;
+
+  if (files.length === 0) {
+    return { name: 'configs', status: 'fail', detail: `no competitor configs in ${configDir}` };
+  }
+  return loaded === files.length
+    ? { name: 'configs', status: 'ok', detail: `${loaded} competitor configs loaded` }
+    : { name: 'configs', status: 'fail', detail: `${files.length - loaded} of ${files.length} configs failed to load (see errors above)` };
+}
+
+async function checkFreshness(staleDays: number): Promise<DoctorCheck[]> {
+  const supported = new ChangelogScraper().getSupportedCompanies();
+  const datasets = new Map((await createDataStore().retrieveAll()).map(data => [data.competitor, data]));
+  const staleMs = staleDays * 24 * 60 * 60 * 1000;
+
+  return supported.map(competitor => {
+    const name = `data:${competitor}`;
+    const data = datasets.get(competitor);
+    if (!data) {
+      return { name, status: 'warn', detail: 'never scraped' };
+    }
+
+    const lastSuccess = data.lastSuccessAt || (data.success ? data.lastScraped : null);
+    const age = lastSuccess ? Date.now() - Date.parse(lastSuccess) : Infinity;
+    const ageText = lastSuccess ? `last successful scrape ${lastSuccess}` : 'no successful scrape yet';
+
+    if (data.failureStreak) {
+      return { name, status: 'warn', detail: `${data.failureStreak} failed scrapes in a row, ${ageText}: ${data.lastError}` };
+    }
+    if (age > staleMs) {
+      return { name, status: 'warn', detail: `stale: ${ageText} (older than ${staleDays} days)` };
+    }
+    return { name, status: 'ok', detail: `${data.updates.length} updates, ${ageText}` };
+  });
+}
+
+// Scrapers whose selectors look broken; see src/services/scraper-health.ts
+async function checkScraperHealth(): Promise<DoctorCheck[]> {
+  const health = await new ScraperHealthMonitor(createDataStore()).listHealth();
+  const degraded = health.filter(entry => entry.status === 'degraded');
+
+  if (degraded.length === 0) {
+    const known = health.filter(entry => entry.status === 'healthy').length;
+    return [{ name: 'scraper-health', status: 'ok', detail: `no degraded scrapers (${known} of ${health.length} assessed)` }];
+  }
+  return degraded.map(entry => ({ name: `health:${entry.competitor}`, status: 'warn', detail: `degraded: ${entry.problems.join('; ')}` }));
+}
+
+async function doctor(options: CliOptions): Promise<number> {
+  const staleDays = parsePositiveInteger(options['stale-days'], 'stale-days', 3);
+  const checks: DoctorCheck[] = [
+    await checkChromium(),
+    checkDataDir(path.join(process.cwd(), 'data')),
+    checkConfigs(),
+    ...await checkFreshness(staleDays),
+    ...await checkScraperHealth()
+  ];
+
+  if (options.json) {
+    printJson({ healthy: !checks.some(check => check.status === 'fail'), checks });
+  } else {
+    const icons: Record<CheckStatus, string> = { ok: '✅', warn: '⚠️ ', fail: '❌' };
+    for (const check of checks) {
+      print(`${icons[check.status]} ${check.name}: ${check.detail}`);
+    }
+  }
+
+  // Warnings (stale, failing or degraded competitors) are reported but only hard failures fail the run
+  return checks.some(check => check.status === 'fail') ? EXIT_FAILURE : EXIT_OK;
+}
+
+async function run(argv: string[]): Promise<number> {
+  // Keep stdout clean for JSON and CSV consumers
+  console.log = console.error;
+  console.info = console.error;
+
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+      limit: { type: 'string' },
+      format: { type: 'string' },
+      competitor: { type: 'string', multiple: true },
+      out: { type: 'string', short: 'o' },
+      'data-dir': { type: 'string' },
+      'stale-days': { type: 'string' }
+    }
+  });
+  const [command, ...args] = positionals;
+  const options = values as CliOptions;
+
+  if (values.help) {
+    print(USAGE);
+    return EXIT_OK;
+  }
+  if (!command) {
+    throw new UsageError('Missing command');
+  }
+
+
+  switch (command) {
+    case 'scrape': return scrape(args, options);
+    case 'list': return list(options);
+    case 'show': return show(args[0], options);
+    case 'export': return exportUpdates(options);
+    case 'validate': return validate(options);
+    case 'doctor': return doctor(options);
+    default: throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+run(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    // parseArgs rejects unknown flags with a TypeError carrying an ERR_PARSE_ARGS_* code
+    if (error instanceof UsageError || String(error?.code).startsWith('ERR_PARSE_ARGS')) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exit(EXIT_USAGE);
+    }
+    console.error('💥 Fatal error:', error);
+    process.exit(EXIT_FAILURE);
+  });
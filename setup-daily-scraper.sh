@@ -89,7 +89,7 @@ echo "🎉 Setup complete!"
 echo ""
 echo "📊 Monitor scraping results:"
 echo "  - Live logs: tail -f $SCRIPT_DIR/logs/daily-scraper.log"
-echo "  - Scraping history: cat $SCRIPT_DIR/data/scraping-log.json"
+echo "  - Scraping history: http://localhost:3000/admin/runs"
 echo "  - Company data: ls -la $SCRIPT_DIR/data/"
 echo ""
 echo "🔧 Manual run: node $SCRIPT_DIR/daily-scraper.js"
@@ -0,0 +1,5 @@
+import RunHistory from '@/components/RunHistory';
+
+export default function RunsPage() {
+  return <RunHistory />;
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AssetStore } from '@/services/asset-store';
+
+interface RouteContext {
+  params: Promise<{ hash: string }>;
+}
+
+// GET /api/assets/:hash -> the stored file (an entry screenshot). Assets are content-addressed,
+// so a hash always names the same bytes and responses can be cached indefinitely.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { hash } = await params;
+  const asset = new AssetStore().get(hash);
+
+  if (!asset) {
+    return NextResponse.json({
+      success: false,
+      error: `Unknown asset: ${hash}`,
+      timestamp: new Date().toISOString()
+    }, { status: 404 });
+  }
+
+  if (request.headers.get('if-none-match') === `"${asset.hash}"`) {
+    return new NextResponse(null, { status: 304 });
+  }
+
+  return new NextResponse(new Uint8Array(asset.body), {
+    headers: {
+      'Content-Type': asset.contentType,
+      'Content-Length': String(asset.body.length),
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'ETag': `"${asset.hash}"`
+    }
+  });
+}
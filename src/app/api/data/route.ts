@@ -1,35 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
+import { loadCompetitorConfigs } from '@/services/competitor-registry';
+import { createDataStore } from '@/services/data-store';
+import { assignUpdateIds } from '@/services/update-identity';
+import { hasQueryParams, parseUpdateQuery, QueryError, queryUpdates } from '@/services/update-query';
+
+// Files written before failures were tracked only carry the success flag
+function failureStatus(data: any) {
+  const failureStreak: number = data.failureStreak ?? (data.success === false ? 1 : 0);
+  const lastSuccessAt: string | null = data.lastSuccessAt ?? (data.success !== false ? data.lastScraped ?? null : null);
+
+  return {
+    failureStreak,
+    lastSuccessAt,
+    lastError: data.lastError ?? null,
+    // The shown updates date from the last success; null while the competitor is healthy
+    staleSince: failureStreak > 0 ? lastSuccessAt ?? data.lastScraped ?? null : null
+  };
+}
 
 export async function GET(request: NextRequest) {
   try {
-    const dataDir = path.join(process.cwd(), 'data');
-    const files = fs.readdirSync(dataDir).filter(file => file.endsWith('.json') && file !== 'scraping-log.json');
-    
-    const companies = [];
+    const listingUrls = new Map(loadCompetitorConfigs().map(config => [config.id, config.listingUrl]));
+    const datasets = await createDataStore().retrieveAll();
+
+    const companies = datasets
+      .filter(data => Array.isArray(data.updates))
+      .map(data => ({
+        competitor: data.competitor,
+        // Datasets written before updates carried IDs get the same IDs the scraper would assign
+        updates: assignUpdateIds(data.competitor, data.updates, listingUrls.get(data.competitor)),
+        lastScraped: data.lastScraped,
+        success: data.success,
+        ...failureStatus(data)
+      }));
     
-    for (const file of files) {
-      try {
-        const filePath = path.join(dataDir, file);
-        const fileContent = fs.readFileSync(filePath, 'utf8');
-        const data = JSON.parse(fileContent);
-        
-        if (data.updates && Array.isArray(data.updates)) {
-          companies.push({
-            competitor: data.competitor || file.replace('.json', ''),
-            updates: data.updates,
-            lastScraped: data.lastScraped,
-            success: data.success
-          });
-        }
-      } catch (error) {
-        console.error(`Error reading ${file}:`, error);
-      }
+    console.log(`Loaded ${companies.length} stored datasets`);
+
+    // Without query parameters, keep returning every competitor's full dataset
+    if (hasQueryParams(request.nextUrl.searchParams)) {
+      const query = parseUpdateQuery(request.nextUrl.searchParams);
+      const result = queryUpdates(companies, query);
+
+      return NextResponse.json({
+        success: true,
+        ...result,
+        competitors: companies
+          .filter(company => !query.competitors || query.competitors.includes(company.competitor))
+          .map(company => ({
+            competitor: company.competitor,
+            lastScraped: company.lastScraped,
+            success: company.success,
+            failureStreak: company.failureStreak,
+            lastSuccessAt: company.lastSuccessAt,
+            lastError: company.lastError,
+            staleSince: company.staleSince
+          })),
+        timestamp: new Date().toISOString()
+      });
     }
     
-    console.log(`Loaded ${companies.length} stored datasets from disk`);
-    
     return NextResponse.json({ 
       success: true, 
       data: companies,
@@ -38,6 +67,14 @@ export async function GET(request: NextRequest) {
     });
     
   } catch (error) {
+    if (error instanceof QueryError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
     console.error('Error loading stored data:', error);
     return NextResponse.json({ 
       success: false, 
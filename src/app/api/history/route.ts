@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { HistoryStore, isValidCompetitorId } from '@/services/history-store';
+
+// GET /api/history                      -> capture times per competitor
+// GET /api/history?at=2025-06-01        -> every competitor's dataset as of that time
+// GET /api/history?competitor=notion&at=... limits either form to one competitor
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const competitor = searchParams.get('competitor');
+  const at = searchParams.get('at');
+
+  if (competitor !== null && !isValidCompetitorId(competitor)) {
+    return NextResponse.json({
+      success: false,
+      error: `Invalid competitor: ${competitor}`,
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const history = new HistoryStore();
+    const competitors = competitor ? [competitor] : history.listCompetitors();
+
+    if (!at) {
+      return NextResponse.json({
+        success: true,
+        data: competitors.map(name => ({ competitor: name, snapshots: history.listSnapshots(name) })),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const atDate = new Date(at);
+    if (isNaN(atDate.getTime())) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid "at" timestamp: ${at}`,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const snapshots = history.getDatasetAt(atDate, competitors);
+
+    return NextResponse.json({
+      success: true,
+      at: atDate.toISOString(),
+      // Same shape as /api/data, with the capture time of each snapshot as lastScraped
+      data: snapshots.map(snapshot => ({
+        competitor: snapshot.competitor,
+        updates: snapshot.updates,
+        lastScraped: snapshot.capturedAt
+      })),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error loading history:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load history',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
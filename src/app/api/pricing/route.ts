@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidCompetitorId } from '@/services/history-store';
+import { PricingSnapshot, PricingStore } from '@/services/pricing-tracker';
+
+// GET /api/pricing                      -> every competitor's current plans
+// GET /api/pricing?at=2025-06-01        -> the plans each competitor listed at that time
+// GET /api/pricing?competitor=notion    -> one competitor's full snapshot history, oldest first
+// GET /api/pricing?competitor=notion&at=... -> that competitor's plans at that time
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const competitor = searchParams.get('competitor');
+  const at = searchParams.get('at');
+
+  if (competitor !== null && !isValidCompetitorId(competitor)) {
+    return NextResponse.json({
+      success: false,
+      error: `Invalid competitor: ${competitor}`,
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const pricing = new PricingStore();
+
+    if (competitor && !at) {
+      return NextResponse.json({
+        success: true,
+        data: pricing.listSnapshots(competitor),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const atDate = at ? new Date(at) : new Date();
+    if (isNaN(atDate.getTime())) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid "at" timestamp: ${at}`,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const competitors = competitor ? [competitor] : pricing.listCompetitors();
+    const snapshots = competitors
+      .map(name => pricing.getSnapshotAt(name, atDate))
+      .filter((snapshot): snapshot is PricingSnapshot => snapshot !== null);
+
+    return NextResponse.json({
+      success: true,
+      at: atDate.toISOString(),
+      data: snapshots,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error loading pricing snapshots:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load pricing snapshots',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
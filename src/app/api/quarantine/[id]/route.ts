@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDataStore } from '@/services/data-store';
+import { QuarantineError, QuarantineStore } from '@/services/quality-gate';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/quarantine/:id -> the quarantined result, including its updates
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const entry = new QuarantineStore(createDataStore()).get(id);
+
+  if (!entry) {
+    return NextResponse.json({
+      success: false,
+      error: `Unknown quarantined result: ${id}`,
+      timestamp: new Date().toISOString()
+    }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: entry,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// PATCH /api/quarantine/:id { status: "approved" | "rejected", note?: string }
+// Approving stores the result over the current dataset; rejecting discards it.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const store = new QuarantineStore(createDataStore());
+
+    if (body.note !== undefined && typeof body.note !== 'string') {
+      throw new QuarantineError('"note" must be a string');
+    }
+
+    let entry;
+    if (body.status === 'approved') {
+      entry = await store.approve(id, body.note);
+    } else if (body.status === 'rejected') {
+      entry = store.reject(id, body.note);
+    } else {
+      throw new QuarantineError('"status" must be "approved" or "rejected"');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: entry,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to review quarantined result',
+      timestamp: new Date().toISOString()
+    }, { status: error instanceof QuarantineError ? error.status : 500 });
+  }
+}
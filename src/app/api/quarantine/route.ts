@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDataStore } from '@/services/data-store';
+import { QuarantineStatus, QuarantineStore } from '@/services/quality-gate';
+
+const STATUSES: QuarantineStatus[] = ['pending', 'approved', 'rejected'];
+
+// GET /api/quarantine                         -> results held back by the quality gate, most recent first
+// GET /api/quarantine?status=pending&competitor=notion
+// Entries list an update count; fetch /api/quarantine/:id for the held-back updates themselves
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const status = searchParams.get('status');
+
+  if (status && !STATUSES.includes(status as QuarantineStatus)) {
+    return NextResponse.json({
+      success: false,
+      error: `Unknown status "${status}" (expected ${STATUSES.join(', ')})`,
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const entries = new QuarantineStore(createDataStore()).list({
+      status: (status as QuarantineStatus) || undefined,
+      competitor: searchParams.get('competitor') || undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: entries.map(({ data, ...entry }) => ({ ...entry, updates: data.updates.length })),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error loading quarantined results:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load quarantined results',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
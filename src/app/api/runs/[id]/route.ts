@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDataStore } from '@/services/data-store';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/runs/:id
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const run = await createDataStore().getScrapeRun(id);
+
+    if (!run) {
+      return NextResponse.json({
+        success: false,
+        error: `Unknown run: ${id}`,
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: run,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error loading scrape run:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load scrape run',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDataStore } from '@/services/data-store';
+import { compareRuns } from '@/services/run-history';
+
+// GET /api/runs/compare?a=<id>&b=<id>  -> per-competitor status changes and deltas (b minus a)
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const a = searchParams.get('a');
+  const b = searchParams.get('b');
+
+  if (!a || !b) {
+    return NextResponse.json({
+      success: false,
+      error: 'Both "a" and "b" run IDs are required',
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const dataStore = createDataStore();
+    const [runA, runB] = await Promise.all([dataStore.getScrapeRun(a), dataStore.getScrapeRun(b)]);
+    const missing = !runA ? a : !runB ? b : null;
+
+    if (missing || !runA || !runB) {
+      return NextResponse.json({
+        success: false,
+        error: `Unknown run: ${missing}`,
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: compareRuns(runA, runB),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error comparing scrape runs:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to compare scrape runs',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
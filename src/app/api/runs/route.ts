@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDataStore, RunTrigger, ScrapeRunStatus } from '@/services/data-store';
+
+const RUN_STATUSES: ScrapeRunStatus[] = ['running', 'succeeded', 'partial', 'failed', 'cancelled'];
+const RUN_TRIGGERS: RunTrigger[] = ['job', 'scheduler', 'cli'];
+
+function badRequest(error: string) {
+  return NextResponse.json({
+    success: false,
+    error,
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+// GET /api/runs                          -> most recent scrape runs first
+// GET /api/runs?failed=true              -> runs where at least one competitor failed
+// GET /api/runs?status=partial,failed&trigger=scheduler&competitor=notion&before=<ISO>&limit=20
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+
+  const status = searchParams.getAll('status').flatMap(value => value.split(',')).filter(Boolean);
+  const invalidStatus = status.find(value => !RUN_STATUSES.includes(value as ScrapeRunStatus));
+  if (invalidStatus) {
+    return badRequest(`Unknown status "${invalidStatus}" (expected ${RUN_STATUSES.join(', ')})`);
+  }
+
+  const trigger = searchParams.get('trigger');
+  if (trigger && !RUN_TRIGGERS.includes(trigger as RunTrigger)) {
+    return badRequest(`Unknown trigger "${trigger}" (expected ${RUN_TRIGGERS.join(', ')})`);
+  }
+
+  const before = searchParams.get('before');
+  if (before && isNaN(Date.parse(before))) {
+    return badRequest(`Invalid "before" timestamp: ${before}`);
+  }
+
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam === null ? undefined : Number(limitParam);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 500)) {
+    return badRequest('"limit" must be an integer between 1 and 500');
+  }
+
+  try {
+    const runs = await createDataStore().listScrapeRuns({
+      status: status.length > 0 ? status as ScrapeRunStatus[] : undefined,
+      trigger: (trigger as RunTrigger) || undefined,
+      competitor: searchParams.get('competitor') || undefined,
+      failedOnly: searchParams.get('failed') === 'true',
+      before: before ? new Date(before).toISOString() : undefined,
+      limit
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: runs,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error loading scrape runs:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load scrape runs',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
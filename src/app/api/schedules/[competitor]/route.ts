@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getScheduler, ScheduleError } from '@/services/scheduler';
+
+interface RouteContext {
+  params: Promise<{ competitor: string }>;
+}
+
+// GET /api/schedules/:competitor
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { competitor } = await params;
+  const schedule = getScheduler().listSchedules().find(entry => entry.competitor === competitor);
+
+  if (!schedule) {
+    return NextResponse.json({
+      success: false,
+      error: `Unknown competitor: ${competitor}`,
+      timestamp: new Date().toISOString()
+    }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: schedule,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// PATCH /api/schedules/:competitor { cron?: string | null, enabled?: boolean }
+// A cron string overrides the config file ("off" disables it); null goes back to the config's schedule.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { competitor } = await params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (body.cron !== undefined && body.cron !== null && typeof body.cron !== 'string') {
+      throw new ScheduleError('"cron" must be a cron expression, "off" or null');
+    }
+    if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+      throw new ScheduleError('"enabled" must be true or false');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: getScheduler().updateSchedule(competitor, { cron: body.cron, enabled: body.enabled }),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update schedule',
+      timestamp: new Date().toISOString()
+    }, { status: error instanceof ScheduleError ? error.status : 500 });
+  }
+}
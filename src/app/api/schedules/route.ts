@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getScheduler } from '@/services/scheduler';
+
+// GET /api/schedules -> every competitor's cron schedule with its next and last run
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      data: getScheduler().listSchedules(),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error listing schedules:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list schedules',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
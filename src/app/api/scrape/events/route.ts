@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server';
+import { getScrapeEventBus, ScrapeEvent } from '@/services/scrape-events';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 15000;
+
+// GET /api/scrape/events?jobId=... -> Server-Sent Events stream of scrape lifecycle events
+// With a jobId, buffered events for that job are replayed first so nothing between POST and connect is lost.
+// Reconnecting clients resume after their Last-Event-ID (or ?since=) instead.
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get('jobId') || undefined;
+  const lastEventId = Number(request.headers.get('last-event-id') || request.nextUrl.searchParams.get('since') || 0);
+  const bus = getScrapeEventBus();
+  const encoder = new TextEncoder();
+
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const sendEvent = (event: ScrapeEvent) => {
+        if (jobId && event.jobId !== jobId) return;
+        send(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      // Tell EventSource how long to wait before reconnecting
+      send('retry: 3000\n\n');
+
+      if (jobId || lastEventId > 0) {
+        for (const event of bus.since(Number.isFinite(lastEventId) ? lastEventId : 0, jobId)) {
+          sendEvent(event);
+        }
+      }
+
+      const unsubscribe = bus.subscribe(sendEvent);
+      // Comment lines keep proxies from closing an idle connection while a page scrolls
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener('abort', cleanup, { once: true });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobRegistry, JobError } from '@/services/scrape-jobs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/scrape/jobs/:id -> job state with per-competitor progress, counts and timings
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const job = getJobRegistry().getJob(id);
+
+  if (!job) {
+    return NextResponse.json({
+      success: false,
+      error: `No job found with id ${id}`,
+      timestamp: new Date().toISOString()
+    }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: job,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// DELETE /api/scrape/jobs/:id -> cancel a queued or running job
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const job = getJobRegistry().cancelJob(id);
+
+    return NextResponse.json({
+      success: true,
+      data: job,
+      timestamp: new Date().toISOString()
+    }, { status: 202 });
+
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel job',
+      timestamp: new Date().toISOString()
+    }, { status: error instanceof JobError ? error.status : 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobRegistry, JobError } from '@/services/scrape-jobs';
+
+// GET /api/scrape/jobs?limit=20 -> recent jobs, newest first
+export async function GET(request: NextRequest) {
+  const limit = Number(request.nextUrl.searchParams.get('limit') || 20);
+
+  return NextResponse.json({
+    success: true,
+    data: getJobRegistry().listJobs(Number.isInteger(limit) && limit > 0 ? limit : 20),
+    timestamp: new Date().toISOString()
+  });
+}
+
+// POST /api/scrape/jobs { competitors?: string[] } -> queue a scrape and return its job right away
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const competitors = body?.competitors;
+    if (competitors !== undefined && (!Array.isArray(competitors) || competitors.some(name => typeof name !== 'string'))) {
+      throw new JobError('"competitors" must be an array of competitor IDs');
+    }
+    const job = getJobRegistry().createJob(competitors);
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      data: job,
+      statusUrl: `/api/scrape/jobs/${job.id}`,
+      timestamp: new Date().toISOString()
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('Error creating scrape job:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create scrape job',
+      timestamp: new Date().toISOString()
+    }, { status: error instanceof JobError ? error.status : 500 });
+  }
+}
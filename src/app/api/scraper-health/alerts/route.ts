@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDataStore } from '@/services/data-store';
+import { ScraperHealthMonitor } from '@/services/scraper-health';
+
+// GET /api/scraper-health/alerts            -> open alerts, most recent first
+// GET /api/scraper-health/alerts?all=true   -> resolved alerts too
+export async function GET(request: NextRequest) {
+  try {
+    const monitor = new ScraperHealthMonitor(createDataStore());
+    const all = request.nextUrl.searchParams.get('all') === 'true';
+
+    return NextResponse.json({
+      success: true,
+      data: monitor.listAlerts({ openOnly: !all }),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error loading scraper health alerts:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load scraper health alerts',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { createDataStore } from '@/services/data-store';
+import { ScraperHealthMonitor } from '@/services/scraper-health';
+
+// GET /api/scraper-health -> health status, metrics and thresholds per competitor, plus open alerts
+export async function GET() {
+  try {
+    const monitor = new ScraperHealthMonitor(createDataStore());
+
+    return NextResponse.json({
+      success: true,
+      data: await monitor.listHealth(),
+      alerts: monitor.listAlerts({ openOnly: true }),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error loading scraper health:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load scraper health',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
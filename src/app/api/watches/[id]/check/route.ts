@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPageWatcher, WatchError } from '@/services/page-watcher';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/watches/:id/check -> check the page now instead of waiting for its schedule
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const { watch, changed, update } = await getPageWatcher().check(id);
+
+    return NextResponse.json({
+      success: !watch.lastError,
+      changed,
+      update: update ?? null,
+      data: watch,
+      ...(watch.lastError ? { error: watch.lastError } : {}),
+      timestamp: new Date().toISOString()
+    }, { status: watch.lastError ? 502 : 200 });
+
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to check watch',
+      timestamp: new Date().toISOString()
+    }, { status: error instanceof WatchError ? error.status : 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WatchError, WatchStore } from '@/services/page-watcher';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/watches/:id -> the watch, including the baseline text the next check is compared with
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const watch = new WatchStore().get(id);
+
+  if (!watch) {
+    return NextResponse.json({
+      success: false,
+      error: `Unknown watch: ${id}`,
+      timestamp: new Date().toISOString()
+    }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: watch,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// PATCH /api/watches/:id { name?, url?, selector?, xpath?, source?, normalize?, schedule?, enabled? }
+// Changing what is watched (URL, scope, source or normalization) starts over from a new baseline.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const body = await request.json().catch(() => null);
+
+    return NextResponse.json({
+      success: true,
+      data: new WatchStore().update(id, body),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update watch',
+      timestamp: new Date().toISOString()
+    }, { status: error instanceof WatchError ? error.status : 500 });
+  }
+}
+
+// DELETE /api/watches/:id -> stop watching; changes already found stay in the timeline
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    new WatchStore().remove(id);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove watch',
+      timestamp: new Date().toISOString()
+    }, { status: error instanceof WatchError ? error.status : 500 });
+  }
+}
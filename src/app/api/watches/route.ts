@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WatchError, WatchStore } from '@/services/page-watcher';
+
+// GET /api/watches -> every page watch with its check state, without the stored baseline text
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    data: new WatchStore().list().map(({ baseline, ...watch }) => ({ ...watch, hasBaseline: Boolean(baseline) })),
+    timestamp: new Date().toISOString()
+  });
+}
+
+// POST /api/watches { id, url, name?, selector? | xpath?, source?, normalize?, schedule?, enabled? }
+// The first check records the page's text; later checks store meaningful changes as updates under the watch's ID.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const watch = new WatchStore().create(body);
+
+    return NextResponse.json({
+      success: true,
+      data: watch,
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create watch',
+      timestamp: new Date().toISOString()
+    }, { status: error instanceof WatchError ? error.status : 500 });
+  }
+}
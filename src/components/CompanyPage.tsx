@@ -2,9 +2,10 @@
 
 import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
+import RevisionHistory, { Revision } from './RevisionHistory';
 
 interface Update {
-  id: number;
+  id: string;
   competitor: string;
   title: string;
   type: 'feature' | 'pricing' | 'bugfix' | 'improvement' | 'breaking' | 'security' | 'performance';
@@ -25,6 +26,54 @@ interface Update {
     scrapedAt?: string;
     affectedServices?: string[];
   };
+  // Full content from the entry's own page; mirrors EntryDetail in src/services/detail-crawler.ts
+  detail?: {
+    url: string;
+    text: string;
+    headings: string[];
+    bullets: string[];
+    images: { src: string; alt: string }[];
+    videos: { src: string; provider: string }[];
+  };
+  revisions?: Revision[]; // Silent edits found on rescrape, oldest first
+  changedAt?: string;
+}
+
+const UPDATE_PAGE_SIZE = 20;
+// The API's largest page; the activity graph pages through all of a company's updates
+const ACTIVITY_PAGE_SIZE = 1000;
+
+// Helper to parse an update's date, considering multiple possible fields
+function parseUpdateDate(u: any): Date | null {
+  const dateRegex = /^\w+ \d{1,2}, \d{4}$/;
+
+  let raw;
+  if (u.description && dateRegex.test(u.description.trim())) {
+    raw = u.description.trim();
+  } else {
+    raw = u.timestamp || u.date || u.updated || u.time || null;
+  }
+  const d = new Date(raw);
+  if (!isNaN(d.getTime())) return d;
+
+  if (u.description) {
+    const d2 = new Date(u.description);
+    if (!isNaN(d2.getTime())) return d2;
+  }
+  return null;
+}
+
+// Give every update a display timestamp derived from whichever date field it carries
+function normalizeUpdates(raw: any[], companyId: string) {
+  return raw.map((u: any, index: number) => {
+    const d = parseUpdateDate(u);
+    return {
+      ...u,
+      id: u.id ?? `${companyId}-${index + 1}`,
+      timestamp: u.timestamp || (d ? d.toISOString().split('T')[0] : ''),
+      screenshot: u.screenshot ? `/api/assets/${u.screenshot}` : '',
+    };
+  });
 }
 
 interface CompanyPageProps {
@@ -39,6 +88,10 @@ export default function CompanyPage({ companyId }: { companyId: string }) {
   const [activityTimeframe, setActivityTimeframe] = React.useState(1); // 1 year default
   const [selectedUpdate, setSelectedUpdate] = React.useState<any | null>(null);
   const [updateFilter, setUpdateFilter] = useState('all'); // New state for update filters
+  const [typeCounts, setTypeCounts] = useState<Record<string, number>>({});
+  const [listUpdates, setListUpdates] = useState<any[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [listLoading, setListLoading] = useState(false);
 
   const competitors: Record<string, { name: string; logo: string; website: string; description: string }> = {
     notion: {
@@ -100,33 +153,57 @@ export default function CompanyPage({ companyId }: { companyId: string }) {
   React.useEffect(() => {
     setLoading(true);
     setError(null);
-    fetch('/api/data')
+    // Only this company's updates; the full set feeds the activity graph and stats, so follow every page
+    const loadAllUpdates = async () => {
+      const params = new URLSearchParams({ competitor: companyId, limit: String(ACTIVITY_PAGE_SIZE) });
+      // The API returns { success, updates, competitors: [ status ], facets, nextCursor }
+      const data = await fetch(`/api/data?${params}`).then((res) => res.json());
+      const found = data.competitors?.[0];
+      if (!data.success || !found) {
+        setError('Company Not Found');
+        return;
+      }
+
+      const all = [...(data.updates || [])];
+      let cursor: string | null = data.nextCursor || null;
+      while (cursor) {
+        params.set('cursor', cursor);
+        const page = await fetch(`/api/data?${params}`).then((res) => res.json());
+        all.push(...(page.updates || []));
+        cursor = page.nextCursor || null;
+      }
+
+      setCompany(found);
+      setUpdates(normalizeUpdates(all, companyId));
+      setTypeCounts(data.facets?.types || {});
+    };
+
+    loadAllUpdates()
+      .catch(() => setError('Failed to load company data'))
+      .finally(() => setLoading(false));
+  }, [companyId]);
+
+  // The update list is filtered and paged on the server
+  const loadUpdatePage = React.useCallback((cursor: string | null) => {
+    const params = new URLSearchParams({ competitor: companyId, limit: String(UPDATE_PAGE_SIZE) });
+    if (updateFilter !== 'all') params.set('type', updateFilter);
+    if (cursor) params.set('cursor', cursor);
+
+    setListLoading(true);
+    fetch(`/api/data?${params}`)
       .then((res) => res.json())
       .then((data) => {
-        // The API returns { success: true, data: [ ...companies ] }
-        const found = data.data.find((c: any) => c.competitor === companyId);
-        if (!found) {
-          setError('Company Not Found');
-        } else {
-          setCompany(found);
-          // Normalize updates to ensure a valid timestamp field
-          const normalized = (found.updates || []).map((u: any, index: number) => {
-            const d = parseUpdateDate(u);
-            return {
-              ...u,
-              id: u.id ?? index + 1,
-              timestamp: u.timestamp || (d ? d.toISOString().split('T')[0] : ''),
-            };
-          });
-          setUpdates(normalized);
-        }
-        setLoading(false);
+        const page = normalizeUpdates(data.updates || [], companyId);
+        setListUpdates((previous) => (cursor ? [...previous, ...page] : page));
+        setNextCursor(data.nextCursor || null);
       })
-      .catch((err) => {
-        setError('Failed to load company data');
-        setLoading(false);
-      });
-  }, [companyId]);
+      .catch((err) => console.error('Failed to load updates:', err))
+      .finally(() => setListLoading(false));
+  }, [companyId, updateFilter]);
+
+  React.useEffect(() => {
+    loadUpdatePage(null);
+  }, [loadUpdatePage]);
 
   const generateActivityGraph = (years: number = 1) => {
     const weeks = years * 52;
@@ -193,29 +270,10 @@ export default function CompanyPage({ companyId }: { companyId: string }) {
     return date.toISOString().split('T')[0];
   };
 
-  // Helper to parse an update's date, considering multiple possible fields
-  const parseUpdateDate = (u: any): Date | null => {
-    const dateRegex = /^\w+ \d{1,2}, \d{4}$/;
-
-    let raw;
-    if (u.description && dateRegex.test(u.description.trim())) {
-      raw = u.description.trim();
-    } else {
-      raw = u.timestamp || u.date || u.updated || u.time || null;
-    }
-    const d = new Date(raw);
-    if (!isNaN(d.getTime())) return d;
-
-    if (u.description) {
-      const d2 = new Date(u.description);
-      if (!isNaN(d2.getTime())) return d2;
-    }
-    return null;
-  };
 
   // Add after formatDate
   const formatHumanDate = (ts: string) => {
-    if (!ts) return '';
+    if (!ts || ts === 'unknown') return 'Unknown date';
     const d = new Date(ts);
     if (isNaN(d.getTime())) return ts; // Fallback
     return d.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
@@ -290,8 +348,6 @@ export default function CompanyPage({ companyId }: { companyId: string }) {
     );
   }
 
-  const filteredUpdates = updateFilter === 'all' ? updates : updates.filter((u: any) => (u.type || u.category || 'other') === updateFilter);
-
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -332,20 +388,21 @@ export default function CompanyPage({ companyId }: { companyId: string }) {
           <div className="lg:col-span-2">
             {/* Filters - center, pill style, more spacing */}
             <div className="mb-6 flex flex-wrap justify-center gap-3">
-              {['all', 'feature', 'fix', 'chore', 'security', 'performance', 'docs', 'other'].map((filter: string) => (
+              {['all', ...Object.keys(typeCounts).sort()].map((filter: string) => (
                 <button
                   key={filter}
                   className={`px-4 py-1.5 rounded-full border text-sm font-semibold transition-colors duration-150 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-400 ${updateFilter === filter ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-blue-50'}`}
                   onClick={() => setUpdateFilter(filter)}
                 >
                   {filter.charAt(0).toUpperCase() + filter.slice(1)}
+                  <span className="ml-1 opacity-70">{filter === 'all' ? updates.length : typeCounts[filter]}</span>
                 </button>
               ))}
             </div>
             <div className="bg-white rounded-lg border border-gray-200">
               
               <div className="divide-y divide-gray-200">
-                {filteredUpdates.map((update) => (
+                {listUpdates.map((update) => (
                   <div
                     key={update.id}
                     className="p-6 hover:bg-gray-50 cursor-pointer transition-colors"
@@ -359,6 +416,14 @@ export default function CompanyPage({ companyId }: { companyId: string }) {
                             <span className="ml-1 capitalize">{update.type}</span>
                           </span>
                           <span className="text-sm text-gray-500">{formatHumanDate(update.timestamp)}</span>
+                          {update.changedAt && (
+                            <span
+                              title={`Edited after publishing; detected ${new Date(update.changedAt).toLocaleString()}`}
+                              className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+                            >
+                              changed
+                            </span>
+                          )}
                         </div>
                         <h3 className="text-lg font-medium text-gray-900 mb-2">{update.title}</h3>
                         {update.description && (
@@ -387,11 +452,23 @@ export default function CompanyPage({ companyId }: { companyId: string }) {
                 ))}
               </div>
               
-              {filteredUpdates.length === 0 && (
+              {listUpdates.length === 0 && !listLoading && (
                 <div className="p-6 text-center text-gray-500">
                   No updates found for this company.
                 </div>
               )}
+
+              {nextCursor && (
+                <div className="p-4 text-center border-t border-gray-200">
+                  <button
+                    className="px-4 py-1.5 rounded-full border border-gray-300 text-sm font-semibold text-gray-700 bg-white hover:bg-blue-50 disabled:opacity-50"
+                    onClick={() => loadUpdatePage(nextCursor)}
+                    disabled={listLoading}
+                  >
+                    {listLoading ? 'Loading...' : 'Load more'}
+                  </button>
+                </div>
+              )}
             </div>
           </div>
 
@@ -559,6 +636,19 @@ export default function CompanyPage({ companyId }: { companyId: string }) {
                   )}
                 </div>
 
+                {selectedUpdate.screenshot && (
+                  <div>
+                    <h3 className="font-medium text-gray-900 mb-2">Screenshot</h3>
+                    <a href={selectedUpdate.screenshot} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={selectedUpdate.screenshot}
+                        alt={`${selectedUpdate.title} as shown on the changelog`}
+                        className="w-full rounded border border-gray-200"
+                      />
+                    </a>
+                  </div>
+                )}
+
                 {selectedUpdate.description && (
                   <div>
                     <h3 className="font-medium text-gray-900 mb-2">Description</h3>
@@ -566,6 +656,39 @@ export default function CompanyPage({ companyId }: { companyId: string }) {
                   </div>
                 )}
 
+                {selectedUpdate.detail && (
+                  <div>
+                    <h3 className="font-medium text-gray-900 mb-2">Full Release Notes</h3>
+                    <div className="space-y-3">
+                      {selectedUpdate.detail.text.split('\n\n').map((paragraph: string, idx: number) => (
+                        <p key={idx} className="text-gray-600 leading-relaxed">{paragraph}</p>
+                      ))}
+                    </div>
+                    {selectedUpdate.detail.images.length > 0 && (
+                      <div className="grid grid-cols-2 gap-2 mt-4">
+                        {selectedUpdate.detail.images.map((image: { src: string; alt: string }, idx: number) => (
+                          <img key={idx} src={image.src} alt={image.alt} className="rounded border border-gray-200" />
+                        ))}
+                      </div>
+                    )}
+                    {selectedUpdate.detail.videos.length > 0 && (
+                      <ul className="mt-4 space-y-1">
+                        {selectedUpdate.detail.videos.map((video: { src: string; provider: string }, idx: number) => (
+                          <li key={idx}>
+                            <a href={video.src} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 hover:text-blue-800">
+                              Watch video ({video.provider}) →
+                            </a>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {selectedUpdate.revisions && selectedUpdate.revisions.length > 0 && (
+                  <RevisionHistory revisions={selectedUpdate.revisions} />
+                )}
+
                 {selectedUpdate.changes.added.length > 0 && (
                   <div>
                     <h3 className="font-medium text-gray-900 mb-2">Changes</h3>
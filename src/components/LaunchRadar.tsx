@@ -1,8 +1,10 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Eye, GitBranch, Calendar, Filter, Star, ExternalLink, Zap, Plus, Minus, RefreshCw, ArrowLeft, TrendingUp, Activity, Users, Clock, BarChart3, Globe } from 'lucide-react';
 import Link from 'next/link';
+import RevisionHistory, { Revision } from './RevisionHistory';
+import ScrapeProgressPanel from './ScrapeProgressPanel';
 
 interface Competitor {
   name: string;
@@ -13,7 +15,7 @@ interface Competitor {
 }
 
 interface Update {
-  id: number;
+  id: string;
   competitor: string;
   title: string;
   type: 'feature' | 'pricing' | 'bugfix' | 'improvement' | 'breaking' | 'security' | 'performance';
@@ -34,6 +36,15 @@ interface Update {
     scrapedAt?: string;
     affectedServices?: string[];
   };
+  revisions?: Revision[]; // Silent edits found on rescrape, oldest first
+  changedAt?: string;
+}
+
+// Per-competitor scrape health from /api/data
+interface CompetitorStatus {
+  failureStreak: number;
+  staleSince: string | null;
+  lastError: string | null;
 }
 
 const LaunchRadar: React.FC = () => {
@@ -42,12 +53,17 @@ const LaunchRadar: React.FC = () => {
   const [filter, setFilter] = useState<string>('all');
   const [currentView, setCurrentView] = useState<'timeline' | 'companies'>('timeline');
   const [scrapedUpdates, setScrapedUpdates] = useState<Update[]>([]);
+  const [competitorStatus, setCompetitorStatus] = useState<Record<string, CompetitorStatus>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [lastRefresh, setLastRefresh] = useState<string | null>(null);
   const [selectedCompany, setSelectedCompany] = useState<string | null>(null);
   const [activityTimeframe, setActivityTimeframe] = useState<number>(2);
   const [recentUpdateLimit, setRecentUpdateLimit] = useState(20);
   const [mounted, setMounted] = useState(false);
+  const [scrapeJobId, setScrapeJobId] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+  const [dataVersion, setDataVersion] = useState(0);
 
   // Force client-side rendering
   useEffect(() => {
@@ -74,31 +90,41 @@ const LaunchRadar: React.FC = () => {
           const updates: Update[] = [];
           let id = 1;
           
+          const statuses: Record<string, CompetitorStatus> = {};
+          
           result.data.forEach((company: any) => {
+            statuses[company.competitor] = {
+              failureStreak: company.failureStreak || 0,
+              staleSince: company.staleSince || null,
+              lastError: company.lastError || null
+            };
+
             if (company.updates && Array.isArray(company.updates)) {
               company.updates.forEach((update: any) => {
                 updates.push({
-                  id: id++,
+                  id: update.id || `${company.competitor}-${id++}`,
                   competitor: company.competitor || 'unknown',
                   title: update.title || 'Untitled',
                   type: update.type || 'improvement',
-                  timestamp: update.date || new Date().toISOString().split('T')[0],
-                  impact: 'medium',
+                  timestamp: update.date && update.date !== 'unknown' ? update.date : 'Unknown date',
+                  impact: update.impact || 'medium',
                   changes: {
                     added: update.description ? [update.description] : [],
                     modified: [],
                     removed: []
                   },
-                  screenshot: '',
+                  screenshot: update.screenshot ? `/api/assets/${update.screenshot}` : '',
                   version: update.version || '',
                   tags: update.tags || [],
                   description: update.description || '',
                   confidence: update.confidence || 0.8,
                   metadata: {
-                    sourceUrl: update.url || '',
+                    sourceUrl: update.metadata?.sourceUrl || update.url || '',
                     scrapedAt: new Date().toISOString(),
                     affectedServices: update.metadata?.affectedServices || []
-                  }
+                  },
+                  revisions: update.revisions,
+                  changedAt: update.changedAt
                 });
               });
             }
@@ -107,13 +133,15 @@ const LaunchRadar: React.FC = () => {
           console.log('✅ Loaded', updates.length, 'updates from', result.data.length, 'companies');
           
           setScrapedUpdates(updates);
+          setCompetitorStatus(statuses);
           setLastRefresh(new Date().toLocaleTimeString());
           
           // Auto-select the first 3 companies with data
           const availableCompetitors = [...new Set(updates.map(update => update.competitor))];
           if (availableCompetitors.length > 0) {
             const topCompetitors = availableCompetitors.slice(0, 3);
-            setSelectedCompetitors(topCompetitors);
+            // Keep the user's selection when reloading after a refresh
+            setSelectedCompetitors(current => current.length > 0 ? current : topCompetitors);
             console.log('Auto-selected competitors:', topCompetitors);
           }
         }
@@ -125,7 +153,30 @@ const LaunchRadar: React.FC = () => {
     };
     
     loadData();
-  }, [mounted]);
+  }, [mounted, dataVersion]);
+
+  // Start a background scrape of every competitor and follow it in the progress panel
+  const startRefresh = async () => {
+    setRefreshError(null);
+    try {
+      const response = await fetch('/api/scrape/jobs', { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+      setScrapeJobId(result.jobId);
+      setIsRefreshing(true);
+    } catch (error) {
+      console.error('❌ Failed to start refresh:', error);
+      setRefreshError(error instanceof Error ? error.message : 'Failed to start refresh');
+    }
+  };
+
+  // Reload stored data once the job settles, whatever its outcome
+  const handleScrapeFinished = useCallback(() => {
+    setIsRefreshing(false);
+    setDataVersion(version => version + 1);
+  }, []);
 
   // Competitor data
   const competitors: Record<string, Competitor> = {
@@ -205,11 +256,23 @@ const LaunchRadar: React.FC = () => {
     return matchesCompetitor && matchesFilter;
   });
 
-  const availableCompetitors = [...new Set(allUpdates.map(update => update.competitor))];
+  // Include competitors whose scrapes are failing, even if they have no stored updates yet
+  const availableCompetitors = [...new Set([...allUpdates.map(update => update.competitor), ...Object.keys(competitorStatus)])];
 
   const getCompetitorUpdateCount = (competitorId: string) =>
     allUpdates.filter(update => update.competitor === competitorId).length;
 
+  const getStaleLabel = (competitorId: string): string | null => {
+    const status = competitorStatus[competitorId];
+    if (!status || status.failureStreak === 0) return null;
+
+    const since = status.staleSince ? new Date(status.staleSince) : null;
+    const failures = `${status.failureStreak} failed scrape${status.failureStreak > 1 ? 's' : ''}`;
+    return since && !isNaN(since.getTime())
+      ? `Stale since ${since.toLocaleDateString()} (${failures})`
+      : `Stale (${failures})`;
+  };
+
   const generateActivityGraph = (competitorId: string, years: number = 2) => {
     const weeks = years * 52;
     const competitorUpdates = allUpdates.filter(update => update.competitor === competitorId);
@@ -308,6 +371,17 @@ const LaunchRadar: React.FC = () => {
             <div className="text-sm text-gray-500">
               Last updated: {lastRefresh || 'Never'}
             </div>
+            {refreshError && (
+              <div className="text-sm text-red-600">{refreshError}</div>
+            )}
+            <button
+              onClick={startRefresh}
+              disabled={isRefreshing}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm rounded-md text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+              <span>{isRefreshing ? 'Refreshing...' : 'Refresh'}</span>
+            </button>
             <div className="flex space-x-2">
               <button
                 onClick={() => setCurrentView('timeline')}
@@ -355,6 +429,11 @@ const LaunchRadar: React.FC = () => {
                             <div>
                               <div className="font-semibold text-base text-gray-900">{competitor?.name || competitorId}</div>
                               <div className="text-xs text-gray-600 font-medium">{updateCount} updates</div>
+                              {getStaleLabel(competitorId) && (
+                                <div className="text-xs text-amber-600 font-medium" title={competitorStatus[competitorId]?.lastError || undefined}>
+                                  {getStaleLabel(competitorId)}
+                                </div>
+                              )}
                             </div>
                           </div>
                         </Link>
@@ -389,6 +468,11 @@ const LaunchRadar: React.FC = () => {
                               <div>
                                 <div className="font-semibold text-base text-gray-900">{competitor?.name || competitorId}</div>
                                 <div className="text-xs text-gray-600 font-medium">{updateCount} updates</div>
+                                {getStaleLabel(competitorId) && (
+                                  <div className="text-xs text-amber-600 font-medium" title={competitorStatus[competitorId]?.lastError || undefined}>
+                                    {getStaleLabel(competitorId)}
+                                  </div>
+                                )}
                               </div>
                             </div>
                           </Link>
@@ -411,6 +495,16 @@ const LaunchRadar: React.FC = () => {
 
         {/* Main Content */}
         <div className="flex-1 overflow-y-auto">
+          {scrapeJobId && (
+            <div className="px-6 pt-6">
+              <ScrapeProgressPanel
+                key={scrapeJobId}
+                jobId={scrapeJobId}
+                onFinished={handleScrapeFinished}
+                onClose={() => setScrapeJobId(null)}
+              />
+            </div>
+          )}
           {currentView === 'timeline' ? (
             <div className="p-6">
               <div className="mb-6">
@@ -460,6 +554,14 @@ const LaunchRadar: React.FC = () => {
                               <span className="ml-1">{update.type}</span>
                             </span>
                             <span className="text-xs text-gray-500">{update.timestamp}</span>
+                            {update.changedAt && (
+                              <span
+                                title={`Edited after publishing; detected ${new Date(update.changedAt).toLocaleString()}`}
+                                className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+                              >
+                                changed
+                              </span>
+                            )}
                           </div>
                           <h3 className="text-lg font-medium text-gray-900 mb-2">{update.title}</h3>
                           {update.description && (
@@ -655,6 +757,19 @@ const LaunchRadar: React.FC = () => {
                   )}
                 </div>
 
+                {selectedUpdate.screenshot && (
+                  <div>
+                    <h3 className="font-medium text-gray-900 mb-2">Screenshot</h3>
+                    <a href={selectedUpdate.screenshot} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={selectedUpdate.screenshot}
+                        alt={`${selectedUpdate.title} as shown on the changelog`}
+                        className="w-full rounded border border-gray-200"
+                      />
+                    </a>
+                  </div>
+                )}
+
                 {selectedUpdate.description && (
                   <div>
                     <h3 className="font-medium text-gray-900 mb-2">Description</h3>
@@ -662,6 +777,10 @@ const LaunchRadar: React.FC = () => {
                   </div>
                 )}
 
+                {selectedUpdate.revisions && selectedUpdate.revisions.length > 0 && (
+                  <RevisionHistory revisions={selectedUpdate.revisions} />
+                )}
+
                 {selectedUpdate.changes.added.length > 0 && (
                   <div>
                     <h3 className="font-medium text-gray-900 mb-2">Changes</h3>
@@ -0,0 +1,49 @@
+'use client';
+
+import React from 'react';
+
+// Mirrors UpdateRevision from src/services/revisions.ts
+export interface Revision {
+  detectedAt: string;
+  title: string;
+  description: string;
+  changes: { value: string; added?: boolean; removed?: boolean }[];
+}
+
+interface RevisionHistoryProps {
+  revisions: Revision[];
+}
+
+// Word-level diffs of a changelog entry's silent edits, newest first
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ revisions }) => (
+  <div>
+    <h3 className="font-medium text-gray-900 mb-2">Edit History</h3>
+    <div className="space-y-3">
+      {[...revisions].reverse().map((revision, idx) => (
+        <div key={revision.detectedAt + idx} className="border border-amber-200 rounded-md p-3 bg-amber-50">
+          <div className="text-xs text-amber-800 mb-2">
+            Edited — detected {new Date(revision.detectedAt).toLocaleString()}
+          </div>
+          <p className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
+            {revision.changes.map((change, changeIdx) => (
+              <span
+                key={changeIdx}
+                className={
+                  change.added
+                    ? 'bg-green-100 text-green-800'
+                    : change.removed
+                      ? 'bg-red-100 text-red-700 line-through'
+                      : undefined
+                }
+              >
+                {change.value}
+              </span>
+            ))}
+          </p>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default RevisionHistory;
@@ -0,0 +1,352 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, ArrowLeft, CheckCircle, ChevronDown, ChevronRight, Loader2, XCircle } from 'lucide-react';
+import ScraperHealthPanel from './ScraperHealthPanel';
+
+// Mirror CompetitorRun, ScrapeRun and RunComparison from src/services/data-store.ts and run-history.ts
+interface CompetitorRun {
+  competitor: string;
+  status: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  source?: string;
+  pagesVisited: number;
+  entriesExtracted: number;
+  primaryMatches?: number;
+  fallbackEntries?: number;
+  undatedEntries?: number;
+  quickCheckSkipped: boolean;
+  newUpdates: number;
+  changedUpdates: number;
+  removedUpdates: number;
+  totalUpdates: number;
+  error?: string;
+  errorStack?: string;
+  quarantineId?: string;
+  qualityProblems?: string[];
+}
+
+interface ScrapeRun {
+  id: string;
+  trigger: string;
+  jobId?: string;
+  status: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  competitors: CompetitorRun[];
+  totals: {
+    competitors: number;
+    succeeded: number;
+    failed: number;
+    skipped: number;
+    quarantined?: number; // Missing from runs recorded before the quality gate
+    cancelled: number;
+    newUpdates: number;
+    changedUpdates: number;
+    removedUpdates: number;
+  };
+}
+
+interface RunComparison {
+  a: ScrapeRun;
+  b: ScrapeRun;
+  competitors: {
+    competitor: string;
+    a: CompetitorRun | null;
+    b: CompetitorRun | null;
+    statusChanged: boolean;
+    deltas: { durationMs: number; pagesVisited: number; entriesExtracted: number; totalUpdates: number } | null;
+  }[];
+}
+
+const PAGE_SIZE = 25;
+
+const STATUS_STYLES: Record<string, string> = {
+  succeeded: 'bg-green-100 text-green-800',
+  'skipped-unchanged': 'bg-gray-100 text-gray-700',
+  quarantined: 'bg-amber-100 text-amber-800',
+  partial: 'bg-amber-100 text-amber-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-800'
+};
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return '—';
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function formatDelta(value: number, format: (value: number) => string = String): string {
+  if (value === 0) return '±0';
+  return value > 0 ? `+${format(value)}` : `-${format(-value)}`;
+}
+
+const StatusBadge: React.FC<{ status: string }> = ({ status }) => (
+  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status] || 'bg-gray-100 text-gray-700'}`}>
+    {status}
+  </span>
+);
+
+const CompetitorRunDetails: React.FC<{ entry: CompetitorRun }> = ({ entry }) => (
+  <div className="border-t border-gray-100 py-2">
+    <div className="flex items-center justify-between text-sm">
+      <div className="flex items-center space-x-2">
+        {entry.status === 'failed'
+          ? <XCircle className="w-4 h-4 text-red-600" />
+          : entry.status === 'quarantined'
+            ? <AlertTriangle className="w-4 h-4 text-amber-600" />
+            : <CheckCircle className="w-4 h-4 text-green-600" />}
+        <span className="font-medium text-gray-900 capitalize">{entry.competitor}</span>
+        <StatusBadge status={entry.status} />
+        {entry.source && <span className="text-xs text-gray-500">via {entry.source}</span>}
+      </div>
+      <div className="text-xs text-gray-500 whitespace-nowrap">
+        {formatDuration(entry.durationMs)} · {entry.pagesVisited} pages · {entry.entriesExtracted} entries ·
+        {' '}+{entry.newUpdates} / ~{entry.changedUpdates} / -{entry.removedUpdates} of {entry.totalUpdates}
+      </div>
+    </div>
+    {entry.primaryMatches !== undefined && (
+      <p className="text-xs text-gray-500 mt-1 ml-6">
+        {entry.primaryMatches} primary selector hits · {entry.fallbackEntries ?? 0} fallback entries · {entry.undatedEntries ?? 0} undated
+      </p>
+    )}
+    {entry.qualityProblems && (
+      <div className="mt-1 ml-6 text-sm text-amber-800">
+        <p>Held back by the quality gate: {entry.qualityProblems.join('; ')}</p>
+        <p className="text-xs text-gray-500">Review with PATCH /api/quarantine/{entry.quarantineId}</p>
+      </div>
+    )}
+    {entry.quickCheckSkipped && (
+      <p className="text-xs text-gray-500 mt-1 ml-6">Quick check found nothing new; full scrape skipped.</p>
+    )}
+    {entry.error && (
+      <div className="mt-1 ml-6">
+        <p className="text-sm text-red-700">{entry.error}</p>
+        {entry.errorStack && (
+          <details>
+            <summary className="text-xs text-gray-500 cursor-pointer">Stack trace</summary>
+            <pre className="mt-1 p-2 bg-gray-50 rounded text-xs text-gray-700 overflow-x-auto">{entry.errorStack}</pre>
+          </details>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+const ComparisonTable: React.FC<{ comparison: RunComparison; onClose: () => void }> = ({ comparison, onClose }) => (
+  <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-4 mb-6">
+    <div className="flex items-center justify-between mb-3">
+      <h2 className="text-sm font-semibold text-gray-900">
+        Comparing {new Date(comparison.a.startedAt).toLocaleString()} → {new Date(comparison.b.startedAt).toLocaleString()}
+      </h2>
+      <button onClick={onClose} className="text-xs text-gray-500 hover:text-gray-700">Close</button>
+    </div>
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500">
+          <th className="py-1">Competitor</th>
+          <th className="py-1">Status</th>
+          <th className="py-1">Duration</th>
+          <th className="py-1">Pages</th>
+          <th className="py-1">Entries</th>
+          <th className="py-1">Updates</th>
+        </tr>
+      </thead>
+      <tbody>
+        {comparison.competitors.map(row => (
+          <tr key={row.competitor} className={`border-t border-gray-100 ${row.statusChanged ? 'bg-amber-50' : ''}`}>
+            <td className="py-1 font-medium capitalize">{row.competitor}</td>
+            <td className="py-1">
+              {row.a?.status || 'not run'} → {row.b?.status || 'not run'}
+            </td>
+            <td className="py-1">{row.deltas ? formatDelta(row.deltas.durationMs, formatDuration) : '—'}</td>
+            <td className="py-1">{row.deltas ? formatDelta(row.deltas.pagesVisited) : '—'}</td>
+            <td className="py-1">{row.deltas ? formatDelta(row.deltas.entriesExtracted) : '—'}</td>
+            <td className="py-1">{row.deltas ? formatDelta(row.deltas.totalUpdates) : '—'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default function RunHistory() {
+  const [runs, setRuns] = useState<ScrapeRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [failedOnly, setFailedOnly] = useState(false);
+  const [competitor, setCompetitor] = useState('');
+  const [hasMore, setHasMore] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+
+  const loadRuns = useCallback(async (before?: string) => {
+    setLoading(true);
+    setError(null);
+
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (failedOnly) params.set('failed', 'true');
+    if (competitor) params.set('competitor', competitor);
+    if (before) params.set('before', before);
+
+    try {
+      const response = await fetch(`/api/runs?${params}`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setRuns(current => (before ? [...current, ...result.data] : result.data));
+      setHasMore(result.data.length === PAGE_SIZE);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load runs');
+    } finally {
+      setLoading(false);
+    }
+  }, [failedOnly, competitor]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Keep at most two runs selected; the oldest selection drops off
+  const toggleSelected = (id: string) => {
+    setSelected(current => (current.includes(id) ? current.filter(entry => entry !== id) : [...current, id].slice(-2)));
+  };
+
+  const compareSelected = async () => {
+    // Older run on the left so deltas read as "what changed since"
+    const [a, b] = [...selected].sort((left, right) => {
+      const startedAt = (id: string) => runs.find(run => run.id === id)?.startedAt || '';
+      return startedAt(left).localeCompare(startedAt(right));
+    });
+
+    try {
+      const response = await fetch(`/api/runs/compare?a=${encodeURIComponent(a)}&b=${encodeURIComponent(b)}`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setComparison(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare runs');
+    }
+  };
+
+  const competitorNames = [...new Set(runs.flatMap(run => run.competitors.map(entry => entry.competitor)))].sort();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <Link href="/" className="text-gray-500 hover:text-gray-700" aria-label="Back to dashboard">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">Scrape runs</h1>
+          </div>
+          <div className="flex items-center space-x-4 text-sm">
+            <label className="flex items-center space-x-2 text-gray-700">
+              <input type="checkbox" checked={failedOnly} onChange={event => setFailedOnly(event.target.checked)} />
+              <span>Failures only</span>
+            </label>
+            <select
+              value={competitor}
+              onChange={event => setCompetitor(event.target.value)}
+              className="border border-gray-300 rounded px-2 py-1 text-sm"
+            >
+              <option value="">All competitors</option>
+              {[...new Set([...competitorNames, competitor].filter(Boolean))].map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <button
+              onClick={compareSelected}
+              disabled={selected.length !== 2}
+              className="px-3 py-1 rounded bg-blue-600 text-white disabled:bg-gray-300"
+            >
+              Compare selected
+            </button>
+          </div>
+        </div>
+
+        <ScraperHealthPanel selected={competitor} onSelect={setCompetitor} />
+
+        {error && <div className="mb-4 p-3 rounded bg-red-50 text-sm text-red-700">{error}</div>}
+
+        {comparison && <ComparisonTable comparison={comparison} onClose={() => setComparison(null)} />}
+
+        <div className="space-y-3">
+          {runs.map(run => {
+            const isExpanded = expanded.has(run.id);
+
+            return (
+              <div key={run.id} className="bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(run.id)}
+                      onChange={() => toggleSelected(run.id)}
+                      aria-label="Select run for comparison"
+                    />
+                    <button onClick={() => toggleExpanded(run.id)} className="flex items-center space-x-2 text-left">
+                      {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      <span className="font-medium text-gray-900">{new Date(run.startedAt).toLocaleString()}</span>
+                    </button>
+                    <StatusBadge status={run.status} />
+                    <span className="text-xs text-gray-500">{run.trigger}</span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatDuration(run.durationMs)} · {run.totals.succeeded} ok · {run.totals.failed} failed ·
+                    {' '}{run.totals.skipped} unchanged ·{run.totals.quarantined ? ` ${run.totals.quarantined} quarantined ·` : ''} +{run.totals.newUpdates} / ~{run.totals.changedUpdates} / -{run.totals.removedUpdates}
+                  </div>
+                </div>
+
+                {!isExpanded && run.totals.failed > 0 && (
+                  <p className="mt-1 ml-7 text-xs text-red-700">
+                    Failed: {run.competitors.filter(entry => entry.status === 'failed').map(entry => entry.competitor).join(', ')}
+                  </p>
+                )}
+
+                {isExpanded && (
+                  <div className="mt-3">
+                    {run.competitors.length === 0
+                      ? <p className="text-sm text-gray-500">No competitors finished in this run.</p>
+                      : run.competitors.map(entry => <CompetitorRunDetails key={entry.competitor} entry={entry} />)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {!loading && runs.length === 0 && (
+            <p className="text-sm text-gray-500">No scrape runs recorded yet.</p>
+          )}
+        </div>
+
+        <div className="mt-4 flex justify-center">
+          {loading
+            ? <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
+            : hasMore && (
+                <button onClick={() => loadRuns(runs[runs.length - 1].startedAt)} className="text-sm text-blue-600 hover:underline">
+                  Load older runs
+                </button>
+              )}
+        </div>
+      </div>
+    </div>
+  );
+}
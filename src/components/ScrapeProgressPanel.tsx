@@ -0,0 +1,166 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, Loader2, X, XCircle } from 'lucide-react';
+
+// Mirrors ScrapeEvent from src/services/scrape-events.ts
+interface ScrapeEvent {
+  id: number;
+  type: string;
+  jobId?: string;
+  competitor?: string;
+  message: string;
+  data?: Record<string, any>;
+  timestamp: string;
+}
+
+interface CompetitorActivity {
+  state: string;
+  message: string;
+  lastEventAt: string;
+  scrolls: number;
+  entries?: number;
+}
+
+interface ScrapeProgressPanelProps {
+  jobId: string;
+  onFinished?: (state: string) => void;
+  onClose?: () => void;
+}
+
+// How long a running competitor can go without an event before we flag it as possibly hung
+const QUIET_WARNING_MS = 60000;
+const MAX_LOG_LINES = 50;
+
+function secondsAgo(timestamp: string, now: number): string {
+  const seconds = Math.max(0, Math.round((now - Date.parse(timestamp)) / 1000));
+  return seconds < 60 ? `${seconds}s ago` : `${Math.floor(seconds / 60)}m ${seconds % 60}s ago`;
+}
+
+const ScrapeProgressPanel: React.FC<ScrapeProgressPanelProps> = ({ jobId, onFinished, onClose }) => {
+  const [activity, setActivity] = useState<Record<string, CompetitorActivity>>({});
+  const [log, setLog] = useState<ScrapeEvent[]>([]);
+  const [jobState, setJobState] = useState('queued');
+  const [now, setNow] = useState(Date.now());
+
+  // Live events for this job; the endpoint replays anything emitted before we connected
+  useEffect(() => {
+    const source = new EventSource(`/api/scrape/events?jobId=${encodeURIComponent(jobId)}`);
+
+    source.onmessage = message => {
+      const event: ScrapeEvent = JSON.parse(message.data);
+      setLog(current => [...current, event].slice(-MAX_LOG_LINES));
+
+      if (event.type === 'job-queued') {
+        const competitors: string[] = event.data?.competitors || [];
+        setActivity(current => {
+          const next = { ...current };
+          for (const competitor of competitors) {
+            next[competitor] ??= { state: 'queued', message: 'Waiting to start', lastEventAt: event.timestamp, scrolls: 0 };
+          }
+          return next;
+        });
+      } else if (event.type === 'job-started') {
+        setJobState('running');
+      } else if (event.type === 'job-finished') {
+        setJobState(event.data?.state || 'succeeded');
+        source.close();
+        onFinished?.(event.data?.state || 'succeeded');
+      }
+
+      const competitor = event.competitor;
+      if (competitor) {
+        setActivity(current => {
+          const previous = current[competitor] || { state: 'queued', message: '', lastEventAt: event.timestamp, scrolls: 0 };
+          return {
+            ...current,
+            [competitor]: {
+              state: event.type === 'competitor-finished' ? event.data?.state : event.type === 'competitor-started' ? 'running' : previous.state,
+              message: event.message,
+              lastEventAt: event.timestamp,
+              scrolls: event.type === 'scroll' ? previous.scrolls + 1 : previous.scrolls,
+              entries: event.type === 'entries-extracted' ? event.data?.count : previous.entries
+            }
+          };
+        });
+      }
+    };
+
+    return () => source.close();
+  }, [jobId, onFinished]);
+
+  // Re-render every second so "last activity" stays current
+  useEffect(() => {
+    if (jobState !== 'queued' && jobState !== 'running') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [jobState]);
+
+  const running = jobState === 'queued' || jobState === 'running';
+  const finishedCount = Object.values(activity).filter(entry => !['queued', 'running'].includes(entry.state)).length;
+
+  const stateIcon = (state: string) => {
+    if (state === 'running') return <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />;
+    if (state === 'failed') return <XCircle className="w-4 h-4 text-red-600" />;
+    if (state === 'quarantined') return <AlertTriangle className="w-4 h-4 text-amber-600" />;
+    if (state === 'queued' || state === 'cancelled') return <div className="w-4 h-4 rounded-full border-2 border-gray-300" />;
+    return <CheckCircle className="w-4 h-4 text-green-600" />;
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          {running && <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />}
+          <h3 className="text-sm font-semibold text-gray-900">
+            {running ? 'Refreshing changelogs' : `Refresh ${jobState}`}
+          </h3>
+          <span className="text-xs text-gray-500">
+            {finishedCount}/{Object.keys(activity).length} competitors done
+          </span>
+        </div>
+        {onClose && !running && (
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close progress">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {Object.entries(activity).map(([competitor, entry]) => {
+          const quiet = entry.state === 'running' && now - Date.parse(entry.lastEventAt) > QUIET_WARNING_MS;
+
+          return (
+            <div key={competitor} className="flex items-center justify-between text-sm">
+              <div className="flex items-center space-x-2 min-w-0">
+                {stateIcon(entry.state)}
+                <span className="font-medium text-gray-900 capitalize">{competitor}</span>
+                <span className="text-gray-600 truncate">{entry.message}</span>
+              </div>
+              <div className={`text-xs whitespace-nowrap ml-4 ${quiet ? 'text-amber-600 font-medium' : 'text-gray-500'}`}>
+                {entry.scrolls > 0 && `${entry.scrolls} scrolls · `}
+                {entry.entries !== undefined && `${entry.entries} entries · `}
+                {entry.state === 'running' ? `last activity ${secondsAgo(entry.lastEventAt, now)}` : entry.state}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {log.length > 0 && (
+        <details className="mt-3">
+          <summary className="text-xs text-gray-500 cursor-pointer">Event log</summary>
+          <div className="mt-2 max-h-48 overflow-y-auto font-mono text-xs text-gray-600 space-y-0.5">
+            {log.map(event => (
+              <div key={event.id}>
+                {new Date(event.timestamp).toLocaleTimeString()} {event.competitor ? `[${event.competitor}] ` : ''}{event.message}
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default ScrapeProgressPanel;
@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+// Mirrors ScraperHealth and HealthAlert from src/services/scraper-health.ts
+interface ScraperHealth {
+  competitor: string;
+  status: 'healthy' | 'degraded' | 'unknown';
+  problems: string[];
+  metrics: {
+    primaryMatches: number | null;
+    fallbackRatio: number | null;
+    yield: number;
+    rollingAverageYield: number | null;
+    yieldRatio: number | null;
+    undatedRate: number | null;
+  } | null;
+  checkedAt: string | null;
+}
+
+interface HealthAlert {
+  id: string;
+  competitor: string;
+  raisedAt: string;
+  problems: string[];
+}
+
+interface ScraperHealthPanelProps {
+  selected?: string;
+  onSelect?: (competitor: string) => void;
+}
+
+const BADGE_STYLES: Record<ScraperHealth['status'], string> = {
+  healthy: 'bg-green-100 text-green-800 border-green-200',
+  degraded: 'bg-amber-100 text-amber-800 border-amber-300',
+  unknown: 'bg-gray-100 text-gray-600 border-gray-200'
+};
+
+const percent = (value: number | null) => (value === null ? 'n/a' : `${Math.round(value * 100)}%`);
+
+function describeMetrics(health: ScraperHealth): string {
+  if (!health.metrics) return 'No successful scrape recorded yet';
+  const { primaryMatches, fallbackRatio, yield: entries, rollingAverageYield, undatedRate } = health.metrics;
+
+  return [
+    `Primary selector hits: ${primaryMatches ?? 'n/a'}`,
+    `Fallback ratio: ${percent(fallbackRatio)}`,
+    `Yield: ${entries}${rollingAverageYield !== null ? ` (average ${rollingAverageYield.toFixed(1)})` : ''}`,
+    `Undated: ${percent(undatedRate)}`,
+    ...health.problems.map(problem => `⚠ ${problem}`)
+  ].join('\n');
+}
+
+const ScraperHealthPanel: React.FC<ScraperHealthPanelProps> = ({ selected, onSelect }) => {
+  const [health, setHealth] = useState<ScraperHealth[]>([]);
+  const [alerts, setAlerts] = useState<HealthAlert[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/scraper-health')
+      .then(response => response.json())
+      .then(result => {
+        if (!result.success) throw new Error(result.error);
+        setHealth(result.data);
+        setAlerts(result.alerts);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load scraper health'));
+  }, []);
+
+  if (error) {
+    return <div className="mb-6 p-3 rounded bg-red-50 text-sm text-red-700">{error}</div>;
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-4 mb-6">
+      <h2 className="text-sm font-semibold text-gray-900 mb-3">Scraper health</h2>
+
+      <div className="flex flex-wrap gap-2">
+        {health.map(entry => (
+          <button
+            key={entry.competitor}
+            onClick={() => onSelect?.(entry.competitor === selected ? '' : entry.competitor)}
+            title={describeMetrics(entry)}
+            className={`px-2 py-1 rounded-full border text-xs font-medium capitalize ${BADGE_STYLES[entry.status]} ${
+              entry.competitor === selected ? 'ring-2 ring-blue-400' : ''
+            }`}
+          >
+            {entry.competitor} · {entry.status}
+          </button>
+        ))}
+      </div>
+
+      {alerts.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {alerts.map(alert => (
+            <div key={alert.id} className="flex items-start space-x-2 text-sm text-amber-800">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>
+                <span className="font-medium capitalize">{alert.competitor}</span> degraded since{' '}
+                {new Date(alert.raisedAt).toLocaleString()}: {alert.problems.join('; ')}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScraperHealthPanel;
@@ -120,19 +120,19 @@ const WorkingLaunchRadar: React.FC = () => {
                   title: update.title || 'Untitled',
                   type: update.type || 'improvement',
                   timestamp: update.date || new Date().toISOString().split('T')[0],
-                  impact: 'medium',
+                  impact: update.impact || 'medium',
                   changes: {
                     added: update.description ? [update.description] : [],
                     modified: [],
                     removed: []
                   },
-                  screenshot: '',
+                  screenshot: update.screenshot ? `/api/assets/${update.screenshot}` : '',
                   version: update.version || '',
                   tags: update.tags || [],
                   description: update.description || '',
                   confidence: update.confidence || 0.8,
                   metadata: {
-                    sourceUrl: update.url || '',
+                    sourceUrl: update.metadata?.sourceUrl || update.url || '',
                     scrapedAt: new Date().toISOString(),
                     affectedServices: update.metadata?.affectedServices || []
                   }
@@ -23,5 +23,13 @@ export async function register() {
       };
     }
   }
-}
 
+  // Start the built-in scrape scheduler and page watcher in the Node.js server runtime only
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.LAUNCHRADAR_SCHEDULER !== 'off') {
+    const { getScheduler } = await import('./services/scheduler');
+    getScheduler().start();
+
+    const { getPageWatcher } = await import('./services/page-watcher');
+    getPageWatcher().start();
+  }
+}
@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+const ASSET_DIR = path.join(process.cwd(), 'data', 'assets');
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+export interface StoredAsset {
+  hash: string;
+  contentType: string;
+  body: Buffer;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+};
+
+// Content-addressed binary files (entry screenshots) under data/assets/, named by the SHA-256 of their
+// bytes. Identical captures share one file and a stored asset never changes, so it can be cached forever.
+export class AssetStore {
+  constructor(private assetDir: string = ASSET_DIR) {}
+
+  put(body: Uint8Array, contentType: string): string {
+    const extension = EXTENSIONS[contentType];
+    if (!extension) {
+      throw new Error(`Unsupported asset type: ${contentType}`);
+    }
+
+    const hash = crypto.createHash('sha256').update(body).digest('hex');
+    const file = path.join(this.assetDir, `${hash}.${extension}`);
+    if (!fs.existsSync(file)) {
+      fs.mkdirSync(this.assetDir, { recursive: true });
+      // Write then rename so a reader never sees a partial file under the final name
+      fs.writeFileSync(`${file}.tmp`, body);
+      fs.renameSync(`${file}.tmp`, file);
+    }
+    return hash;
+  }
+
+  get(hash: string): StoredAsset | null {
+    if (!HASH_PATTERN.test(hash)) return null;
+
+    for (const [contentType, extension] of Object.entries(EXTENSIONS)) {
+      const file = path.join(this.assetDir, `${hash}.${extension}`);
+      if (fs.existsSync(file)) {
+        return { hash, contentType, body: fs.readFileSync(file) };
+      }
+    }
+    return null;
+  }
+}
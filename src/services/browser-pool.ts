@@ -0,0 +1,97 @@
+import puppeteer, { Browser } from 'puppeteer';
+
+// --single-process and --no-zygote are left out: they are unstable once a
+// browser serves several pages and leave orphaned renderer processes behind
+const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--no-first-run',
+  '--disable-gpu'
+];
+
+export async function launchBrowser(): Promise<Browser> {
+  return puppeteer.launch({
+    headless: true,
+    args: LAUNCH_ARGS
+  });
+}
+
+// Close a browser, killing its process if a graceful close fails
+export async function closeBrowser(browser: Browser): Promise<void> {
+  try {
+    await browser.close();
+  } catch (error) {
+    console.error('Error closing browser, killing process:', error);
+    browser.process()?.kill('SIGKILL');
+  }
+}
+
+interface PooledBrowser {
+  browser: Browser;
+  leases: number;
+}
+
+// Shares a small number of Chromium instances between concurrent scrapers
+export class BrowserPool {
+  private browsers: PooledBrowser[] = [];
+  private launching: Promise<Browser> | null = null;
+  private closed = false;
+
+  constructor(private maxBrowsers: number = 2) {}
+
+  async acquire(): Promise<Browser> {
+    if (this.closed) {
+      throw new Error('Browser pool has been closed');
+    }
+
+    // Launch another browser while every existing one is busy and we are below the limit
+    const idle = this.browsers.find(entry => entry.leases === 0);
+    if (!idle && this.browsers.length < this.maxBrowsers) {
+      if (!this.launching) {
+        this.launching = this.launch().finally(() => {
+          this.launching = null;
+        });
+      }
+      await this.launching;
+    }
+
+    // Hand out the least-loaded browser; pages are cheap compared to browsers
+    const entry = [...this.browsers].sort((a, b) => a.leases - b.leases)[0];
+    if (!entry) {
+      throw new Error('No browser available in pool');
+    }
+
+    entry.leases++;
+    return entry.browser;
+  }
+
+  release(browser: Browser): void {
+    const entry = this.browsers.find(candidate => candidate.browser === browser);
+    if (entry && entry.leases > 0) {
+      entry.leases--;
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    this.closed = true;
+    const browsers = this.browsers.map(entry => entry.browser);
+    this.browsers = [];
+    await Promise.all(browsers.map(closeBrowser));
+  }
+
+  private async launch(): Promise<Browser> {
+    const browser = await launchBrowser();
+    const entry: PooledBrowser = { browser, leases: 0 };
+    this.browsers.push(entry);
+
+    // Drop crashed browsers so the next acquire launches a fresh one
+    browser.on('disconnected', () => {
+      this.browsers = this.browsers.filter(candidate => candidate !== entry);
+    });
+
+    console.log(`Browser pool: launched browser ${this.browsers.length}/${this.maxBrowsers}`);
+    return browser;
+  }
+}
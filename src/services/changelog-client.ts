@@ -1,8 +1,7 @@
-// Remove client-side import of server-only modules
-// import { ScrapedData, ScrapedUpdate, convertScrapedToUpdate } from './changelog-scraper';
+// Stored entries are converted here rather than with anything from the server-only scraper modules
 
 export interface Update {
-  id: number;
+  id: string;
   competitor: string;
   title: string;
   type: 'feature' | 'pricing' | 'bugfix' | 'improvement' | 'breaking' | 'security' | 'performance';
@@ -31,6 +30,8 @@ export class ChangelogClient {
   private dataUrl = '/api/data';
   private cache: Map<string, { data: Update[], timestamp: number }> = new Map();
   private cacheTimeout = 5 * 60 * 1000; // 5 minutes
+  private jobPollInterval = 3000;
+  private jobTimeout = 30 * 60 * 1000; // 30 minutes
 
   async loadStoredData(): Promise<Update[]> {
     try {
@@ -95,43 +96,25 @@ export class ChangelogClient {
     try {
       console.log('Fetching fresh changelog data for:', sources);
       
-      const response = await fetch(`${this.baseUrl}?source=all`, {
-        method: 'GET',
+      // Scrapes run as background jobs: start one, wait for it, then read what it stored
+      const response = await fetch(this.baseUrl, {
+        method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
+        body: JSON.stringify({ sources }),
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
       const result = await response.json();
       
-      if (!result.success) {
-        throw new Error(result.error || 'Failed to fetch changelog data');
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
       }
 
-             // Convert scraped data to Update format
-       const updates: Update[] = [];
-       let idCounter = 1;
-
-       if (Array.isArray(result.data)) {
-         // Multiple sources
-         for (const scrapedData of result.data) {
-           for (const scrapedUpdate of scrapedData.updates) {
-             const update = this.convertScrapedToUpdate(scrapedUpdate, scrapedData.competitor, idCounter++);
-             updates.push(update);
-           }
-         }
-       } else {
-         // Single source
-         const scrapedData = result.data;
-         for (const scrapedUpdate of scrapedData.updates) {
-           const update = this.convertScrapedToUpdate(scrapedUpdate, scrapedData.competitor, idCounter++);
-           updates.push(update);
-         }
-       }
+      const job = await this.waitForJob(result.jobId);
+      console.log(`Scrape job ${job.id} ${job.state}: ${job.counts.succeeded} succeeded, ${job.counts['skipped-unchanged']} unchanged, ${job.counts.failed} failed`);
+
+      const updates = (await this.loadStoredData()).filter(update => sources.includes(update.competitor));
 
       // Sort by timestamp (most recent first)
       updates.sort((a, b) => {
@@ -162,6 +145,27 @@ export class ChangelogClient {
     }
   }
 
+  // Poll a scrape job until it succeeds, fails or is cancelled
+  private async waitForJob(jobId: string): Promise<any> {
+    const deadline = Date.now() + this.jobTimeout;
+
+    while (Date.now() < deadline) {
+      const response = await fetch(`${this.baseUrl}/jobs/${jobId}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const { data: job } = await response.json();
+      if (['succeeded', 'failed', 'cancelled'].includes(job.state)) {
+        return job;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.jobPollInterval));
+    }
+
+    throw new Error(`Scrape job ${jobId} did not finish within ${this.jobTimeout / 60000} minutes`);
+  }
+
   async refreshChangelogs(sources: string[] = ['stripe', 'openai']): Promise<Update[]> {
     // Clear cache for these sources
     const cacheKey = sources.sort().join(',');
@@ -173,6 +177,11 @@ export class ChangelogClient {
   private parseRelativeTime(timeStr: string): number {
     const now = Date.now();
     
+    // Undated entries sort after everything else
+    if (timeStr === 'Unknown date') {
+      return 0;
+    }
+    
     if (timeStr.includes('just now') || timeStr.includes('recently')) {
       return now;
     }
@@ -219,8 +228,9 @@ export class ChangelogClient {
       const now = new Date();
       const date = new Date(dateStr);
       
+      // Undated entries are stored as 'unknown'; don't pass them off as recent
       if (isNaN(date.getTime())) {
-        return 'Recently';
+        return 'Unknown date';
       }
       
       const diffMs = now.getTime() - date.getTime();
@@ -340,21 +350,21 @@ export class ChangelogClient {
     };
 
     return {
-      id,
+      id: scraped.id || `${competitor}-${id}`, // Fall back to load order for entries scraped before stable IDs
       competitor,
       title: scraped.title,
       type: scraped.type,
       timestamp: getRelativeTime(scraped.date),
-      impact: getImpact(scraped.title, scraped.description, scraped.type),
+      impact: scraped.impact || getImpact(scraped.title, scraped.description, scraped.type),
       changes: generateChanges(scraped),
-      screenshot: `data:image/svg+xml;base64,${btoa(`<svg width="400" height="300" xmlns="http://www.w3.org/2000/svg"><rect width="100%" height="100%" fill="#f0f9ff"/><text x="50%" y="50%" font-family="Arial, sans-serif" font-size="14" fill="#374149" text-anchor="middle" dy=".3em">${scraped.title}</text></svg>`)}`,
+      screenshot: scraped.screenshot ? `/api/assets/${scraped.screenshot}` : '',
       // Enhanced fields
       version: scraped.version,
       tags: scraped.tags,
       description: scraped.description,
       confidence: scraped.confidence,
       metadata: {
-        sourceUrl: scraped.url,
+        sourceUrl: scraped.metadata?.sourceUrl || scraped.url,
         scrapedAt: new Date().toISOString(),
         affectedServices: scraped.metadata?.affectedServices || []
       }
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { refreshStoredUpdates, ScrapedUpdate } from './changelog-scraper';
+import { assignUpdateIds } from './update-identity';
+
+const LISTING_URL = 'https://acme.test/changelog';
+const STORED_AT = '2026-10-01T06:00:00.000Z';
+const SEEN_AT = '2026-10-19T06:00:00.000Z';
+
+function entry(fields: Partial<ScrapedUpdate> & Pick<ScrapedUpdate, 'title' | 'date' | 'description'>): ScrapedUpdate {
+  return { type: 'feature', tags: [], confidence: 0.9, url: LISTING_URL, ...fields };
+}
+
+const identify = (updates: ScrapedUpdate[]) => assignUpdateIds('acme', updates, LISTING_URL);
+
+describe('refreshStoredUpdates', () => {
+  it('keeps two same-titled releases on different dates apart', () => {
+    const stored = identify([
+      entry({ title: 'Weekly update', date: '2026-10-08', description: 'Faster search across every workspace', lastSeenAt: STORED_AT }),
+      entry({ title: 'Weekly update', date: '2026-10-01', description: 'Dark mode for the mobile apps', lastSeenAt: STORED_AT })
+    ]);
+    const reseen = identify([
+      entry({ title: 'Weekly update', date: '2026-10-08', description: 'Faster search across every workspace' }),
+      entry({ title: 'Weekly update', date: '2026-10-01', description: 'Dark mode for the mobile apps' })
+    ]);
+
+    const { updates, edited } = refreshStoredUpdates(stored, reseen, LISTING_URL, SEEN_AT);
+
+    assert.equal(edited, 0);
+    assert.deepEqual(updates.map(update => update.description), [
+      'Faster search across every workspace',
+      'Dark mode for the mobile apps'
+    ]);
+    assert.ok(updates.every(update => !update.revisions && update.lastSeenAt === SEEN_AT));
+  });
+
+  it('does not record an edit across a near-duplicate match', () => {
+    // Stored before its date could be read, so it only resembles the dated entry by title
+    const stored = identify([
+      entry({ title: 'Weekly update', date: 'unknown', description: 'Dark mode for the mobile apps', lastSeenAt: STORED_AT })
+    ]);
+    const reseen = identify([
+      entry({ title: 'Weekly update', date: '2026-10-15', description: 'Audit logs for enterprise workspaces' })
+    ]);
+
+    const { updates, edited } = refreshStoredUpdates(stored, reseen, LISTING_URL, SEEN_AT);
+
+    assert.equal(edited, 0);
+    assert.equal(updates[0].description, 'Dark mode for the mobile apps');
+    assert.equal(updates[0].revisions, undefined);
+  });
+
+  it('records an edit to an entry with the same permalink', () => {
+    const url = 'https://acme.test/changelog/audit-logs';
+    const stored = identify([
+      entry({ title: 'Audit logs', date: '2026-10-15', description: 'Audit logs for enterprise workspaces', url, lastSeenAt: STORED_AT })
+    ]);
+    const reseen = identify([
+      entry({ title: 'Audit logs', date: '2026-10-15', description: 'Audit logs for business and enterprise workspaces', url })
+    ]);
+
+    const { updates, edited } = refreshStoredUpdates(stored, reseen, LISTING_URL, SEEN_AT);
+
+    assert.equal(edited, 1);
+    assert.equal(updates[0].description, 'Audit logs for business and enterprise workspaces');
+    assert.equal(updates[0].revisions?.[0].description, 'Audit logs for enterprise workspaces');
+    assert.equal(updates[0].changedAt, SEEN_AT);
+  });
+});
@@ -1,6 +1,24 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
+import { Browser, Page } from 'puppeteer';
+import { AssetStore } from './asset-store';
+import { BrowserPool, closeBrowser, launchBrowser } from './browser-pool';
+import { CompetitorConfig, DetailPageRules, loadCompetitorConfigs, matchTags, PricingPageRules, ScrapeSource } from './competitor-registry';
+import { DomainThrottle, mapWithConcurrency } from './concurrency';
+import { createDataStore } from './data-store';
+import { DateCandidates, ResolvedDate, resolveDate } from './date-resolver';
+import { crawlDetails, EntryDetail } from './detail-crawler';
+import { ENTRY_MARKER, ExtractedEntry, ExtractionRules, extractEntries, extractFallbackBlocks } from './entry-extractor';
+import { FeedEntry, fetchFeed } from './feed-parser';
+import { FixtureSession } from './fixtures';
+import { detectRevision, MAX_REVISIONS, UpdateRevision } from './revisions';
+import { findPermalink, isSamePageLink, linkChecker } from './permalink';
+import { extractPricing, PricingPlan } from './pricing-extractor';
+import { checkPricing, PricingSnapshot, PricingStore, pricingUpdates } from './pricing-tracker';
+import { ScrapeEventType, ScrapeProgressListener } from './scrape-events';
+import { FetchedText, fetchStaticDocument, fetchText, parseDocument, USER_AGENT } from './static-page';
+import { assignUpdateIds, collapseNearDuplicates, DuplicateIndex, isSameEntry } from './update-identity';
 
 export interface ScrapedUpdate {
+  id?: string; // Stable across scrapes: derived from competitor plus permalink or normalized content
   title: string;
   date: string;
   type: 'feature' | 'pricing' | 'bugfix' | 'improvement' | 'breaking' | 'security' | 'performance';
@@ -12,17 +30,54 @@ export interface ScrapedUpdate {
   tags?: string[];
   rawContent?: string;
   confidence?: number; // How confident we are in the extraction (0-1)
+  dateConfidence?: number; // How confident we are in the date (0 when date is 'unknown')
+  firstSeenAt?: string; // When a scrape first observed this update
+  lastSeenAt?: string; // When a scrape most recently observed it
+  detail?: EntryDetail; // Full content from the entry's own page, for competitors with detailPages configured
+  screenshot?: string; // Asset store hash of the entry's element screenshot, served at /api/assets/<hash>
+  revisions?: UpdateRevision[]; // Silent edits a rescrape found, oldest first
+  changedAt?: string; // When the latest of those edits was detected
+  impact?: 'high' | 'medium' | 'low'; // Set by trackers that know better than the keyword heuristic, e.g. pricing changes
   metadata?: {
     sourceSection?: string;
+    sourceUrl?: string; // Deep link to the entry; the listing page when it has no permalink of its own
     relatedUpdates?: string[];
     affectedServices?: string[];
   };
 }
 
+const MAX_SCREENSHOTS = 20; // Per scrape; a first scrape of a long changelog only captures the newest entries
+const MAX_SCREENSHOT_HEIGHT = 2000; // Taller entries are cut off at this many pixels
+
 export interface ScrapedData {
   competitor: string;
   updates: ScrapedUpdate[];
   lastScraped: string;
+  unchanged?: boolean; // The quick check found nothing new, so the stored updates came back as-is
+  extracted?: ScrapedUpdate[]; // What this scrape found on the page, before stored entries were merged in
+  pricingSnapshot?: PricingSnapshot; // Recorded once the dataset is stored, so pricing changes aren't lost to a quarantine
+}
+
+// Outcome for one competitor in a multi-company run
+export interface CompanyScrapeResult {
+  competitor: string;
+  success: boolean;
+  data?: ScrapedData;
+  error?: string;
+  errorStack?: string;
+  durationMs: number;
+  cancelled?: boolean; // Stopped by the run's abort signal rather than a scrape error
+}
+
+export interface ScrapeAllOptions {
+  companies?: string[]; // Defaults to every registered competitor
+  concurrency?: number; // Competitors scraped at once
+  maxBrowsers?: number; // Chromium instances shared by the run
+  domainDelayMs?: number; // Minimum gap between scrapes of the same host
+  signal?: AbortSignal; // Aborting skips competitors not yet started and closes the run's browsers
+  onCompetitorStart?: (competitor: string) => void;
+  onCompetitorDone?: (result: CompanyScrapeResult) => void | Promise<void>;
+  onProgress?: ScrapeProgressListener; // Page loads, quick checks, scroll attempts and extraction counts
 }
 
 // Base scraper class with common functionality
@@ -30,44 +85,299 @@ export abstract class BaseCompanyScraper {
   protected browser: Browser | null = null;
   protected abstract companyName: string;
   protected abstract baseUrl: string;
+  protected feedUrl?: string;
+  protected sources: ScrapeSource[] = ['browser'];
+  protected detailPages?: DetailPageRules;
+  private pricingPage?: PricingPageRules;
+
+  private pool: BrowserPool | null = null;
+  protected fixtures: FixtureSession | null = null;
+  private progressListener: ScrapeProgressListener | null = null;
+  private knownUpdates: ScrapedUpdate[] = [];
+
+  // Borrow browsers from a shared pool instead of launching one per scrape
+  usePool(pool: BrowserPool | null): void {
+    this.pool = pool;
+  }
 
-  async init(): Promise<void> {
-    this.browser = await puppeteer.launch({
-      headless: true,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--no-first-run',
-        '--no-zygote',
-        '--single-process',
-        '--disable-gpu'
-      ]
+  // Record or replay every request this scraper makes
+  useFixtures(session: FixtureSession | null): void {
+    this.fixtures = session;
+  }
+
+  // Report lifecycle progress to a listener while scraping
+  useProgressListener(listener: ScrapeProgressListener | null): void {
+    this.progressListener = listener;
+  }
+
+  // Updates already stored; screenshots are only taken of entries that aren't among them
+  useKnownUpdates(updates: ScrapedUpdate[]): void {
+    this.knownUpdates = updates;
+  }
+
+  // Pricing page checked alongside the changelog on every scrape
+  usePricingPage(rules?: PricingPageRules): void {
+    this.pricingPage = rules;
+  }
+
+  getPricingPage(): PricingPageRules | undefined {
+    return this.pricingPage;
+  }
+
+  reportProgress(type: ScrapeEventType, message: string, data?: Record<string, unknown>): void {
+    this.progressListener?.({ type, competitor: this.companyName, message, data });
+  }
+
+  // Extraction counts feed scraper health: primary-selector hits, fallback entries and undated updates
+  protected reportExtraction(source: ScrapeSource, updates: ScrapedUpdate[], matches: { primary: number; fallback: number }): void {
+    this.reportProgress('entries-extracted', `Extracted ${updates.length} entries`, {
+      source,
+      count: updates.length,
+      primary: matches.primary,
+      fallback: matches.fallback,
+      undated: updates.filter(update => update.date === 'unknown').length
+    });
+  }
+
+  // Permalinks to other pages must resolve, or the update links to the listing page instead. Links into
+  // the listing page itself were checked against its DOM during extraction; fixture replays skip this.
+  async validatePermalinks(updates: ScrapedUpdate[]): Promise<ScrapedUpdate[]> {
+    if (this.fixtures) return updates;
+
+    const urls = [...new Set(updates.map(update => update.url))]
+      .filter((url): url is string => Boolean(url) && !isSamePageLink(url!, this.baseUrl));
+    if (urls.length === 0) return updates;
+
+    const resolves = await mapWithConcurrency(urls, 4, url => linkChecker.check(url));
+    const broken = new Set(urls.filter((_, index) => !resolves[index]));
+    if (broken.size === 0) return updates;
+
+    console.log(`${this.companyName}: ${broken.size} of ${urls.length} permalinks did not resolve, linking to the listing page instead`);
+    return updates.map(update => update.url && broken.has(update.url)
+      ? { ...update, url: this.baseUrl, metadata: { ...update.metadata, sourceUrl: this.baseUrl } }
+      : update);
+  }
+
+  // Follow entries' permalinks for their full content. Only entries with a page of their own qualify;
+  // an anchor into the listing has nothing more to read.
+  async crawlEntryDetails(updates: ScrapedUpdate[]): Promise<ScrapedUpdate[]> {
+    const rules = this.detailPages;
+    if (!rules) return updates;
+
+    const urls = [...new Set(updates.filter(update => !update.detail).map(update => update.url))]
+      .filter((url): url is string => Boolean(url) && !isSamePageLink(url!, this.baseUrl))
+      .slice(0, rules.maxEntries);
+    if (urls.length === 0) return updates;
+
+    console.log(`${this.companyName}: Crawling ${urls.length} detail pages...`);
+    const details = await crawlDetails(urls, {
+      contentSelector: rules.content,
+      delayMs: this.fixtures?.mode === 'replay' ? 0 : rules.delayMs,
+      fetcher: (url, accept) => this.fetchText(url, accept),
+      crawledAt: this.observedAt(),
+      onPage: (url, detail, error) => {
+        if (error) {
+          console.log(`${this.companyName}: Failed to load detail page ${url}:`, error instanceof Error ? error.message : error);
+        }
+        this.reportProgress('detail-page', detail ? `Loaded ${url}` : `No detail content from ${url}`, {
+          url,
+          captured: Boolean(detail),
+          error: error instanceof Error ? error.message : undefined
+        });
+      }
+    });
+
+    console.log(`${this.companyName}: Captured full content for ${details.size} of ${urls.length} entries`);
+    return updates.map(update => {
+      const detail = update.url ? details.get(update.url) : undefined;
+      return detail ? { ...update, detail } : update;
     });
   }
 
+  // Load the pricing page and read its plans
+  async scrapePricing(): Promise<PricingPlan[]> {
+    const rules = this.pricingPage;
+    if (!rules) return [];
+
+    if (rules.source === 'static') {
+      const document = await fetchStaticDocument(rules.url, (url, accept) => this.fetchText(url, accept));
+      this.reportProgress('page-loaded', `Fetched ${rules.url}`, { source: 'static', url: rules.url });
+      return extractPricing(document, rules);
+    }
+
+    const page = await this.createPage();
+    try {
+      await page.goto(rules.url, {
+        waitUntil: 'networkidle2',
+        timeout: 30000
+      });
+      this.reportProgress('page-loaded', `Loaded ${rules.url}`, { source: 'browser', url: rules.url });
+      return extractPricing(parseDocument(await page.content()), rules);
+    } finally {
+      await page.close();
+      await this.close();
+    }
+  }
+
+  async init(): Promise<void> {
+    if (this.browser) return;
+    this.browser = this.pool ? await this.pool.acquire() : await launchBrowser();
+  }
+
   async close(): Promise<void> {
     if (this.browser) {
-      await this.browser.close();
+      if (this.pool) {
+        this.pool.release(this.browser);
+      } else {
+        await closeBrowser(this.browser);
+      }
       this.browser = null;
     }
   }
 
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
   // Abstract method each company must implement
   abstract scrape(): Promise<ScrapedData>;
 
+  getSources(): ScrapeSource[] {
+    return this.sources;
+  }
+
+  // Read updates from the competitor's RSS/Atom/JSON feed without starting a browser
+  async scrapeFeed(): Promise<ScrapedData> {
+    if (!this.feedUrl) {
+      throw new Error(`${this.companyName}: no feed URL configured`);
+    }
+
+    console.log(`${this.companyName}: Reading feed ${this.feedUrl}...`);
+    const entries = await fetchFeed(this.feedUrl, (url, accept) => this.fetchText(url, accept));
+    this.reportProgress('page-loaded', `Loaded feed ${this.feedUrl}`, { source: 'feed', url: this.feedUrl });
+    const updates = entries
+      .filter(entry => entry.title.length > 0)
+      .map(entry => this.convertFeedEntry(entry));
+
+    console.log(`${this.companyName}: Found ${updates.length} feed entries`);
+    this.reportExtraction('feed', updates, { primary: updates.length, fallback: 0 });
+
+    return {
+      competitor: this.companyName,
+      updates,
+      lastScraped: new Date().toISOString()
+    };
+  }
+
+  protected convertFeedEntry(entry: FeedEntry): ScrapedUpdate {
+    const description = entry.summary || entry.contentText.substring(0, 400);
+    const tags = [...new Set([...this.tagsFor(`${entry.title} ${entry.contentText}`), ...entry.categories])];
+    const resolved = this.resolveEntryDate({ datetime: entry.published });
+    const url = entry.link ? new URL(entry.link, this.feedUrl).toString() : this.baseUrl;
+
+    return {
+      title: entry.title,
+      date: resolved.date,
+      dateConfidence: resolved.confidence,
+      description,
+      type: this.classifyUpdateType(entry.title, entry.contentText),
+      tags,
+      rawContent: entry.contentHtml || entry.contentText,
+      confidence: 0.95,
+      metadata: {
+        sourceSection: `${this.companyName}-feed`,
+        sourceUrl: url,
+        affectedServices: tags.length > 0 ? tags : [this.companyName.charAt(0).toUpperCase() + this.companyName.slice(1) + ' Platform']
+      },
+      url
+    };
+  }
+
+  // Fetch and extract the page over plain HTTP; only scrapers with selectors support this
+  async scrapeStatic(): Promise<ScrapedData> {
+    throw new Error(`${this.companyName}: static HTML mode is not supported`);
+  }
+
+  // Plain HTTP fetch that goes through the fixture session when one is active
+  protected fetchText(url: string, accept?: string): Promise<FetchedText> {
+    return this.fixtures ? this.fixtures.fetchText(url, accept) : fetchText(url, accept);
+  }
+
+  // Screenshot each new update's element on the live page into the asset store. `selectorFor` names
+  // the update's element, or returns undefined when it has none (fallback entries).
+  protected async captureScreenshots(
+    page: Page,
+    updates: ScrapedUpdate[],
+    selectorFor: (update: ScrapedUpdate) => string | undefined
+  ): Promise<ScrapedUpdate[]> {
+    const identified = assignUpdateIds(this.companyName, updates, this.baseUrl);
+    const knownUpdates = new DuplicateIndex(this.knownUpdates, this.baseUrl);
+    const assets = new AssetStore();
+    let captured = 0;
+
+    const results: ScrapedUpdate[] = [];
+    for (const [index, update] of updates.entries()) {
+      const selector = selectorFor(update);
+      const known = knownUpdates.has(identified[index]);
+
+      if (!selector || known || captured >= MAX_SCREENSHOTS) {
+        results.push(update);
+        continue;
+      }
+
+      try {
+        const element = await page.$(selector);
+        const box = await element?.boundingBox();
+        if (!element || !box || box.width === 0 || box.height === 0) {
+          results.push(update);
+          continue;
+        }
+
+        const image = await element.screenshot({
+          type: 'png',
+          clip: { x: 0, y: 0, width: box.width, height: Math.min(box.height, MAX_SCREENSHOT_HEIGHT) }
+        });
+        results.push({ ...update, screenshot: assets.put(image, 'image/png') });
+        captured++;
+      } catch (error) {
+        console.log(`${this.companyName}: Could not screenshot "${update.title}":`, error instanceof Error ? error.message : error);
+        results.push(update);
+      }
+    }
+
+    if (captured > 0) {
+      console.log(`${this.companyName}: Captured ${captured} entry screenshots`);
+    }
+    return results;
+  }
+
+  // Serialize the fully loaded DOM, keeping a copy when recording fixtures
+  protected async snapshotDom(page: Page): Promise<string> {
+    const html = await page.content();
+    this.fixtures?.saveDom(html);
+    return html;
+  }
+
+  // Tags for a block of text; configured scrapers substitute their own keyword map
+  protected tagsFor(content: string): string[] {
+    return this.extractTags(content);
+  }
+
   // Smart scraping: Load existing data and determine if we need to scrape
   protected async loadExistingData(): Promise<ScrapedUpdate[]> {
     try {
-      const fs = await import('fs/promises');
-      const path = await import('path');
-      
-      const dataPath = path.join(process.cwd(), 'data', `${this.companyName}.json`);
-      const data = await fs.readFile(dataPath, 'utf-8');
-      const parsed = JSON.parse(data);
+      const stored = await createDataStore().retrieve(this.companyName);
+      if (!stored) {
+        console.log(`No existing data found for ${this.companyName}`);
+        return [];
+      }
       
-      return parsed.updates || [];
+      // Entries stored before observation times were tracked were seen no later than the last scrape
+      return stored.updates.map((update: ScrapedUpdate) => ({
+        ...update,
+        firstSeenAt: update.firstSeenAt || stored.lastScraped,
+        lastSeenAt: update.lastSeenAt || stored.lastScraped
+      }));
     } catch (error) {
       console.log(`No existing data found for ${this.companyName}`);
       return [];
@@ -103,14 +413,24 @@ export abstract class BaseCompanyScraper {
     return false;
   }
 
+  // Collapse near-duplicates (fallback passes often repeat an entry inside its parent) and assign stable IDs
+  identifyUpdates(updates: ScrapedUpdate[]): ScrapedUpdate[] {
+    return assignUpdateIds(this.companyName, collapseNearDuplicates(updates, this.baseUrl), this.baseUrl);
+  }
+
+  // Observation time for firstSeenAt/lastSeenAt; pinned to the capture time when replaying fixtures
+  observedAt(): string {
+    return this.referenceDate().toISOString();
+  }
+
   // Filter out updates that already exist
   protected filterNewUpdates(existingUpdates: ScrapedUpdate[], newUpdates: ScrapedUpdate[]): ScrapedUpdate[] {
     if (existingUpdates.length === 0) {
       return newUpdates;
     }
 
-    const existingTitles = new Set(existingUpdates.map(u => u.title.trim()));
-    const filtered = newUpdates.filter(update => !existingTitles.has(update.title.trim()));
+    const existing = new DuplicateIndex(existingUpdates, this.baseUrl);
+    const filtered = newUpdates.filter(update => !existing.has(update));
     
     console.log(`${this.companyName}: Filtered ${newUpdates.length - filtered.length} duplicate updates, ${filtered.length} new updates remaining`);
     return filtered;
@@ -171,7 +491,10 @@ export abstract class BaseCompanyScraper {
     }
     
     const page = await this.browser!.newPage();
-    await page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36');
+    await page.setUserAgent(USER_AGENT);
+    if (this.fixtures) {
+      await this.fixtures.attach(page);
+    }
     return page;
   }
 
@@ -215,6 +538,7 @@ export abstract class BaseCompanyScraper {
                   await button.click();
                   await new Promise(resolve => setTimeout(resolve, 3000));
                   console.log(`Clicked ${selector} button (attempt ${i + 1})`);
+                  this.reportProgress('scroll', `Clicked load-more button (attempt ${i + 1})`, { kind: 'click', attempt: i + 1, selector });
                   foundButton = true;
                   break;
                 }
@@ -256,6 +580,12 @@ export abstract class BaseCompanyScraper {
         
         currentHeight = await page.evaluate(() => document.body.scrollHeight);
         attempts++;
+        this.reportProgress('scroll', `Scroll attempt ${attempts}: page height ${previousHeight} -> ${currentHeight}px`, {
+          kind: 'scroll',
+          attempt: attempts,
+          previousHeight,
+          height: currentHeight
+        });
         
         if (previousHeight === currentHeight) {
           noChangeCount++;
@@ -271,40 +601,17 @@ export abstract class BaseCompanyScraper {
     }
   }
 
-  protected parseDate(dateStr: string): string {
-    // Common date parsing logic
-    if (!dateStr) return new Date().toISOString().split('T')[0];
-    
-    // Handle various date formats
-    const cleanDate = dateStr.trim();
-    
-    // Try parsing different formats
-    const formats = [
-      // ISO format
-      /^\d{4}-\d{2}-\d{2}$/,
-      // US format
-      /^\d{1,2}\/\d{1,2}\/\d{4}$/,
-      // Month Day, Year
-      /^[A-Za-z]+ \d{1,2}, \d{4}$/,
-      // Relative dates
-      /ago$/i
-    ];
-
-    for (const format of formats) {
-      if (format.test(cleanDate)) {
-        try {
-          const parsed = new Date(cleanDate);
-          if (!isNaN(parsed.getTime())) {
-            return parsed.toISOString().split('T')[0];
-          }
-        } catch (e) {
-          // Continue to next format
-        }
-      }
-    }
+  // Dates are resolved relative to the fixture capture time when replaying, so output stays stable
+  protected referenceDate(): Date {
+    return this.fixtures ? new Date(this.fixtures.capturedAt) : new Date();
+  }
+
+  protected resolveEntryDate(candidates: DateCandidates): ResolvedDate {
+    return resolveDate(candidates, this.referenceDate());
+  }
 
-    // Default to current date if parsing fails
-    return new Date().toISOString().split('T')[0];
+  protected parseDate(dateStr: string): string {
+    return this.resolveEntryDate({ text: dateStr }).date;
   }
 
   protected classifyUpdateType(title: string, description: string): ScrapedUpdate['type'] {
@@ -348,11 +655,71 @@ export abstract class BaseCompanyScraper {
   }
 }
 
+// Product areas Stripe fallback entries are tagged with
+const STRIPE_TAGS: Record<string, string[]> = {
+  Connect: ['connect'],
+  Payments: ['payment'],
+  Billing: ['billing'],
+  Checkout: ['checkout'],
+  Terminal: ['terminal'],
+  Treasury: ['treasury'],
+  Radar: ['radar'],
+  Identity: ['identity'],
+  Issuing: ['issuing'],
+  Crypto: ['crypto'],
+  Webhooks: ['webhook'],
+  Tax: ['tax'],
+  Invoicing: ['invoice'],
+  API: ['api']
+};
+
+const STRIPE_FALLBACK_PREFIXES = ['add', 'update', 'fix', 'new', 'improve'];
+
 // Stripe-specific scraper
 class StripeScraper extends BaseCompanyScraper {
   protected companyName = 'stripe';
   protected baseUrl = 'https://docs.stripe.com/changelog';
 
+  // Any text that reads like a changelog line ("Adds ...", "Fixes ..."), minus page chrome
+  private extractFallbackUpdates(document: Document): any[] {
+    const searchArea = document.querySelector('main, .content, #content, [role="main"]') || document.body;
+    const blocks = extractFallbackBlocks(searchArea, {
+      selector: 'p, div, span, li',
+      minLength: 30,
+      maxLength: Infinity,
+      matches: text => STRIPE_FALLBACK_PREFIXES.some(prefix => text.toLowerCase().startsWith(prefix))
+    });
+
+    return blocks.map(({ element, text }) => {
+      const tags = matchTags(text, STRIPE_TAGS);
+      const url = findPermalink(element, null, this.baseUrl)?.url || this.baseUrl;
+      return {
+        title: text.length > 100 ? text.substring(0, 100) + '...' : text,
+        date: '', // Resolved below; the entry carries no date of its own
+        description: text,
+        tags,
+        confidence: 0.7,
+        url,
+        metadata: {
+          sourceSection: 'stripe-fallback-entry',
+          sourceUrl: url,
+          affectedServices: tags.length > 0 ? tags : ['Stripe API']
+        }
+      };
+    });
+  }
+
+  // Each dated version header's permalink, keyed by its title as the in-page extraction reads it
+  private findVersionPermalinks(document: Document): Map<string, string> {
+    const links = new Map<string, string>();
+    for (const header of Array.from(document.querySelectorAll('h3'))) {
+      const title = header.textContent?.trim() || '';
+      const permalink = /\d{4}-\d{2}-\d{2}/.test(title) ? findPermalink(header, header, this.baseUrl) : null;
+      if (permalink && !links.has(title)) links.set(title, permalink.url);
+    }
+    return links;
+  }
+
   async scrape(): Promise<ScrapedData> {
     const page = await this.createPage();
     
@@ -363,11 +730,13 @@ class StripeScraper extends BaseCompanyScraper {
         waitUntil: 'networkidle2',
         timeout: 30000
       });
+      this.reportProgress('page-loaded', `Loaded ${this.baseUrl}`, { source: 'browser', url: this.baseUrl });
 
       await new Promise(resolve => setTimeout(resolve, 3000));
 
       // Try to load more content by scrolling to load historical data
       await this.loadMoreContent(page);
+      const html = await this.snapshotDom(page);
 
       const updates = await page.evaluate(() => {
         const updates: any[] = [];
@@ -487,7 +856,7 @@ class StripeScraper extends BaseCompanyScraper {
           console.log(`Found ${subUpdates.length} sub-updates for ${versionTitle}`);
           
           // Create the main version update
-          const versionDate = versionTitle.match(/(\d{4}-\d{2}-\d{2})/)?.[1] || new Date().toISOString().split('T')[0];
+          const versionDate = versionTitle.match(/(\d{4}-\d{2}-\d{2})/)?.[1] || '';
           
           // Add the main version as an update
           updates.push({
@@ -522,72 +891,40 @@ class StripeScraper extends BaseCompanyScraper {
           });
         }
         
-        // Strategy 2: Look for any text that looks like changelog entries
-        // This is a fallback to catch entries that might not be in the expected structure
-        const allTextElements = searchArea.querySelectorAll('p, div, span, li');
-        const foundEntries = new Set();
-        
-        for (const element of allTextElements) {
-          const text = element.textContent?.trim() || '';
-          
-          // Look for text that starts with common changelog patterns
-          if (text.length > 30 && 
-              (text.toLowerCase().startsWith('add') || 
-               text.toLowerCase().startsWith('update') ||
-               text.toLowerCase().startsWith('fix') ||
-               text.toLowerCase().startsWith('new') ||
-               text.toLowerCase().startsWith('improve'))) {
-            
-            // Avoid duplicates
-            if (foundEntries.has(text)) continue;
-            foundEntries.add(text);
-            
-            // Extract tags from the content
-            const tags: string[] = [];
-            const content = text.toLowerCase();
-            
-            if (content.includes('connect')) tags.push('Connect');
-            if (content.includes('payment')) tags.push('Payments');
-            if (content.includes('billing')) tags.push('Billing');
-            if (content.includes('checkout')) tags.push('Checkout');
-            if (content.includes('terminal')) tags.push('Terminal');
-            if (content.includes('treasury')) tags.push('Treasury');
-            if (content.includes('radar')) tags.push('Radar');
-            if (content.includes('identity')) tags.push('Identity');
-            if (content.includes('issuing')) tags.push('Issuing');
-            if (content.includes('crypto')) tags.push('Crypto');
-            if (content.includes('webhook')) tags.push('Webhooks');
-            if (content.includes('tax')) tags.push('Tax');
-            if (content.includes('invoice')) tags.push('Invoicing');
-            if (content.includes('api')) tags.push('API');
-            
-            updates.push({
-              title: text.length > 100 ? text.substring(0, 100) + '...' : text,
-              date: new Date().toISOString().split('T')[0], // Default to today since we can't determine the exact date
-              description: text,
-              tags: [...new Set(tags)],
-              confidence: 0.7,
-              metadata: {
-                sourceSection: 'stripe-fallback-entry',
-                affectedServices: tags.length > 0 ? tags : ['Stripe API']
-              }
-            });
-          }
-        }
-        
-        console.log('Found', updates.length, 'total Stripe changelog entries');
+        console.log('Found', updates.length, 'Stripe entries under version headers');
         return updates;
       });
 
+      // Strategy 2: entries that don't follow the version-header structure. Runs against the
+      // snapshot rather than in the page so it can share the boilerplate classifier.
+      const document = parseDocument(html);
+      const versionLinks = this.findVersionPermalinks(document);
+      updates.push(...this.extractFallbackUpdates(document));
+
       console.log(`Successfully scraped ${updates.length} Stripe changelog entries`);
 
-      return {
-        competitor: this.companyName,
-        updates: updates.map(update => ({
+      const resolvedUpdates: ScrapedUpdate[] = updates.map(update => {
+        const resolved = this.resolveEntryDate({ text: update.date });
+        // A version links to its own header; its sub-updates share that anchor but keep content-based
+        // IDs, so they deep-link through metadata.sourceUrl without all claiming the same URL
+        const versionLink = versionLinks.get(update.metadata?.parentVersion || update.title);
+        const url = update.url || (update.metadata?.sourceSection === 'stripe-version-release' && versionLink) || this.baseUrl;
+        return {
           ...update,
+          date: resolved.date,
+          dateConfidence: resolved.confidence,
           type: this.classifyUpdateType(update.title, update.description),
-          url: this.baseUrl
-        })),
+          url,
+          metadata: { ...update.metadata, sourceUrl: update.metadata?.sourceUrl || versionLink || url }
+        };
+      });
+
+      const fallbackCount = updates.filter(update => update.metadata?.sourceSection === 'stripe-fallback-entry').length;
+      this.reportExtraction('browser', resolvedUpdates, { primary: updates.length - fallbackCount, fallback: fallbackCount });
+
+      return {
+        competitor: this.companyName,
+        updates: resolvedUpdates,
         lastScraped: new Date().toISOString()
       };
 
@@ -600,1010 +937,330 @@ class StripeScraper extends BaseCompanyScraper {
   }
 }
 
-// Vercel-specific scraper
-class VercelScraper extends BaseCompanyScraper {
-  protected companyName = 'vercel';
-  protected baseUrl = 'https://vercel.com/changelog';
+// Generic scraper that interprets a config/competitors/*.json entry
+export class ConfiguredScraper extends BaseCompanyScraper {
+  protected companyName: string;
+  protected baseUrl: string;
+  private config: CompetitorConfig;
+  // The live-page element each browser-scraped update came from; see ENTRY_MARKER
+  private elementKeys = new WeakMap<ScrapedUpdate, string>();
+
+  constructor(config: CompetitorConfig) {
+    super();
+    if (!config.selectors) {
+      throw new Error(`Competitor ${config.id} has no selectors configured`);
+    }
+    this.config = config;
+    this.companyName = config.id;
+    this.baseUrl = config.listingUrl;
+    this.feedUrl = config.feedUrl;
+    this.sources = config.sources || ['browser'];
+    this.detailPages = config.detailPages;
+  }
+
+  protected tagsFor(content: string): string[] {
+    return matchTags(content, this.config.tags || {});
+  }
 
   async scrape(): Promise<ScrapedData> {
     const page = await this.createPage();
-    
+
     try {
-      console.log('Scraping Vercel changelog...');
-      
+      console.log(`Scraping ${this.config.name} changelog...`);
+
       await page.goto(this.baseUrl, {
         waitUntil: 'networkidle2',
         timeout: 30000
       });
+      this.reportProgress('page-loaded', `Loaded ${this.baseUrl}`, { source: 'browser', url: this.baseUrl });
 
       await new Promise(resolve => setTimeout(resolve, 3000));
 
-      // Try to load more content by scrolling and clicking load more buttons
-      await this.loadMoreContent(page);
+      if (this.config.loadMore) {
+        // Try to load more content by scrolling and clicking load more buttons
+        await this.loadMoreContent(page);
+      }
 
-      const updates = await page.evaluate(() => {
-        const updates: any[] = [];
-        
-        // Vercel uses article elements for changelog entries - expand selectors
-        const entries = document.querySelectorAll('article, [data-changelog-item], .changelog-entry, .update-item, .release-item, [data-testid*="changelog"], [data-testid*="release"]');
-        
-        console.log('Found', entries.length, 'Vercel changelog entries');
-        
-        for (const entry of entries) {
-          const titleEl = entry.querySelector('h1, h2, h3, h4, .title, [data-title], .headline, .summary');
-          const dateEl = entry.querySelector('[data-date], time, .date, .published, .timestamp, [datetime]');
-          const descriptionEl = entry.querySelector('p, .description, [data-description], .content, .excerpt, .summary');
-          
-          if (!titleEl) continue;
-          
-          const title = titleEl.textContent?.trim() || '';
-          const date = dateEl?.textContent?.trim() || dateEl?.getAttribute('datetime') || '';
-          const description = descriptionEl?.textContent?.trim() || '';
-          
-          if (title.length < 5) continue;
-          
-          // Vercel-specific tags
-          const tags: string[] = [];
-          const content = `${title} ${description}`.toLowerCase();
-          
-          if (content.includes('edge')) tags.push('Edge Functions');
-          if (content.includes('next')) tags.push('Next.js');
-          if (content.includes('deploy')) tags.push('Deployment');
-          if (content.includes('analytics')) tags.push('Analytics');
-          if (content.includes('domain')) tags.push('Domains');
-          if (content.includes('build')) tags.push('Build System');
-          if (content.includes('preview')) tags.push('Preview');
-          
-          updates.push({
-            title,
-            date: date || new Date().toISOString().split('T')[0],
-            description: description.substring(0, 400),
-            tags: [...new Set(tags)],
-            confidence: 0.85,
-            metadata: {
-              sourceSection: 'vercel-changelog',
-              affectedServices: tags.length > 0 ? tags : ['Vercel Platform']
-            }
-          });
-        }
-        
-        // Fallback strategy: Look for any text content that might be changelog entries
-        if (updates.length < 20) {
-          console.log('Trying fallback strategy for Vercel...');
-          const allElements = document.querySelectorAll('div, section, li, p');
-          const foundEntries = new Set();
-          
-          for (const element of allElements) {
-            const text = element.textContent?.trim() || '';
-            
-            // Look for text that looks like changelog entries
-            if (text.length > 20 && text.length < 500 && 
-                (text.toLowerCase().includes('deploy') || 
-                 text.toLowerCase().includes('build') ||
-                 text.toLowerCase().includes('edge') ||
-                 text.toLowerCase().includes('function') ||
-                 text.toLowerCase().includes('next.js') ||
-                 text.toLowerCase().includes('preview') ||
-                 text.toLowerCase().includes('update') ||
-                 text.toLowerCase().includes('new') ||
-                 text.toLowerCase().includes('improve'))) {
-              
-              // Avoid duplicates and overly long text
-              if (foundEntries.has(text) || text.length > 400) continue;
-              foundEntries.add(text);
-              
-              // Extract Vercel-specific tags
-              const tags: string[] = [];
-              const content = text.toLowerCase();
-              
-              if (content.includes('edge')) tags.push('Edge Functions');
-              if (content.includes('next')) tags.push('Next.js');
-              if (content.includes('deploy')) tags.push('Deployment');
-              if (content.includes('analytics')) tags.push('Analytics');
-              if (content.includes('domain')) tags.push('Domains');
-              if (content.includes('build')) tags.push('Build System');
-              if (content.includes('preview')) tags.push('Preview');
-              
-              updates.push({
-                title: text.length > 100 ? text.substring(0, 100) + '...' : text,
-                date: new Date().toISOString().split('T')[0],
-                description: text,
-                tags: [...new Set(tags)],
-                confidence: 0.6,
-                metadata: {
-                  sourceSection: 'vercel-fallback-entry',
-                  affectedServices: tags.length > 0 ? tags : ['Vercel Platform']
-                }
-              });
-            }
-          }
-          
-          console.log('Found', foundEntries.size, 'additional fallback entries');
-        }
-        
-        return updates;
-      });
+      // Tag entries so the ones extracted from the snapshot can be screenshotted on the live page
+      await page.evaluate((selector, marker) => {
+        document.querySelectorAll(selector).forEach((element, index) => element.setAttribute(marker, String(index)));
+      }, this.config.selectors!.entry, ENTRY_MARKER);
 
-      return {
-        competitor: this.companyName,
-        updates: updates.map(update => ({
-          ...update,
-          type: this.classifyUpdateType(update.title, update.description),
-          url: this.baseUrl
-        })),
-        lastScraped: new Date().toISOString()
-      };
+      // Run the shared selector logic against the rendered DOM
+      const document = parseDocument(await this.snapshotDom(page));
+      const entries = extractEntries(document, this.extractionRules());
+      const data = this.buildScrapedData(entries, 'browser');
+
+      data.updates = await this.captureScreenshots(page, data.updates, update => {
+        const key = this.elementKeys.get(update);
+        return key !== undefined ? `[${ENTRY_MARKER}="${key}"]` : undefined;
+      });
+      return data;
 
     } catch (error) {
-      console.error('Error scraping Vercel:', error);
+      console.error(`Error scraping ${this.config.name}:`, error);
       throw error;
     } finally {
       await page.close();
     }
   }
-}
 
-// Supabase-specific scraper
-class SupabaseScraper extends BaseCompanyScraper {
-  protected companyName = 'supabase';
-  protected baseUrl = 'https://supabase.com/changelog';
+  async scrapeStatic(): Promise<ScrapedData> {
+    console.log(`Fetching ${this.config.name} changelog as static HTML...`);
 
-  async scrape(): Promise<ScrapedData> {
-    const page = await this.createPage();
-    
-    try {
-      console.log('Scraping Supabase changelog...');
-      
-      await page.goto(this.baseUrl, {
-        waitUntil: 'networkidle2',
-        timeout: 30000
-      });
+    const document = await fetchStaticDocument(this.baseUrl, (url, accept) => this.fetchText(url, accept));
+    this.reportProgress('page-loaded', `Fetched ${this.baseUrl}`, { source: 'static', url: this.baseUrl });
+    return this.buildScrapedData(extractEntries(document, this.extractionRules()), 'static');
+  }
 
-      await new Promise(resolve => setTimeout(resolve, 3000));
+  private extractionRules(): ExtractionRules {
+    return {
+      selectors: this.config.selectors!,
+      minTitleLength: this.config.minTitleLength ?? 5,
+      fallback: this.config.fallback,
+      pageUrl: this.baseUrl
+    };
+  }
 
-      // Try to load more content by scrolling and clicking load more buttons
-      await this.loadMoreContent(page);
+  protected buildScrapedData(entries: ExtractedEntry[], source: ScrapeSource): ScrapedData {
+    const updates = this.buildUpdates(entries);
+    const fallbackCount = entries.filter(entry => entry.fallback).length;
+    this.reportExtraction(source, updates, { primary: entries.length - fallbackCount, fallback: fallbackCount });
 
-      const updates = await page.evaluate(() => {
-        const updates: any[] = [];
-        
-        // Supabase uses article elements with specific structure
-        const entries = document.querySelectorAll('article, .changelog-item, [data-changelog]');
-        
-        for (const entry of entries) {
-          const titleEl = entry.querySelector('h2, h3, .title');
-          const dateEl = entry.querySelector('.date, time, [data-date]');
-          const descriptionEl = entry.querySelector('.description, p:not(.date)');
-          
-          if (!titleEl) continue;
-          
-          const title = titleEl.textContent?.trim() || '';
-          const date = dateEl?.textContent?.trim() || dateEl?.getAttribute('datetime') || '';
-          const description = descriptionEl?.textContent?.trim() || '';
-          
-          if (title.length < 5) continue;
-          
-          // Supabase-specific tags
-          const tags: string[] = [];
-          const content = `${title} ${description}`.toLowerCase();
-          
-          if (content.includes('database') || content.includes('postgres')) tags.push('Database');
-          if (content.includes('auth')) tags.push('Auth');
-          if (content.includes('storage')) tags.push('Storage');
-          if (content.includes('edge') || content.includes('function')) tags.push('Edge Functions');
-          if (content.includes('realtime')) tags.push('Realtime');
-          if (content.includes('dashboard')) tags.push('Dashboard');
-          if (content.includes('cli')) tags.push('CLI');
-          if (content.includes('api')) tags.push('API');
-          
-          updates.push({
-            title,
-            date: date || new Date().toISOString().split('T')[0],
-            description: description.substring(0, 400),
-            tags: [...new Set(tags)],
-            confidence: 0.85,
-            metadata: {
-              sourceSection: 'supabase-changelog',
-              affectedServices: tags.length > 0 ? tags : ['Supabase Platform']
-            }
-          });
-        }
-        
-        return updates;
-      });
+    return {
+      competitor: this.companyName,
+      updates,
+      lastScraped: new Date().toISOString()
+    };
+  }
 
-      return {
-        competitor: this.companyName,
-        updates: updates.map(update => ({
-          ...update,
-          type: this.classifyUpdateType(update.title, update.description),
-          url: this.baseUrl
-        })),
-        lastScraped: new Date().toISOString()
+  protected buildUpdates(entries: ExtractedEntry[]): ScrapedUpdate[] {
+    const requireKeywords = this.config.requireKeywords || [];
+    const updates: ScrapedUpdate[] = [];
+
+    for (const entry of entries) {
+      const content = `${entry.title} ${entry.description}`;
+
+      // Filter for product updates when the source mixes in other posts
+      if (requireKeywords.length > 0 &&
+          !requireKeywords.some(keyword => content.toLowerCase().includes(keyword))) {
+        continue;
+      }
+
+      const tags = this.tagsFor(content);
+      const description = entry.fallback
+        ? entry.description
+        : entry.description.substring(0, this.config.descriptionMaxLength ?? 400);
+
+      const resolved = this.resolveEntryDate({ datetime: entry.datetime, text: entry.date, heading: entry.heading });
+      const url = entry.permalink || this.baseUrl;
+
+      const update: ScrapedUpdate = {
+        title: entry.title,
+        date: resolved.date,
+        dateConfidence: resolved.confidence,
+        description,
+        type: this.classifyUpdateType(entry.title, description),
+        tags,
+        confidence: entry.fallback ? this.config.fallback!.confidence : this.config.confidence,
+        metadata: {
+          sourceSection: entry.fallback
+            ? this.config.fallback!.sourceSection || `${this.companyName}-fallback-entry`
+            : this.config.sourceSection,
+          sourceUrl: url,
+          affectedServices: tags.length > 0 ? tags : [this.config.defaultService!]
+        },
+        url
       };
 
-    } catch (error) {
-      console.error('Error scraping Supabase:', error);
-      throw error;
-    } finally {
-      await page.close();
+      if (entry.elementKey !== undefined) {
+        this.elementKeys.set(update, entry.elementKey);
+      }
+      updates.push(update);
     }
+
+    return updates;
   }
 }
 
-// Figma-specific scraper
-class FigmaScraper extends BaseCompanyScraper {
-  protected companyName = 'figma';
-  protected baseUrl = 'https://www.figma.com/release-notes/';
 
-  async scrape(): Promise<ScrapedData> {
-    const page = await this.createPage();
-    
-    try {
-      console.log('Scraping Figma changelog...');
-      
-      await page.goto(this.baseUrl, {
-        waitUntil: 'networkidle2',
-        timeout: 30000
-      });
-
-      await new Promise(resolve => setTimeout(resolve, 3000));
-
-      // Try to load more content by scrolling and clicking load more buttons
-      await this.loadMoreContent(page);
-
-      const updates = await page.evaluate(() => {
-        const updates: any[] = [];
-        
-        // Figma uses article elements or specific release note containers - expand selectors
-        const entries = document.querySelectorAll('article, [data-release], .release-note, .update-item, .changelog-item, .release-item, [data-testid*="release"], [data-testid*="update"], .feature-update, .product-update');
-        
-        console.log('Found', entries.length, 'Figma release note entries');
-        
-        for (const entry of entries) {
-          const titleEl = entry.querySelector('h1, h2, h3, h4, .title, [data-title], .headline, .summary, .feature-title');
-          const dateEl = entry.querySelector('.date, time, [data-date], .published, .timestamp, [datetime]');
-          const descriptionEl = entry.querySelector('.description, p, .content, .excerpt, .summary, [data-description]');
-          
-          if (!titleEl) continue;
-          
-          const title = titleEl.textContent?.trim() || '';
-          const date = dateEl?.textContent?.trim() || dateEl?.getAttribute('datetime') || '';
-          const description = descriptionEl?.textContent?.trim() || '';
-          
-          if (title.length < 5) continue;
-          
-          // Figma-specific tags
-          const tags: string[] = [];
-          const content = `${title} ${description}`.toLowerCase();
-          
-          if (content.includes('design')) tags.push('Design');
-          if (content.includes('prototype')) tags.push('Prototyping');
-          if (content.includes('figjam')) tags.push('FigJam');
-          if (content.includes('dev mode')) tags.push('Dev Mode');
-          if (content.includes('sites')) tags.push('Figma Sites');
-          if (content.includes('slides')) tags.push('Figma Slides');
-          if (content.includes('draw')) tags.push('Figma Draw');
-          if (content.includes('ai')) tags.push('AI');
-          if (content.includes('collaboration')) tags.push('Collaboration');
-          if (content.includes('grid')) tags.push('Layout');
-          if (content.includes('component')) tags.push('Components');
-          
-          updates.push({
-            title,
-            date: date || new Date().toISOString().split('T')[0],
-            description: description.substring(0, 400),
-            tags: [...new Set(tags)],
-            confidence: 0.9,
-            metadata: {
-              sourceSection: 'figma-release-notes',
-              affectedServices: tags.length > 0 ? tags : ['Figma Platform']
-            }
-          });
-        }
-        
-        // Fallback strategy: Look for any text content that might be changelog entries
-        if (updates.length < 30) {
-          console.log('Trying fallback strategy for Figma...');
-          const allElements = document.querySelectorAll('div, section, li, p, span');
-          const foundEntries = new Set();
-          
-          for (const element of allElements) {
-            const text = element.textContent?.trim() || '';
-            
-            // Look for text that looks like changelog entries
-            if (text.length > 20 && text.length < 500 && 
-                (text.toLowerCase().includes('figma') || 
-                 text.toLowerCase().includes('design') ||
-                 text.toLowerCase().includes('prototype') ||
-                 text.toLowerCase().includes('figjam') ||
-                 text.toLowerCase().includes('component') ||
-                 text.toLowerCase().includes('layer') ||
-                 text.toLowerCase().includes('canvas') ||
-                 text.toLowerCase().includes('update') ||
-                 text.toLowerCase().includes('new') ||
-                 text.toLowerCase().includes('improve'))) {
-              
-              // Avoid duplicates and overly long text
-              if (foundEntries.has(text) || text.length > 400) continue;
-              foundEntries.add(text);
-              
-              // Extract Figma-specific tags
-              const tags: string[] = [];
-              const content = text.toLowerCase();
-              
-              if (content.includes('design')) tags.push('Design');
-              if (content.includes('prototype')) tags.push('Prototyping');
-              if (content.includes('figjam')) tags.push('FigJam');
-              if (content.includes('dev mode')) tags.push('Dev Mode');
-              if (content.includes('sites')) tags.push('Figma Sites');
-              if (content.includes('slides')) tags.push('Figma Slides');
-              if (content.includes('draw')) tags.push('Figma Draw');
-              if (content.includes('ai')) tags.push('AI');
-              if (content.includes('collaboration')) tags.push('Collaboration');
-              if (content.includes('component')) tags.push('Components');
-              
-              updates.push({
-                title: text.length > 100 ? text.substring(0, 100) + '...' : text,
-                date: new Date().toISOString().split('T')[0],
-                description: text,
-                tags: [...new Set(tags)],
-                confidence: 0.6,
-                metadata: {
-                  sourceSection: 'figma-fallback-entry',
-                  affectedServices: tags.length > 0 ? tags : ['Figma Platform']
-                }
-              });
-            }
-          }
-          
-          console.log('Found', foundEntries.size, 'additional fallback entries');
-        }
-        
-        return updates;
-      });
-
-      return {
-        competitor: this.companyName,
-        updates: updates.map(update => ({
-          ...update,
-          type: this.classifyUpdateType(update.title, update.description),
-          url: this.baseUrl
-        })),
-        lastScraped: new Date().toISOString()
-      };
+// Hand-written scrapers for sources too irregular to describe in config
+const customScrapers: Record<string, () => BaseCompanyScraper> = {
+  stripe: () => new StripeScraper()
+};
+
+// Stored entries that showed up again keep their firstSeenAt and refresh lastSeenAt. Ones stored before
+// they had a permalink pick it up now; their IDs stay as they were. When the competitor rewrote an entry
+// in place, it takes the new text and keeps a diff of the old one, but only if the rescraped entry has the
+// same ID or permalink: a near-duplicate match may be a different release that happens to look alike.
+export function refreshStoredUpdates(
+  existingUpdates: ScrapedUpdate[],
+  reseen: ScrapedUpdate[],
+  listingUrl: string,
+  seenAt: string
+): { updates: ScrapedUpdate[]; edited: number } {
+  const reseenIndex = new DuplicateIndex(reseen, listingUrl);
+  let edited = 0;
+
+  const updates = existingUpdates.map(existing => {
+    const match = reseenIndex.find(existing);
+    if (!match) return existing;
+
+    const url = existing.url && existing.url !== listingUrl ? existing.url : match.url;
+    const storedSourceUrl = existing.metadata?.sourceUrl;
+    const sourceUrl = storedSourceUrl && storedSourceUrl !== listingUrl ? storedSourceUrl : match.metadata?.sourceUrl || url;
+    const refreshed = { ...existing, url, metadata: { ...existing.metadata, sourceUrl }, lastSeenAt: seenAt };
+
+    const revision = isSameEntry(existing, match, listingUrl) ? detectRevision(existing, match, seenAt) : null;
+    if (!revision) return refreshed;
+
+    edited++;
+    return {
+      ...refreshed,
+      title: match.title,
+      description: match.description,
+      type: match.type,
+      tags: match.tags,
+      revisions: [...(existing.revisions || []), revision].slice(-MAX_REVISIONS),
+      changedAt: seenAt
+    };
+  });
 
-    } catch (error) {
-      console.error('Error scraping Figma:', error);
-      throw error;
-    } finally {
-      await page.close();
-    }
-  }
+  return { updates, edited };
 }
 
-// Cal.com-specific scraper
-class CalcomScraper extends BaseCompanyScraper {
-  protected companyName = 'caldotcom';
-  protected baseUrl = 'https://cal.com/blog/category/updates';
-
-  async scrape(): Promise<ScrapedData> {
-    const page = await this.createPage();
-    
-    try {
-      console.log('Scraping Cal.com changelog...');
-      
-      await page.goto(this.baseUrl, {
-        waitUntil: 'networkidle2',
-        timeout: 30000
-      });
-
-      await new Promise(resolve => setTimeout(resolve, 3000));
-
-      const updates = await page.evaluate(() => {
-        const updates: any[] = [];
-        
-        // Cal.com blog uses article elements or blog post containers
-        const entries = document.querySelectorAll('article, .blog-post, .update-post, [data-post]');
-        
-        for (const entry of entries) {
-          const titleEl = entry.querySelector('h1, h2, h3, .title, .post-title');
-          const dateEl = entry.querySelector('.date, time, .published-date');
-          const descriptionEl = entry.querySelector('.excerpt, .description, p');
-          
-          if (!titleEl) continue;
-          
-          const title = titleEl.textContent?.trim() || '';
-          const date = dateEl?.textContent?.trim() || dateEl?.getAttribute('datetime') || '';
-          const description = descriptionEl?.textContent?.trim() || '';
-          
-          if (title.length < 5) continue;
-          
-          // Cal.com-specific tags
-          const tags: string[] = [];
-          const content = `${title} ${description}`.toLowerCase();
-          
-          if (content.includes('booking')) tags.push('Booking');
-          if (content.includes('calendar')) tags.push('Calendar');
-          if (content.includes('scheduling')) tags.push('Scheduling');
-          if (content.includes('integration')) tags.push('Integrations');
-          if (content.includes('workflow')) tags.push('Workflows');
-          if (content.includes('payment')) tags.push('Payments');
-          if (content.includes('embed')) tags.push('Embed');
-          if (content.includes('api')) tags.push('API');
-          if (content.includes('team')) tags.push('Teams');
-          if (content.includes('routing')) tags.push('Routing');
-          
-          updates.push({
-            title,
-            date: date || new Date().toISOString().split('T')[0],
-            description: description.substring(0, 400),
-            tags: [...new Set(tags)],
-            confidence: 0.85,
-            metadata: {
-              sourceSection: 'cal-blog-updates',
-              affectedServices: tags.length > 0 ? tags : ['Cal.com Platform']
-            }
-          });
-        }
-        
-        return updates;
-      });
-
-      return {
-        competitor: this.companyName,
-        updates: updates.map(update => ({
-          ...update,
-          type: this.classifyUpdateType(update.title, update.description),
-          url: this.baseUrl
-        })),
-        lastScraped: new Date().toISOString()
-      };
+// Main scraper orchestrator
+export class ChangelogScraper {
+  private scrapers: Map<string, BaseCompanyScraper> = new Map();
 
-    } catch (error) {
-      console.error('Error scraping Cal.com:', error);
-      throw error;
-    } finally {
-      await page.close();
+  constructor(configs: CompetitorConfig[] = loadCompetitorConfigs()) {
+    // Register a scraper for every configured competitor
+    for (const config of configs) {
+      try {
+        this.scrapers.set(config.id, this.createScraper(config));
+      } catch (error) {
+        console.error(`Failed to register scraper for ${config.id}:`, error);
+      }
     }
   }
-}
-
-// Linear-specific scraper
-class LinearScraper extends BaseCompanyScraper {
-  protected companyName = 'linear';
-  protected baseUrl = 'https://linear.app/changelog';
 
-  async scrape(): Promise<ScrapedData> {
-    const page = await this.createPage();
-    
-    try {
-      console.log('Scraping Linear changelog...');
-      
-      await page.goto(this.baseUrl, {
-        waitUntil: 'networkidle2',
-        timeout: 30000
-      });
-
-      await new Promise(resolve => setTimeout(resolve, 3000));
-
-      const updates = await page.evaluate(() => {
-        const updates: any[] = [];
-        
-        // Linear uses specific changelog item structure
-        const entries = document.querySelectorAll('article, .changelog-item, [data-changelog], .update-item');
-        
-        for (const entry of entries) {
-          const titleEl = entry.querySelector('h2, h3, .title, .changelog-title');
-          const dateEl = entry.querySelector('.date, time, .published');
-          const descriptionEl = entry.querySelector('.description, .content, p');
-          
-          if (!titleEl) continue;
-          
-          const title = titleEl.textContent?.trim() || '';
-          const date = dateEl?.textContent?.trim() || dateEl?.getAttribute('datetime') || '';
-          const description = descriptionEl?.textContent?.trim() || '';
-          
-          if (title.length < 5) continue;
-          
-          // Linear-specific tags
-          const tags: string[] = [];
-          const content = `${title} ${description}`.toLowerCase();
-          
-          if (content.includes('issue')) tags.push('Issues');
-          if (content.includes('project')) tags.push('Projects');
-          if (content.includes('workflow')) tags.push('Workflows');
-          if (content.includes('team')) tags.push('Teams');
-          if (content.includes('integration')) tags.push('Integrations');
-          if (content.includes('api')) tags.push('API');
-          if (content.includes('cycle')) tags.push('Cycles');
-          if (content.includes('roadmap')) tags.push('Roadmaps');
-          if (content.includes('triage')) tags.push('Triage');
-          if (content.includes('insight')) tags.push('Insights');
-          
-          updates.push({
-            title,
-            date: date || new Date().toISOString().split('T')[0],
-            description: description.substring(0, 400),
-            tags: [...new Set(tags)],
-            confidence: 0.8,
-            metadata: {
-              sourceSection: 'linear-changelog',
-              affectedServices: tags.length > 0 ? tags : ['Linear Platform']
-            }
-          });
-        }
-        
-        return updates;
-      });
-
-      return {
-        competitor: this.companyName,
-        updates: updates.map(update => ({
-          ...update,
-          type: this.classifyUpdateType(update.title, update.description),
-          url: this.baseUrl
-        })),
-        lastScraped: new Date().toISOString()
-      };
-
-    } catch (error) {
-      console.error('Error scraping Linear:', error);
-      throw error;
-    } finally {
-      await page.close();
+  private createScraper(config: CompetitorConfig): BaseCompanyScraper {
+    let scraper: BaseCompanyScraper;
+    if (config.scraper === 'custom') {
+      const factory = customScrapers[config.id];
+      if (!factory) {
+        throw new Error(`No custom scraper implemented for ${config.id}`);
+      }
+      scraper = factory();
+    } else {
+      scraper = new ConfiguredScraper(config);
     }
-  }
-}
-
-// Notion-specific scraper
-class NotionScraper extends BaseCompanyScraper {
-  protected companyName = 'notion';
-  protected baseUrl = 'https://www.notion.so/releases';
-
-  async scrape(): Promise<ScrapedData> {
-    const page = await this.createPage();
-    
-    try {
-      console.log('Scraping Notion changelog...');
-      
-      await page.goto(this.baseUrl, {
-        waitUntil: 'networkidle2',
-        timeout: 30000
-      });
 
-      await new Promise(resolve => setTimeout(resolve, 3000));
-
-      // Try to load more content by scrolling and clicking load more buttons
-      await this.loadMoreContent(page);
-
-      const updates = await page.evaluate(() => {
-        const updates: any[] = [];
-        
-        // Notion uses specific release structure - expand selectors
-        const entries = document.querySelectorAll('article, .release-item, [data-release], .update-card, .changelog-item, .release-note, [data-testid*="release"], [data-testid*="update"]');
-        
-        console.log('Found', entries.length, 'Notion release entries');
-        
-        for (const entry of entries) {
-          const titleEl = entry.querySelector('h1, h2, h3, h4, .title, .release-title, .headline, .summary, [data-title]');
-          const dateEl = entry.querySelector('.date, time, .published, .timestamp, [datetime], [data-date]');
-          const descriptionEl = entry.querySelector('.description, .content, p, .excerpt, .summary, [data-description]');
-          
-          if (!titleEl) continue;
-          
-          const title = titleEl.textContent?.trim() || '';
-          const date = dateEl?.textContent?.trim() || dateEl?.getAttribute('datetime') || '';
-          const description = descriptionEl?.textContent?.trim() || '';
-          
-          if (title.length < 5) continue;
-          
-          // Notion-specific tags
-          const tags: string[] = [];
-          const content = `${title} ${description}`.toLowerCase();
-          
-          if (content.includes('database')) tags.push('Database');
-          if (content.includes('block')) tags.push('Blocks');
-          if (content.includes('template')) tags.push('Templates');
-          if (content.includes('formula')) tags.push('Formulas');
-          if (content.includes('ai')) tags.push('AI');
-          if (content.includes('integration')) tags.push('Integrations');
-          if (content.includes('api')) tags.push('API');
-          if (content.includes('collaboration')) tags.push('Collaboration');
-          if (content.includes('workspace')) tags.push('Workspace');
-          if (content.includes('sharing')) tags.push('Sharing');
-          
-          updates.push({
-            title,
-            date: date || new Date().toISOString().split('T')[0],
-            description: description.substring(0, 400),
-            tags: [...new Set(tags)],
-            confidence: 0.85,
-            metadata: {
-              sourceSection: 'notion-releases',
-              affectedServices: tags.length > 0 ? tags : ['Notion Platform']
-            }
-          });
-        }
-        
-        // Fallback strategy: Look for any text content that might be changelog entries
-        if (updates.length < 30) {
-          console.log('Trying fallback strategy for Notion...');
-          const allElements = document.querySelectorAll('div, section, li, p, span');
-          const foundEntries = new Set();
-          
-          for (const element of allElements) {
-            const text = element.textContent?.trim() || '';
-            
-            // Look for text that looks like changelog entries
-            if (text.length > 20 && text.length < 500 && 
-                (text.toLowerCase().includes('notion') || 
-                 text.toLowerCase().includes('database') ||
-                 text.toLowerCase().includes('block') ||
-                 text.toLowerCase().includes('template') ||
-                 text.toLowerCase().includes('formula') ||
-                 text.toLowerCase().includes('workspace') ||
-                 text.toLowerCase().includes('page') ||
-                 text.toLowerCase().includes('update') ||
-                 text.toLowerCase().includes('new') ||
-                 text.toLowerCase().includes('improve'))) {
-              
-              // Avoid duplicates and overly long text
-              if (foundEntries.has(text) || text.length > 400) continue;
-              foundEntries.add(text);
-              
-              // Extract Notion-specific tags
-              const tags: string[] = [];
-              const content = text.toLowerCase();
-              
-              if (content.includes('database')) tags.push('Database');
-              if (content.includes('block')) tags.push('Blocks');
-              if (content.includes('template')) tags.push('Templates');
-              if (content.includes('formula')) tags.push('Formulas');
-              if (content.includes('ai')) tags.push('AI');
-              if (content.includes('integration')) tags.push('Integrations');
-              if (content.includes('api')) tags.push('API');
-              if (content.includes('collaboration')) tags.push('Collaboration');
-              if (content.includes('workspace')) tags.push('Workspace');
-              if (content.includes('sharing')) tags.push('Sharing');
-              
-              updates.push({
-                title: text.length > 100 ? text.substring(0, 100) + '...' : text,
-                date: new Date().toISOString().split('T')[0],
-                description: text,
-                tags: [...new Set(tags)],
-                confidence: 0.6,
-                metadata: {
-                  sourceSection: 'notion-fallback-entry',
-                  affectedServices: tags.length > 0 ? tags : ['Notion Platform']
-                }
-              });
-            }
-          }
-          
-          console.log('Found', foundEntries.size, 'additional fallback entries');
-        }
-        
-        return updates;
-      });
-
-      return {
-        competitor: this.companyName,
-        updates: updates.map(update => ({
-          ...update,
-          type: this.classifyUpdateType(update.title, update.description),
-          url: this.baseUrl
-        })),
-        lastScraped: new Date().toISOString()
-      };
-
-    } catch (error) {
-      console.error('Error scraping Notion:', error);
-      throw error;
-    } finally {
-      await page.close();
-    }
+    scraper.usePricingPage(config.pricing);
+    return scraper;
   }
-}
-
-// ConvertKit-specific scraper
-class ConvertkitScraper extends BaseCompanyScraper {
-  protected companyName = 'convertkit';
-  protected baseUrl = 'https://updates.kit.com/changelog';
-
-  async scrape(): Promise<ScrapedData> {
-    const page = await this.createPage();
-    
-    try {
-      console.log('Scraping ConvertKit changelog...');
-      
-      await page.goto(this.baseUrl, {
-        waitUntil: 'networkidle2',
-        timeout: 30000
-      });
-
-      await new Promise(resolve => setTimeout(resolve, 3000));
-
-      const updates = await page.evaluate(() => {
-        const updates: any[] = [];
-        
-        // ConvertKit uses changelog structure
-        const entries = document.querySelectorAll('article, .changelog-item, [data-changelog], .update-item');
-        
-        for (const entry of entries) {
-          const titleEl = entry.querySelector('h2, h3, .title, .changelog-title');
-          const dateEl = entry.querySelector('.date, time, .published');
-          const descriptionEl = entry.querySelector('.description, .content, p');
-          
-          if (!titleEl) continue;
-          
-          const title = titleEl.textContent?.trim() || '';
-          const date = dateEl?.textContent?.trim() || dateEl?.getAttribute('datetime') || '';
-          const description = descriptionEl?.textContent?.trim() || '';
-          
-          if (title.length < 5) continue;
-          
-          // ConvertKit-specific tags
-          const tags: string[] = [];
-          const content = `${title} ${description}`.toLowerCase();
-          
-          if (content.includes('email')) tags.push('Email');
-          if (content.includes('automation')) tags.push('Automation');
-          if (content.includes('form')) tags.push('Forms');
-          if (content.includes('landing')) tags.push('Landing Pages');
-          if (content.includes('sequence')) tags.push('Sequences');
-          if (content.includes('broadcast')) tags.push('Broadcasts');
-          if (content.includes('subscriber')) tags.push('Subscribers');
-          if (content.includes('integration')) tags.push('Integrations');
-          if (content.includes('commerce')) tags.push('Commerce');
-          if (content.includes('creator')) tags.push('Creator Studio');
-          
-          updates.push({
-            title,
-            date: date || new Date().toISOString().split('T')[0],
-            description: description.substring(0, 400),
-            tags: [...new Set(tags)],
-            confidence: 0.8,
-            metadata: {
-              sourceSection: 'convertkit-changelog',
-              affectedServices: tags.length > 0 ? tags : ['ConvertKit Platform']
-            }
-          });
-        }
-        
-        return updates;
-      });
-
-      return {
-        competitor: this.companyName,
-        updates: updates.map(update => ({
-          ...update,
-          type: this.classifyUpdateType(update.title, update.description),
-          url: this.baseUrl
-        })),
-        lastScraped: new Date().toISOString()
-      };
 
-    } catch (error) {
-      console.error('Error scraping ConvertKit:', error);
-      throw error;
-    } finally {
-      await page.close();
+  // ignoreExisting scrapes from scratch, skipping the quick check, the merge with stored data and the
+  // pricing page check
+  async scrapeCompany(companyName: string, options: { ignoreExisting?: boolean } = {}): Promise<ScrapedData> {
+    const scraper = this.scrapers.get(companyName);
+    if (!scraper) {
+      throw new Error(`No scraper found for company: ${companyName}`);
     }
-  }
-}
 
-// Gumroad-specific scraper
-class GumroadScraper extends BaseCompanyScraper {
-  protected companyName = 'gumroad';
-  protected baseUrl = 'https://gumroad.com/blog';
+    const data = await this.scrapeChangelog(companyName, scraper, options);
+    if (options.ignoreExisting || !scraper.getPricingPage()) {
+      return data;
+    }
 
-  async scrape(): Promise<ScrapedData> {
-    const page = await this.createPage();
-    
-    try {
-      console.log('Scraping Gumroad blog...');
-      
-      await page.goto(this.baseUrl, {
-        waitUntil: 'networkidle2',
-        timeout: 30000
-      });
+    // Pricing changes join the dataset as updates of their own, so even an unchanged changelog is stored
+    // again. They go after the changelog entries, which the next quick check compares against.
+    const pricing = await this.trackPricing(companyName, scraper);
+    if (!pricing) return data;
+    return pricing.changes.length > 0
+      ? { ...data, updates: [...data.updates, ...pricing.changes], unchanged: false, pricingSnapshot: pricing.snapshot }
+      : { ...data, pricingSnapshot: pricing.snapshot };
+  }
 
-      await new Promise(resolve => setTimeout(resolve, 3000));
+  private async scrapeChangelog(
+    companyName: string,
+    scraper: BaseCompanyScraper,
+    options: { ignoreExisting?: boolean }
+  ): Promise<ScrapedData> {
+    // Smart scraping: load existing data first
+    console.log(`${companyName}: Loading existing data for smart scraping...`);
+    const existingUpdates: ScrapedUpdate[] = options.ignoreExisting
+      ? []
+      : scraper.identifyUpdates(await (scraper as any).loadExistingData());
+    scraper.useKnownUpdates(existingUpdates);
+
+    let lastError: unknown = null;
+
+    // Try each configured source in order until one yields updates
+    for (const source of scraper.getSources()) {
+      if (source === 'browser') {
+        return this.scrapeWithBrowser(companyName, scraper, existingUpdates);
+      }
 
-      const updates = await page.evaluate(() => {
-        const updates: any[] = [];
-        
-        // Gumroad blog uses article elements or blog post containers
-        const entries = document.querySelectorAll('article, .blog-post, .post, [data-post]');
-        
-        for (const entry of entries) {
-          const titleEl = entry.querySelector('h1, h2, h3, .title, .post-title');
-          const dateEl = entry.querySelector('.date, time, .published-date');
-          const descriptionEl = entry.querySelector('.excerpt, .description, p');
-          
-          if (!titleEl) continue;
-          
-          const title = titleEl.textContent?.trim() || '';
-          const date = dateEl?.textContent?.trim() || dateEl?.getAttribute('datetime') || '';
-          const description = descriptionEl?.textContent?.trim() || '';
-          
-          if (title.length < 5) continue;
-          
-          // Filter for product updates (not just any blog post)
-          const content = `${title} ${description}`.toLowerCase();
-          if (!content.includes('update') && !content.includes('feature') && !content.includes('new') && 
-              !content.includes('launch') && !content.includes('improvement') && !content.includes('change')) {
-            continue;
-          }
-          
-          // Gumroad-specific tags
-          const tags: string[] = [];
-          
-          if (content.includes('creator')) tags.push('Creator Tools');
-          if (content.includes('payment')) tags.push('Payments');
-          if (content.includes('analytics')) tags.push('Analytics');
-          if (content.includes('marketing')) tags.push('Marketing');
-          if (content.includes('affiliate')) tags.push('Affiliates');
-          if (content.includes('checkout')) tags.push('Checkout');
-          if (content.includes('storefront')) tags.push('Storefront');
-          if (content.includes('mobile')) tags.push('Mobile');
-          if (content.includes('api')) tags.push('API');
-          if (content.includes('integration')) tags.push('Integrations');
-          
-          updates.push({
-            title,
-            date: date || new Date().toISOString().split('T')[0],
-            description: description.substring(0, 400),
-            tags: [...new Set(tags)],
-            confidence: 0.75,
-            metadata: {
-              sourceSection: 'gumroad-blog',
-              affectedServices: tags.length > 0 ? tags : ['Gumroad Platform']
-            }
-          });
+      try {
+        const data = source === 'feed' ? await scraper.scrapeFeed() : await scraper.scrapeStatic();
+        if (data.updates.length > 0) {
+          return await this.mergeWithExisting(scraper, existingUpdates, data);
         }
-        
-        return updates;
-      });
-
-      return {
-        competitor: this.companyName,
-        updates: updates.map(update => ({
-          ...update,
-          type: this.classifyUpdateType(update.title, update.description),
-          url: this.baseUrl
-        })),
-        lastScraped: new Date().toISOString()
-      };
-
-    } catch (error) {
-      console.error('Error scraping Gumroad:', error);
-      throw error;
-    } finally {
-      await page.close();
+        console.log(`${companyName}: ${source} source returned no entries, trying next source`);
+      } catch (error) {
+        lastError = error;
+        console.log(`${companyName}: ${source} source failed, trying next source:`, error instanceof Error ? error.message : error);
+      }
     }
+
+    throw lastError instanceof Error ? lastError : new Error(`No source produced updates for ${companyName}`);
   }
-}
 
-// Carrd-specific scraper
-class CarrdScraper extends BaseCompanyScraper {
-  protected companyName = 'carrd';
-  protected baseUrl = 'https://carrd.co/changelog';
+  // Read the pricing page and turn what changed since the last snapshot into updates. The new snapshot is
+  // only recorded with the dataset. A failed check is logged and skipped rather than failing the changelog scrape.
+  private async trackPricing(
+    companyName: string,
+    scraper: BaseCompanyScraper
+  ): Promise<{ changes: ScrapedUpdate[]; snapshot: PricingSnapshot } | null> {
+    const rules = scraper.getPricingPage()!;
 
-  async scrape(): Promise<ScrapedData> {
-    const page = await this.createPage();
-    
     try {
-      console.log('Scraping Carrd changelog...');
-      
-      await page.goto(this.baseUrl, {
-        waitUntil: 'networkidle2',
-        timeout: 30000
-      });
-
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      const plans = await scraper.scrapePricing();
+      if (plans.length === 0) {
+        console.log(`${companyName}: No plans found on ${rules.url}, skipping the pricing comparison`);
+        scraper.reportProgress('pricing-checked', `No plans found on ${rules.url}`, { url: rules.url, plans: 0, changes: 0 });
+        return null;
+      }
 
-      const updates = await page.evaluate(() => {
-        const updates: any[] = [];
-        
-        // Carrd uses changelog structure
-        const entries = document.querySelectorAll('article, .changelog-item, [data-changelog], .update-item');
-        
-        for (const entry of entries) {
-          const titleEl = entry.querySelector('h2, h3, .title, .changelog-title');
-          const dateEl = entry.querySelector('.date, time, .published');
-          const descriptionEl = entry.querySelector('.description, .content, p');
-          
-          if (!titleEl) continue;
-          
-          const title = titleEl.textContent?.trim() || '';
-          const date = dateEl?.textContent?.trim() || dateEl?.getAttribute('datetime') || '';
-          const description = descriptionEl?.textContent?.trim() || '';
-          
-          if (title.length < 5) continue;
-          
-          // Carrd-specific tags
-          const tags: string[] = [];
-          const content = `${title} ${description}`.toLowerCase();
-          
-          if (content.includes('template')) tags.push('Templates');
-          if (content.includes('element')) tags.push('Elements');
-          if (content.includes('form')) tags.push('Forms');
-          if (content.includes('embed')) tags.push('Embeds');
-          if (content.includes('responsive')) tags.push('Responsive');
-          if (content.includes('domain')) tags.push('Domains');
-          if (content.includes('publish')) tags.push('Publishing');
-          if (content.includes('editor')) tags.push('Editor');
-          if (content.includes('integration')) tags.push('Integrations');
-          if (content.includes('pro')) tags.push('Pro Features');
-          
-          updates.push({
-            title,
-            date: date || new Date().toISOString().split('T')[0],
-            description: description.substring(0, 400),
-            tags: [...new Set(tags)],
-            confidence: 0.8,
-            metadata: {
-              sourceSection: 'carrd-changelog',
-              affectedServices: tags.length > 0 ? tags : ['Carrd Platform']
-            }
-          });
-        }
-        
-        return updates;
-      });
+      const capturedAt = scraper.observedAt();
+      const { changes, missingPlans } = checkPricing(new PricingStore().getLatestSnapshot(companyName), plans);
+      const snapshot: PricingSnapshot = { competitor: companyName, capturedAt, url: rules.url, plans };
+      if (missingPlans.length > 0) {
+        snapshot.missingPlans = missingPlans;
+        console.log(`${companyName}: ${missingPlans.map(plan => plan.name).join(', ')} missing from ${rules.url}, will check again before reporting`);
+      }
 
-      return {
-        competitor: this.companyName,
-        updates: updates.map(update => ({
-          ...update,
-          type: this.classifyUpdateType(update.title, update.description),
-          url: this.baseUrl
-        })),
-        lastScraped: new Date().toISOString()
-      };
+      console.log(`${companyName}: Read ${plans.length} pricing plans, ${changes.length} changes`);
+      scraper.reportProgress('pricing-checked', changes.length > 0
+        ? `${changes.length} pricing ${changes.length === 1 ? 'change' : 'changes'} on ${rules.url}`
+        : `No pricing changes on ${rules.url}`, { url: rules.url, plans: plans.length, changes: changes.length });
 
+      return { changes: pricingUpdates(companyName, rules.url, capturedAt, changes), snapshot };
     } catch (error) {
-      console.error('Error scraping Carrd:', error);
-      throw error;
-    } finally {
-      await page.close();
+      console.log(`${companyName}: Pricing check failed:`, error instanceof Error ? error.message : error);
+      return null;
     }
   }
-}
-
-// Main scraper orchestrator - updated constructor
-export class ChangelogScraper {
-  private scrapers: Map<string, BaseCompanyScraper> = new Map();
-
-  constructor() {
-    // Register company-specific scrapers
-    this.scrapers.set('stripe', new StripeScraper());
-    this.scrapers.set('vercel', new VercelScraper());
-    this.scrapers.set('supabase', new SupabaseScraper());
-    this.scrapers.set('figma', new FigmaScraper());
-    this.scrapers.set('caldotcom', new CalcomScraper());
-    this.scrapers.set('linear', new LinearScraper());
-    this.scrapers.set('notion', new NotionScraper());
-    this.scrapers.set('convertkit', new ConvertkitScraper());
-    this.scrapers.set('gumroad', new GumroadScraper());
-    this.scrapers.set('carrd', new CarrdScraper());
-  }
-
-  async scrapeCompany(companyName: string): Promise<ScrapedData> {
-    const scraper = this.scrapers.get(companyName);
-    if (!scraper) {
-      throw new Error(`No scraper found for company: ${companyName}`);
-    }
 
+  private async scrapeWithBrowser(
+    companyName: string,
+    scraper: BaseCompanyScraper,
+    existingUpdates: ScrapedUpdate[]
+  ): Promise<ScrapedData> {
     try {
       await scraper.init();
       
-      // Smart scraping: load existing data first
-      console.log(`${companyName}: Loading existing data for smart scraping...`);
-      const existingUpdates = await (scraper as any).loadExistingData();
-      
       if (existingUpdates.length > 0) {
         console.log(`${companyName}: Found ${existingUpdates.length} existing updates, performing quick check...`);
         
@@ -1614,17 +1271,27 @@ export class ChangelogScraper {
             waitUntil: 'networkidle2',
             timeout: 30000
           });
+          scraper.reportProgress('page-loaded', `Loaded ${scraper.getBaseUrl()} for a quick check`, {
+            source: 'browser',
+            url: scraper.getBaseUrl()
+          });
           
           // Perform quick scrape to get just the latest few entries
           const quickUpdates = await (scraper as any).quickScrapeCheck(page);
           
           // Check if we should skip full scraping
-          if ((scraper as any).shouldSkipScraping(existingUpdates, quickUpdates)) {
+          const unchanged: boolean = (scraper as any).shouldSkipScraping(existingUpdates, quickUpdates);
+          scraper.reportProgress('quick-check', unchanged
+            ? 'No new updates since the last scrape'
+            : 'New updates detected, running a full scrape', { entries: quickUpdates.length, unchanged });
+
+          if (unchanged) {
             console.log(`${companyName}: No new updates detected, returning existing data`);
             return {
               competitor: companyName,
               updates: existingUpdates,
-              lastScraped: new Date().toISOString()
+              lastScraped: new Date().toISOString(),
+              unchanged: true
             };
           }
         } finally {
@@ -1636,39 +1303,129 @@ export class ChangelogScraper {
       console.log(`${companyName}: Proceeding with full scrape...`);
       const fullData = await scraper.scrape();
       
-      // Filter out duplicates if we have existing data
-      if (existingUpdates.length > 0) {
-        const newUpdates = (scraper as any).filterNewUpdates(existingUpdates, fullData.updates);
-        const combinedUpdates = [...newUpdates, ...existingUpdates];
-        
-        return {
-          ...fullData,
-          updates: combinedUpdates
-        };
-      }
-      
-      return fullData;
+      return await this.mergeWithExisting(scraper, existingUpdates, fullData);
     } finally {
       await scraper.close();
     }
   }
 
-  async scrapeAllChangelogs(): Promise<ScrapedData[]> {
-    const results: ScrapedData[] = [];
-    
-    for (const [companyName, scraper] of this.scrapers) {
-      try {
-        console.log(`Scraping ${companyName}...`);
-        const data = await this.scrapeCompany(companyName);
-        results.push(data);
-        console.log(`Successfully scraped ${companyName}: ${data.updates.length} updates`);
-      } catch (error) {
-        console.error(`Failed to scrape ${companyName}:`, error);
-        // Continue with other scrapers
-      }
+  // Filter out duplicates if we have existing data
+  private async mergeWithExisting(
+    scraper: BaseCompanyScraper,
+    existingUpdates: ScrapedUpdate[],
+    fullData: ScrapedData
+  ): Promise<ScrapedData> {
+    const seenAt = scraper.observedAt();
+    const validated = await scraper.validatePermalinks(fullData.updates);
+    const scrapedUpdates = scraper.identifyUpdates(validated).map(update => ({
+      ...update,
+      firstSeenAt: update.firstSeenAt || seenAt,
+      lastSeenAt: seenAt
+    }));
+
+    // Detail pages are only crawled for entries that aren't stored yet
+    if (existingUpdates.length === 0) {
+      return { ...fullData, updates: await scraper.crawlEntryDetails(scrapedUpdates), extracted: scrapedUpdates };
+    }
+
+    const newUpdates: ScrapedUpdate[] = await scraper.crawlEntryDetails(
+      (scraper as any).filterNewUpdates(existingUpdates, scrapedUpdates)
+    );
+    const newIds = new Set(newUpdates.map(update => update.id));
+    const reseen = scrapedUpdates.filter(update => !newIds.has(update.id));
+
+    const { updates: refreshedExisting, edited } = refreshStoredUpdates(existingUpdates, reseen, scraper.getBaseUrl(), seenAt);
+    if (edited > 0) {
+      scraper.reportProgress('changed', `${edited} stored ${edited === 1 ? 'entry was' : 'entries were'} edited`, { count: edited });
+    }
+
+    return {
+      ...fullData,
+      updates: [...newUpdates, ...refreshedExisting],
+      extracted: scrapedUpdates
+    };
+  }
+
+  async scrapeAllChangelogs(options: ScrapeAllOptions = {}): Promise<CompanyScrapeResult[]> {
+    const companies = options.companies || this.getSupportedCompanies();
+    const concurrency = options.concurrency ?? Number(process.env.LAUNCHRADAR_SCRAPE_CONCURRENCY || 3);
+    const pool = new BrowserPool(options.maxBrowsers ?? Number(process.env.LAUNCHRADAR_MAX_BROWSERS || 2));
+    const throttle = new DomainThrottle(options.domainDelayMs ?? 3000);
+
+    console.log(`Scraping ${companies.length} companies with concurrency ${concurrency}...`);
+
+    // Closing the browsers makes in-flight scrapes fail fast instead of running to completion
+    const onAbort = () => {
+      console.log('Scrape run cancelled, closing browsers...');
+      pool.closeAll().catch(error => console.error('Error closing browsers after cancel:', error));
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const cancelled = (companyName: string, startTime: number): CompanyScrapeResult => ({
+      competitor: companyName,
+      success: false,
+      cancelled: true,
+      error: 'Cancelled',
+      durationMs: Date.now() - startTime
+    });
+
+    try {
+      return await mapWithConcurrency(companies, concurrency, async (companyName): Promise<CompanyScrapeResult> => {
+        const startTime = Date.now();
+        if (options.signal?.aborted) {
+          return cancelled(companyName, startTime);
+        }
+
+        const scraper = this.scrapers.get(companyName);
+        let result: CompanyScrapeResult;
+
+        try {
+          if (!scraper) {
+            throw new Error(`No scraper found for company: ${companyName}`);
+          }
+
+          const host = new URL(scraper.getBaseUrl()).hostname;
+          scraper.usePool(pool);
+          scraper.useProgressListener(options.onProgress ?? null);
+
+          const data = await throttle.run(host, () => {
+            // The abort may have landed while this competitor waited on its host
+            if (options.signal?.aborted) {
+              throw new Error('Cancelled');
+            }
+            console.log(`Scraping ${companyName}...`);
+            options.onCompetitorStart?.(companyName);
+            return this.scrapeCompany(companyName);
+          });
+
+          console.log(`Successfully scraped ${companyName}: ${data.updates.length} updates`);
+          result = { competitor: companyName, success: true, data, durationMs: Date.now() - startTime };
+        } catch (error) {
+          if (options.signal?.aborted) {
+            result = cancelled(companyName, startTime);
+          } else {
+            // Continue with other scrapers
+            console.error(`Failed to scrape ${companyName}:`, error);
+            result = {
+              competitor: companyName,
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+              errorStack: error instanceof Error ? error.stack : undefined,
+              durationMs: Date.now() - startTime
+            };
+          }
+        } finally {
+          scraper?.usePool(null);
+          scraper?.useProgressListener(null);
+        }
+
+        await options.onCompetitorDone?.(result);
+        return result;
+      });
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+      await pool.closeAll();
     }
-    
-    return results;
   }
 
   // Method to add new scrapers dynamically
@@ -1676,83 +1433,12 @@ export class ChangelogScraper {
     this.scrapers.set(companyName, scraper);
   }
 
+  getScraper(companyName: string): BaseCompanyScraper | undefined {
+    return this.scrapers.get(companyName);
+  }
+
   // Get list of supported companies
   getSupportedCompanies(): string[] {
     return Array.from(this.scrapers.keys());
   }
 }
-
-// Helper function to convert scraped data to our Update interface
-export function convertScrapedToUpdate(scraped: ScrapedUpdate, competitor: string, id: number): any {
-  // Convert relative timestamps
-  const getRelativeTime = (dateStr: string): string => {
-    const now = new Date();
-    const date = new Date(dateStr);
-    
-    if (isNaN(date.getTime())) {
-      return 'Recently';
-    }
-    
-    const diffMs = now.getTime() - date.getTime();
-    const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
-    const diffDays = Math.floor(diffHours / 24);
-    
-    if (diffHours < 1) {
-      return 'Just now';
-    } else if (diffHours < 24) {
-      return `${diffHours} hour${diffHours > 1 ? 's' : ''} ago`;
-    } else if (diffDays < 7) {
-      return `${diffDays} day${diffDays > 1 ? 's' : ''} ago`;
-    } else {
-      return date.toLocaleDateString();
-    }
-  };
-
-  // Determine impact based on content
-  const getImpact = (title: string, description: string): 'high' | 'medium' | 'low' => {
-    const content = (title + ' ' + description).toLowerCase();
-    
-    if (content.includes('major') || content.includes('breaking') || content.includes('launch') || 
-        content.includes('new api') || content.includes('deprecat')) {
-      return 'high';
-    } else if (content.includes('improv') || content.includes('enhanc') || content.includes('updat')) {
-      return 'medium';
-    } else {
-      return 'low';
-    }
-  };
-
-  // Generate realistic changes based on the update
-  const generateChanges = (scraped: ScrapedUpdate) => {
-    const changes = {
-      added: [] as string[],
-      modified: [] as string[],
-      removed: [] as string[]
-    };
-
-    if (scraped.type === 'feature') {
-      changes.added.push(scraped.title);
-      if (scraped.category) {
-        changes.added.push(`${scraped.category} integration`);
-      }
-    } else if (scraped.type === 'improvement') {
-      changes.modified.push(scraped.title);
-      changes.modified.push('Performance optimizations');
-    } else if (scraped.type === 'bugfix') {
-      changes.modified.push(scraped.title);
-    }
-
-    return changes;
-  };
-
-  return {
-    id,
-    competitor,
-    title: scraped.title,
-    type: scraped.type,
-    timestamp: getRelativeTime(scraped.date),
-    impact: getImpact(scraped.title, scraped.description),
-    changes: generateChanges(scraped),
-    screenshot: `data:image/svg+xml;base64,${btoa(`<svg width="400" height="300" xmlns="http://www.w3.org/2000/svg"><rect width="100%" height="100%" fill="#f0f9ff"/><text x="50%" y="50%" font-family="Arial, sans-serif" font-size="14" fill="#374149" text-anchor="middle" dy=".3em">${scraped.title}</text></svg>`)}`
-  };
-} 
\ No newline at end of file
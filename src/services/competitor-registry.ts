@@ -0,0 +1,288 @@
+import fs from 'fs';
+import path from 'path';
+import { parseCron } from './cron';
+
+// Where a competitor's updates can be read from, tried in the configured order
+export type ScrapeSource = 'feed' | 'static' | 'browser';
+
+const SCRAPE_SOURCES: ScrapeSource[] = ['feed', 'static', 'browser'];
+
+// Rules for the generic catch-all pass used when the primary selectors come up short
+export interface FallbackRules {
+  minEntries: number; // Only run the fallback when the primary pass found fewer entries than this
+  selector: string;
+  keywords: string[];
+  minLength: number;
+  maxLength: number;
+  confidence: number;
+  sourceSection?: string;
+  // Use the content-block classifier to keep to the entry list and drop nav, banner and footer text (default true)
+  classify?: boolean;
+}
+
+// Second crawl stage that follows each new entry's permalink for its full release notes
+export interface DetailPageRules {
+  content: string; // Selector for the entry body on its own page
+  delayMs: number; // Minimum gap between detail page requests
+  maxEntries: number; // Most detail pages fetched in one scrape
+}
+
+const DEFAULT_DETAIL_PAGE_RULES: DetailPageRules = {
+  content: 'article, main, [role="main"]',
+  delayMs: 1000,
+  maxEntries: 25
+};
+
+// A competitor's pricing page, checked on every scrape for price increases, removed plans and limit changes
+export interface PricingPageRules {
+  url: string;
+  source: 'static' | 'browser';
+  // Without "plan", plan cards are detected as sibling blocks that each show a name and a price
+  selectors?: { plan?: string; name?: string; price?: string; features?: string };
+  currency?: string; // ISO code for prices shown without a symbol
+}
+
+// Limits past which a scraper counts as degraded; see scraper-health.ts for the defaults
+export interface HealthThresholds {
+  minPrimaryMatches: number; // Fewer primary-selector hits than this means the selectors stopped matching
+  maxFallbackRatio: number; // Share of entries that only the generic fallback found (0-1)
+  minYieldRatio: number; // Entries extracted compared with the rolling average of earlier runs (0-1)
+  maxUndatedRate: number; // Share of updates whose date could not be resolved (0-1)
+  yieldWindow: number; // Earlier successful runs in the rolling average
+}
+
+// Limits a new scrape result must stay within to replace the stored dataset; see quality-gate.ts for the defaults
+export interface QualityThresholds {
+  minCountRatio: number; // New entry count compared with the stored count
+  maxCountRatio: number;
+  minOverlap: number; // Share of entries that match a stored one (0-1)
+  maxFallbackShare: number; // Share of entries that only the generic fallback found (0-1)
+  maxDatedTodayShare: number; // Share of entries dated on the day of the scrape (0-1)
+  minComparableEntries: number; // Stored entries needed before count and overlap are compared
+}
+
+// How each threshold is validated: a 0-1 share, a non-negative integer or any non-negative number
+type ThresholdKind = 'ratio' | 'count' | 'number';
+
+const HEALTH_THRESHOLD_KINDS: Record<keyof HealthThresholds, ThresholdKind> = {
+  minPrimaryMatches: 'count',
+  maxFallbackRatio: 'ratio',
+  minYieldRatio: 'ratio',
+  maxUndatedRate: 'ratio',
+  yieldWindow: 'count'
+};
+
+const QUALITY_THRESHOLD_KINDS: Record<keyof QualityThresholds, ThresholdKind> = {
+  minCountRatio: 'number',
+  maxCountRatio: 'number',
+  minOverlap: 'ratio',
+  maxFallbackShare: 'ratio',
+  maxDatedTodayShare: 'ratio',
+  minComparableEntries: 'count'
+};
+
+function validateThresholds(raw: unknown, field: string, kinds: Record<string, ThresholdKind>, source: string): void {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${source}: "${field}" must be an object of thresholds`);
+  }
+
+  for (const [key, value] of Object.entries(raw)) {
+    const kind = kinds[key];
+    if (!kind) {
+      throw new Error(`${source}: unknown ${field} threshold "${key}"`);
+    }
+    if (kind === 'ratio' && (typeof value !== 'number' || value < 0 || value > 1)) {
+      throw new Error(`${source}: "${field}.${key}" must be a number between 0 and 1`);
+    }
+    if (kind === 'count' && (!Number.isInteger(value) || (value as number) < 0)) {
+      throw new Error(`${source}: "${field}.${key}" must be a non-negative integer`);
+    }
+    if (kind === 'number' && (typeof value !== 'number' || value < 0)) {
+      throw new Error(`${source}: "${field}.${key}" must be a non-negative number`);
+    }
+  }
+}
+
+export interface CompetitorSelectors {
+  entry: string;
+  title: string;
+  date: string;
+  description: string;
+}
+
+export interface CompetitorConfig {
+  id: string;
+  name: string;
+  listingUrl: string;
+  // 'custom' competitors are scraped by a hand-written BaseCompanyScraper subclass
+  scraper?: 'generic' | 'custom';
+  // RSS 2.0, Atom or JSON Feed URL for changelogs that publish one
+  feedUrl?: string;
+  // 'static' fetches the HTML over plain HTTP instead of launching Chromium
+  sources?: ScrapeSource[];
+  selectors?: CompetitorSelectors;
+  loadMore?: boolean;
+  minTitleLength?: number;
+  descriptionMaxLength?: number;
+  confidence?: number;
+  sourceSection?: string;
+  defaultService?: string;
+  // Tag name -> keywords that trigger it
+  tags?: Record<string, string[]>;
+  // Entries must mention at least one of these keywords to be kept
+  requireKeywords?: string[];
+  fallback?: FallbackRules;
+  // Follow new entries' permalinks to capture their full content; "{}" takes the defaults
+  detailPages?: DetailPageRules;
+  // Pricing page to track alongside the changelog
+  pricing?: PricingPageRules;
+  // Cron expression for the built-in scheduler; defaults to LAUNCHRADAR_DEFAULT_SCHEDULE, "off" disables it
+  schedule?: string;
+  // Overrides for the scraper health thresholds
+  health?: Partial<HealthThresholds>;
+  // Overrides for the quality gate that decides whether a scrape may replace the stored dataset
+  qualityGate?: Partial<QualityThresholds>;
+}
+
+const CONFIG_DIR = path.join(process.cwd(), 'config', 'competitors');
+
+export function getCompetitorConfigDir(): string {
+  return CONFIG_DIR;
+}
+
+// Validate a parsed config file and fill in defaults
+export function normalizeCompetitorConfig(raw: any, source: string): CompetitorConfig {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`${source}: config must be a JSON object`);
+  }
+  if (typeof raw.id !== 'string' || !raw.id) {
+    throw new Error(`${source}: missing "id"`);
+  }
+  if (typeof raw.listingUrl !== 'string' || !raw.listingUrl) {
+    throw new Error(`${source}: missing "listingUrl"`);
+  }
+
+  const scraper = raw.scraper === 'custom' ? 'custom' : 'generic';
+  if (scraper === 'generic') {
+    const selectors = raw.selectors || {};
+    for (const key of ['entry', 'title', 'date', 'description']) {
+      if (typeof selectors[key] !== 'string' || !selectors[key]) {
+        throw new Error(`${source}: missing "selectors.${key}"`);
+      }
+    }
+  }
+
+  const sources: ScrapeSource[] = raw.sources || (raw.feedUrl ? ['feed', 'browser'] : ['browser']);
+  for (const scrapeSource of sources) {
+    if (!SCRAPE_SOURCES.includes(scrapeSource)) {
+      throw new Error(`${source}: unknown source "${scrapeSource}"`);
+    }
+  }
+  if (sources.includes('static') && scraper === 'custom') {
+    throw new Error(`${source}: custom scrapers do not support the "static" source`);
+  }
+  if (sources.includes('feed') && !raw.feedUrl) {
+    throw new Error(`${source}: "feed" source requires "feedUrl"`);
+  }
+
+  if (raw.schedule !== undefined && raw.schedule !== 'off') {
+    if (typeof raw.schedule !== 'string') {
+      throw new Error(`${source}: "schedule" must be a cron expression or "off"`);
+    }
+    try {
+      parseCron(raw.schedule);
+    } catch (error) {
+      throw new Error(`${source}: invalid "schedule": ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (raw.health !== undefined) {
+    validateThresholds(raw.health, 'health', HEALTH_THRESHOLD_KINDS, source);
+  }
+  if (raw.qualityGate !== undefined) {
+    validateThresholds(raw.qualityGate, 'qualityGate', QUALITY_THRESHOLD_KINDS, source);
+  }
+
+  if (raw.detailPages !== undefined) {
+    if (!raw.detailPages || typeof raw.detailPages !== 'object' || Array.isArray(raw.detailPages)) {
+      throw new Error(`${source}: "detailPages" must be an object`);
+    }
+    if (raw.detailPages.content !== undefined && (typeof raw.detailPages.content !== 'string' || !raw.detailPages.content)) {
+      throw new Error(`${source}: "detailPages.content" must be a selector`);
+    }
+    for (const key of ['delayMs', 'maxEntries']) {
+      const value = raw.detailPages[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new Error(`${source}: "detailPages.${key}" must be a non-negative integer`);
+      }
+    }
+  }
+
+  if (raw.pricing !== undefined) {
+    if (!raw.pricing || typeof raw.pricing !== 'object' || typeof raw.pricing.url !== 'string' || !raw.pricing.url) {
+      throw new Error(`${source}: "pricing" must be an object with a "url"`);
+    }
+    if (raw.pricing.source !== undefined && !['static', 'browser'].includes(raw.pricing.source)) {
+      throw new Error(`${source}: "pricing.source" must be "static" or "browser"`);
+    }
+    for (const [key, value] of Object.entries(raw.pricing.selectors || {})) {
+      if (!['plan', 'name', 'price', 'features'].includes(key) || typeof value !== 'string' || !value) {
+        throw new Error(`${source}: invalid "pricing.selectors.${key}"`);
+      }
+    }
+  }
+
+  const name = raw.name || raw.id.charAt(0).toUpperCase() + raw.id.slice(1);
+
+  return {
+    ...raw,
+    name,
+    scraper,
+    sources,
+    loadMore: raw.loadMore ?? false,
+    minTitleLength: raw.minTitleLength ?? 5,
+    descriptionMaxLength: raw.descriptionMaxLength ?? 400,
+    confidence: raw.confidence ?? 0.8,
+    sourceSection: raw.sourceSection || `${raw.id}-changelog`,
+    defaultService: raw.defaultService || `${name} Platform`,
+    tags: raw.tags || {},
+    detailPages: raw.detailPages ? { ...DEFAULT_DETAIL_PAGE_RULES, ...raw.detailPages } : undefined,
+    pricing: raw.pricing ? { source: 'browser', ...raw.pricing } : undefined,
+  };
+}
+
+// Load every competitor config from config/competitors/*.json
+export function loadCompetitorConfigs(configDir: string = CONFIG_DIR): CompetitorConfig[] {
+  if (!fs.existsSync(configDir)) {
+    console.log(`No competitor config directory found at ${configDir}`);
+    return [];
+  }
+
+  const configs: CompetitorConfig[] = [];
+  const files = fs.readdirSync(configDir).filter(file => file.endsWith('.json')).sort();
+
+  for (const file of files) {
+    try {
+      const raw = JSON.parse(fs.readFileSync(path.join(configDir, file), 'utf8'));
+      configs.push(normalizeCompetitorConfig(raw, file));
+    } catch (error) {
+      console.error(`Skipping invalid competitor config ${file}:`, error);
+    }
+  }
+
+  return configs;
+}
+
+// Apply a config's keyword map to a block of text
+export function matchTags(content: string, tagMap: Record<string, string[]>): string[] {
+  const lowerContent = content.toLowerCase();
+  const tags: string[] = [];
+
+  for (const [tag, keywords] of Object.entries(tagMap)) {
+    if (keywords.some(keyword => lowerContent.includes(keyword.toLowerCase()))) {
+      tags.push(tag);
+    }
+  }
+
+  return [...new Set(tags)];
+}
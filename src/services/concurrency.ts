@@ -0,0 +1,49 @@
+// Run a worker over items with at most `limit` in flight, preserving input order in the results
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run);
+  await Promise.all(runners);
+  return results;
+}
+
+// Per-domain politeness: one request stream per host, with a minimum gap between starts
+export class DomainThrottle {
+  private queues: Map<string, Promise<void>> = new Map();
+  private lastStarted: Map<string, number> = new Map();
+
+  constructor(private minIntervalMs: number = 3000) {}
+
+  async run<T>(host: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(host) || Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    this.queues.set(host, previous.then(() => current));
+
+    await previous;
+    try {
+      const wait = (this.lastStarted.get(host) || 0) + this.minIntervalMs - Date.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      this.lastStarted.set(host, Date.now());
+      return await task();
+    } finally {
+      release();
+    }
+  }
+}
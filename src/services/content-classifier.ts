@@ -0,0 +1,168 @@
+// Tells changelog content apart from page chrome (nav menus, cookie banners, footers, marketing copy)
+// using only the DOM structure, so it works on a linkedom document or the browser's rendered page.
+
+export interface BlockFeatures {
+  textLength: number;
+  linkDensity: number; // Share of the text that sits inside links (0-1)
+  textToMarkupRatio: number; // Text length over HTML length; markup-heavy widgets score low
+  depth: number; // Ancestors between the block and the document root
+  repeatedSiblings: number; // Siblings with the same tag and classes, as in a list of entries
+  boilerplateContext: string | null; // Landmark or class hint the block sits in, e.g. "<nav>" or ".cookie-banner"
+}
+
+export interface BlockClassification {
+  boilerplate: boolean;
+  score: number; // 0-1, higher looks more like content
+  reasons: string[]; // Why the score moved, for logging
+  features: BlockFeatures;
+}
+
+export interface EntryList {
+  container: Element;
+  items: Element[]; // The repeated children that make up the list
+  score: number;
+}
+
+const BOILERPLATE_TAGS = ['nav', 'footer', 'aside', 'form', 'dialog'];
+const BOILERPLATE_ROLES = ['navigation', 'banner', 'contentinfo', 'complementary', 'dialog', 'alertdialog', 'menu', 'menubar'];
+// Whole-word matches against id and class names
+const BOILERPLATE_NAMES = /(^|[\s_-])(nav|navbar|navigation|menu|footer|cookies?|consent|gdpr|banner|newsletter|subscribe|signup|breadcrumbs?|sidebar|social|share|promo)([\s_-]|$)/i;
+const SECTIONING_TAGS = ['article', 'main', 'section'];
+
+const MAX_LINK_DENSITY = 0.5;
+const MIN_TEXT_TO_MARKUP = 0.1;
+const SHALLOW_DEPTH = 3; // Blocks this close to <body> are page-wide wrappers
+const MIN_CONTENT_SCORE = 0.4;
+const MIN_LIST_ITEMS = 3;
+
+const textOf = (element: Element) => (element.textContent || '').replace(/\s+/g, ' ').trim();
+
+const signature = (element: Element) =>
+  `${element.tagName.toLowerCase()}.${(element.getAttribute('class') || '').trim().split(/\s+/).sort().join('.')}`;
+
+function linkDensity(element: Element, textLength: number): number {
+  if (textLength === 0) return 0;
+  if (element.tagName.toLowerCase() === 'a') return 1;
+
+  const linkText = Array.from(element.querySelectorAll('a')).reduce((sum, link) => sum + textOf(link).length, 0);
+  return Math.min(1, linkText / textLength);
+}
+
+// The nearest ancestor (or the block itself) that marks page chrome
+export function findBoilerplateContext(element: Element): string | null {
+  for (let node: Element | null = element; node; node = node.parentElement) {
+    const tag = node.tagName.toLowerCase();
+    if (BOILERPLATE_TAGS.includes(tag)) return `<${tag}>`;
+
+    // A <header> inside an article or section is the entry's own heading, not the site header
+    if (tag === 'header' && !hasSectioningAncestor(node)) return '<header>';
+
+    const role = node.getAttribute('role');
+    if (role && BOILERPLATE_ROLES.includes(role)) return `[role=${role}]`;
+
+    const names = `${node.getAttribute('id') || ''} ${node.getAttribute('class') || ''}`;
+    const match = names.match(BOILERPLATE_NAMES);
+    if (match) return `.${match[2].toLowerCase()}`;
+  }
+  return null;
+}
+
+function hasSectioningAncestor(element: Element): boolean {
+  for (let node = element.parentElement; node; node = node.parentElement) {
+    if (SECTIONING_TAGS.includes(node.tagName.toLowerCase())) return true;
+  }
+  return false;
+}
+
+export function blockFeatures(element: Element): BlockFeatures {
+  const textLength = textOf(element).length;
+  const markupLength = element.outerHTML?.length || textLength;
+
+  let depth = 0;
+  for (let node = element.parentElement; node; node = node.parentElement) depth++;
+
+  const own = signature(element);
+  const repeatedSiblings = element.parentElement
+    ? Array.from(element.parentElement.children).filter(sibling => sibling !== element && signature(sibling) === own).length
+    : 0;
+
+  return {
+    textLength,
+    linkDensity: linkDensity(element, textLength),
+    textToMarkupRatio: markupLength > 0 ? textLength / markupLength : 0,
+    depth,
+    repeatedSiblings,
+    boilerplateContext: findBoilerplateContext(element)
+  };
+}
+
+// Score one block of text. Landmarks and link-heavy blocks are boilerplate outright;
+// the other features nudge the score up or down from an even start.
+export function classifyBlock(element: Element): BlockClassification {
+  const features = blockFeatures(element);
+  const reasons: string[] = [];
+
+  if (features.boilerplateContext) {
+    return { boilerplate: true, score: 0, reasons: [`inside ${features.boilerplateContext}`], features };
+  }
+  if (features.linkDensity > MAX_LINK_DENSITY) {
+    return { boilerplate: true, score: 0, reasons: [`${Math.round(features.linkDensity * 100)}% link text`], features };
+  }
+
+  let score = 0.5;
+  score -= features.linkDensity * 0.4;
+  if (features.linkDensity > 0.2) reasons.push('link-heavy');
+
+  if (features.repeatedSiblings >= 2) {
+    score += 0.2;
+    reasons.push(`one of ${features.repeatedSiblings + 1} similar siblings`);
+  }
+  if (features.textToMarkupRatio >= 0.3) {
+    score += 0.1;
+  } else if (features.textToMarkupRatio < MIN_TEXT_TO_MARKUP) {
+    score -= 0.2;
+    reasons.push('mostly markup');
+  }
+  if (features.depth < SHALLOW_DEPTH) {
+    score -= 0.2;
+    reasons.push('page-level wrapper');
+  }
+
+  score = Math.max(0, Math.min(1, score));
+  return { boilerplate: score < MIN_CONTENT_SCORE, score, reasons, features };
+}
+
+// Find the element whose children look most like a list of changelog entries: many siblings with
+// the same structure, carrying real text rather than links, outside any navigation or footer
+export function findEntryList(root: ParentNode, minTextLength: number = 20): EntryList | null {
+  let best: EntryList | null = null;
+
+  for (const container of Array.from(root.querySelectorAll('*'))) {
+    if (container.children.length < MIN_LIST_ITEMS) continue;
+
+    const groups = new Map<string, Element[]>();
+    for (const child of Array.from(container.children)) {
+      const key = signature(child);
+      groups.set(key, [...(groups.get(key) || []), child]);
+    }
+
+    for (const items of groups.values()) {
+      if (items.length < MIN_LIST_ITEMS) continue;
+
+      const lengths = items.map(item => textOf(item).length);
+      const averageLength = lengths.reduce((sum, length) => sum + length, 0) / items.length;
+      if (averageLength < minTextLength) continue;
+
+      const averageLinkDensity = items.reduce((sum, item, index) => sum + linkDensity(item, lengths[index]), 0) / items.length;
+      if (averageLinkDensity > MAX_LINK_DENSITY) continue;
+      if (findBoilerplateContext(container)) continue;
+
+      const score = items.length * (Math.min(averageLength, 300) / 300) * (1 - averageLinkDensity);
+      if (!best || score > best.score) {
+        best = { container, items, score };
+      }
+    }
+  }
+
+  return best;
+}
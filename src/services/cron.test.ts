@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CronError, nextCronRun, parseCron } from './cron';
+
+// Schedules run in server local time, so dates are built in local time too
+const local = (month: number, day: number, hour = 0, minute = 0, year = 2025) => new Date(year, month - 1, day, hour, minute);
+
+const sorted = (values: Set<number>) => Array.from(values).sort((a, b) => a - b);
+
+describe('parseCron', () => {
+  it('expands lists, ranges, steps and names', () => {
+    const schedule = parseCron('5/20 9-17/4 1,15 jan-mar,DEC mon-fri');
+
+    assert.deepEqual(sorted(schedule.minutes), [5, 25, 45]);
+    assert.deepEqual(sorted(schedule.hours), [9, 13, 17]);
+    assert.deepEqual(sorted(schedule.daysOfMonth), [1, 15]);
+    assert.deepEqual(sorted(schedule.months), [1, 2, 3, 12]);
+    assert.deepEqual(sorted(schedule.daysOfWeek), [1, 2, 3, 4, 5]);
+    assert.equal(schedule.dayOfMonthRestricted, true);
+    assert.equal(schedule.dayOfWeekRestricted, true);
+  });
+
+  it('expands shorthands and reads 7 as Sunday', () => {
+    assert.deepEqual(sorted(parseCron('@weekly').daysOfWeek), [0]);
+    assert.deepEqual(sorted(parseCron('0 6 * * 7').daysOfWeek), [0]);
+    assert.deepEqual(sorted(parseCron('0 6 * * 5-7').daysOfWeek), [0, 5, 6]);
+    assert.equal(parseCron(' @Daily ').expression, '@Daily');
+  });
+
+  it('rejects malformed expressions with a message naming the field', () => {
+    assert.throws(() => parseCron('0 6 * *'), CronError);
+    assert.throws(() => parseCron('60 6 * * *'), /Invalid minute "60" \(expected 0-59\)/);
+    assert.throws(() => parseCron('0 6 * foo *'), /Invalid month "foo"/);
+    assert.throws(() => parseCron('*/0 6 * * *'), /Invalid step "0" in minute/);
+    assert.throws(() => parseCron('0 18-6 * * *'), /Invalid hour range "18-6"/);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('finds the next run of the default daily schedule', () => {
+    const daily = parseCron('0 6 * * *');
+
+    assert.deepEqual(nextCronRun(daily, local(7, 10, 5, 59)), local(7, 10, 6, 0));
+    // Strictly after: a run due this very minute is the next day's
+    assert.deepEqual(nextCronRun(daily, local(7, 10, 6, 0)), local(7, 11, 6, 0));
+    assert.deepEqual(nextCronRun(daily, local(12, 31, 23, 30)), local(1, 1, 6, 0, 2026));
+  });
+
+  it('runs a weekly schedule on the next matching weekday', () => {
+    // Thursday, July 10, 2025
+    assert.deepEqual(nextCronRun(parseCron('0 6 * * 1'), local(7, 10, 12)), local(7, 14, 6, 0));
+  });
+
+  it('runs on either restricted day field, as standard cron does', () => {
+    const schedule = parseCron('30 8 13 * fri');
+
+    assert.deepEqual(nextCronRun(schedule, local(7, 10, 12)), local(7, 11, 8, 30));
+    assert.deepEqual(nextCronRun(schedule, local(7, 11, 12)), local(7, 13, 8, 30));
+  });
+
+  it('gives up on schedules that never fire', () => {
+    assert.equal(nextCronRun(parseCron('0 0 31 2 *'), local(7, 10)), null);
+  });
+});
@@ -1,18 +1,168 @@
 import fs from 'fs';
 import path from 'path';
+import { HistoryStore } from './history-store';
+import { SqliteDataStore } from './sqlite-data-store';
 
 export interface StoredData {
   competitor: string;
-  updates: any[];
-  lastScraped: string;
+  updates: any[]; // Always the last successful dataset; failures never clear it
+  lastScraped: string; // When updates were last refreshed
+  success: boolean; // Whether the most recent attempt succeeded
+  lastSuccessAt?: string;
+  failureStreak?: number; // Consecutive failed attempts since the last success
+  lastError?: string | null;
+  lastFailureAt?: string | null;
+}
+
+// One scrape attempt, kept in data/runs/<competitor>.json
+export interface RunRecord {
+  competitor: string;
   success: boolean;
+  timestamp: string;
+  durationMs?: number;
+  updates?: number; // Updates stored by a successful run
+  error?: string;
+}
+
+export type RunTrigger = 'job' | 'scheduler' | 'cli';
+export type ScrapeRunStatus = 'running' | 'succeeded' | 'partial' | 'failed' | 'cancelled';
+export type CompetitorRunStatus = 'succeeded' | 'failed' | 'skipped-unchanged' | 'quarantined' | 'cancelled';
+
+// What happened to one competitor during a scrape run
+export interface CompetitorRun {
+  competitor: string;
+  status: CompetitorRunStatus;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  source?: string; // feed, static or browser: whichever produced the entries
+  pagesVisited: number; // Browser page loads and HTTP fetches of the changelog
+  entriesExtracted: number;
+  primaryMatches?: number; // Entries matched by the scraper's primary selectors (or feed items)
+  fallbackEntries?: number; // Entries that only the generic fallback pass found
+  undatedEntries?: number; // Updates whose date could not be resolved
+  quickCheckSkipped: boolean; // The quick check found nothing new, so no full scrape ran
+  newUpdates: number; // Compared with the dataset stored before this run
+  changedUpdates: number;
+  removedUpdates: number;
+  totalUpdates: number;
+  error?: string;
+  errorStack?: string;
+  quarantineId?: string; // The quality gate held the result back for review instead of storing it
+  qualityProblems?: string[];
+}
+
+export interface ScrapeRunTotals {
+  competitors: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  quarantined: number;
+  cancelled: number;
+  newUpdates: number;
+  changedUpdates: number;
+  removedUpdates: number;
+}
+
+// One scrape run across one or more competitors, from a job, the scheduler or the CLI
+export interface ScrapeRun {
+  id: string;
+  trigger: RunTrigger;
+  jobId?: string;
+  status: ScrapeRunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  competitors: CompetitorRun[];
+  totals: ScrapeRunTotals;
+}
+
+export interface ScrapeRunFilter {
+  status?: ScrapeRunStatus[];
+  trigger?: RunTrigger;
+  competitor?: string; // Runs that included this competitor
+  failedOnly?: boolean; // Runs where at least one competitor failed
+  before?: string; // Runs started before this ISO timestamp, for paging
+  limit?: number;
+}
+
+const MAX_RUNS_PER_COMPETITOR = 100;
+const MAX_SCRAPE_RUNS = 500;
+
+// Persistence for scraped datasets and scrape attempts; see createDataStore() for picking a backend
+export interface DataStore {
+  // Rejects when the dataset couldn't be written, so the run isn't recorded as a success
+  store(competitor: string, data: any, durationMs?: number): Promise<void>;
+  retrieve(competitor: string): Promise<StoredData | null>;
+  retrieveAll(): Promise<StoredData[]>;
+  // Record a failed attempt without touching the last good dataset
+  storeFailure(competitor: string, error: string, durationMs?: number): Promise<void>;
+  // Most recent run first
+  getRuns(competitor: string): Promise<RunRecord[]>;
+  getDataAge(competitor: string): Promise<number | null>; // Minutes since lastScraped
+  // Run history; saveScrapeRun inserts or replaces by ID, so in-progress runs can be saved repeatedly
+  saveScrapeRun(run: ScrapeRun): Promise<void>;
+  getScrapeRun(id: string): Promise<ScrapeRun | null>;
+  listScrapeRuns(filter?: ScrapeRunFilter): Promise<ScrapeRun[]>; // Most recent first
+}
+
+export type StorageBackend = 'file' | 'sqlite';
+
+// The dataset written after a successful scrape
+export function buildSuccessRecord(competitor: string, updates: any[], now: string): StoredData {
+  return {
+    competitor,
+    // Scrapers stamp these; fill them in for data that arrives without
+    updates: updates.map(update => ({
+      ...update,
+      firstSeenAt: update.firstSeenAt || now,
+      lastSeenAt: update.lastSeenAt || now
+    })),
+    lastScraped: now,
+    success: true,
+    lastSuccessAt: now,
+    failureStreak: 0,
+    lastError: null,
+    lastFailureAt: null
+  };
 }
 
-export class DataStore {
+// The previous dataset, kept intact, with the failure noted alongside it
+export function buildFailureRecord(existing: StoredData | null, competitor: string, error: string, now: string): StoredData {
+  return {
+    competitor,
+    updates: existing?.updates || [],
+    lastScraped: existing?.lastScraped || now,
+    success: false,
+    lastSuccessAt: existing ? existing.lastSuccessAt ?? (existing.success ? existing.lastScraped : undefined) : undefined,
+    failureStreak: (existing?.failureStreak ?? (existing && !existing.success ? 1 : 0)) + 1,
+    lastError: error,
+    lastFailureAt: now
+  };
+}
+
+export function scrapeRunHasFailures(run: ScrapeRun): boolean {
+  return run.competitors.some(competitor => competitor.status === 'failed');
+}
+
+// Filter applied in memory by the file backend; the SQLite backend does the same in SQL
+export function matchesScrapeRunFilter(run: ScrapeRun, filter: ScrapeRunFilter): boolean {
+  if (filter.status && !filter.status.includes(run.status)) return false;
+  if (filter.trigger && run.trigger !== filter.trigger) return false;
+  if (filter.competitor && !run.competitors.some(entry => entry.competitor === filter.competitor)) return false;
+  if (filter.failedOnly && !scrapeRunHasFailures(run)) return false;
+  if (filter.before && run.startedAt >= filter.before) return false;
+  return true;
+}
+
+// JSON files under data/: one per competitor, plus data/runs/<competitor>.json and data/run-history/<run>.json
+export class FileDataStore implements DataStore {
   private dataDir: string;
+  private history: HistoryStore;
 
   constructor() {
     this.dataDir = path.join(process.cwd(), 'data');
+    this.history = new HistoryStore(this.dataDir);
     this.ensureDataDir();
   }
 
@@ -26,13 +176,17 @@ export class DataStore {
     return path.join(this.dataDir, `${competitor}.json`);
   }
 
-  async store(competitor: string, data: any): Promise<void> {
-    const storedData: StoredData = {
-      competitor,
-      updates: data.updates || [],
-      lastScraped: new Date().toISOString(),
-      success: true
-    };
+  private getRunsPath(competitor: string): string {
+    return path.join(this.dataDir, 'runs', `${competitor}.json`);
+  }
+
+  private getRunHistoryDir(): string {
+    return path.join(this.dataDir, 'run-history');
+  }
+
+  async store(competitor: string, data: any, durationMs?: number): Promise<void> {
+    const now = new Date().toISOString();
+    const storedData = buildSuccessRecord(competitor, data.updates || [], now);
 
     try {
       const filePath = this.getFilePath(competitor);
@@ -40,7 +194,16 @@ export class DataStore {
       console.log(`Stored data for ${competitor}: ${storedData.updates.length} updates`);
     } catch (error) {
       console.error(`Error storing data for ${competitor}:`, error);
+      throw error;
     }
+
+    try {
+      this.history.recordSnapshot(competitor, storedData.updates, now);
+    } catch (error) {
+      console.error(`Error recording history for ${competitor}:`, error);
+    }
+
+    this.appendRun({ competitor, success: true, timestamp: now, durationMs, updates: storedData.updates.length });
   }
 
   async retrieve(competitor: string): Promise<StoredData | null> {
@@ -73,7 +236,8 @@ export class DataStore {
   async retrieveAll(): Promise<StoredData[]> {
     try {
       const files = fs.readdirSync(this.dataDir);
-      const jsonFiles = files.filter(file => file.endsWith('.json'));
+      // scraping-log.json may be left over from older versions of daily-scraper.js
+      const jsonFiles = files.filter(file => file.endsWith('.json') && file !== 'scraping-log.json');
       
       const allData: StoredData[] = [];
       
@@ -92,21 +256,45 @@ export class DataStore {
     }
   }
 
-  async storeFailure(competitor: string, error: string): Promise<void> {
-    const storedData: StoredData = {
-      competitor,
-      updates: [],
-      lastScraped: new Date().toISOString(),
-      success: false
-    };
+  async storeFailure(competitor: string, error: string, durationMs?: number): Promise<void> {
+    const now = new Date().toISOString();
+    const storedData = buildFailureRecord(await this.retrieve(competitor), competitor, error, now);
 
     try {
       const filePath = this.getFilePath(competitor);
       fs.writeFileSync(filePath, JSON.stringify(storedData, null, 2));
-      console.log(`Stored failure for ${competitor}: ${error}`);
+      console.log(`Stored failure for ${competitor} (${storedData.failureStreak} in a row): ${error}`);
     } catch (err) {
       console.error(`Error storing failure for ${competitor}:`, err);
     }
+
+    this.appendRun({ competitor, success: false, timestamp: now, durationMs, error });
+  }
+
+  async getRuns(competitor: string): Promise<RunRecord[]> {
+    try {
+      const runsPath = this.getRunsPath(competitor);
+      if (!fs.existsSync(runsPath)) {
+        return [];
+      }
+      return JSON.parse(fs.readFileSync(runsPath, 'utf8'));
+    } catch (error) {
+      console.error(`Error reading runs for ${competitor}:`, error);
+      return [];
+    }
+  }
+
+  private appendRun(run: RunRecord): void {
+    try {
+      const runsPath = this.getRunsPath(run.competitor);
+      fs.mkdirSync(path.dirname(runsPath), { recursive: true });
+
+      const runs: RunRecord[] = fs.existsSync(runsPath) ? JSON.parse(fs.readFileSync(runsPath, 'utf8')) : [];
+      runs.unshift(run);
+      fs.writeFileSync(runsPath, JSON.stringify(runs.slice(0, MAX_RUNS_PER_COMPETITOR), null, 2));
+    } catch (error) {
+      console.error(`Error recording run for ${run.competitor}:`, error);
+    }
   }
 
   async getDataAge(competitor: string): Promise<number | null> {
@@ -121,4 +309,68 @@ export class DataStore {
       return null;
     }
   }
-} 
\ No newline at end of file
+
+  async saveScrapeRun(run: ScrapeRun): Promise<void> {
+    try {
+      const dir = this.getRunHistoryDir();
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, `${run.id}.json`), JSON.stringify(run, null, 2));
+
+      // Drop the oldest runs beyond the cap
+      const runs = this.readScrapeRuns();
+      for (const old of runs.slice(MAX_SCRAPE_RUNS)) {
+        fs.rmSync(path.join(dir, `${old.id}.json`), { force: true });
+      }
+    } catch (error) {
+      console.error(`Error saving scrape run ${run.id}:`, error);
+    }
+  }
+
+  async getScrapeRun(id: string): Promise<ScrapeRun | null> {
+    // IDs come from URLs; never let one point outside the run history directory
+    if (!/^[\w-]+$/.test(id)) return null;
+
+    const runPath = path.join(this.getRunHistoryDir(), `${id}.json`);
+    try {
+      return fs.existsSync(runPath) ? JSON.parse(fs.readFileSync(runPath, 'utf8')) : null;
+    } catch (error) {
+      console.error(`Error reading scrape run ${id}:`, error);
+      return null;
+    }
+  }
+
+  async listScrapeRuns(filter: ScrapeRunFilter = {}): Promise<ScrapeRun[]> {
+    return this.readScrapeRuns()
+      .filter(run => matchesScrapeRunFilter(run, filter))
+      .slice(0, filter.limit ?? 50);
+  }
+
+  private readScrapeRuns(): ScrapeRun[] {
+    const dir = this.getRunHistoryDir();
+    if (!fs.existsSync(dir)) return [];
+
+    const runs: ScrapeRun[] = [];
+    for (const file of fs.readdirSync(dir).filter(name => name.endsWith('.json'))) {
+      try {
+        runs.push(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')));
+      } catch (error) {
+        console.error(`Skipping unreadable scrape run ${file}:`, error);
+      }
+    }
+    return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+}
+
+let sqliteStore: SqliteDataStore | null = null;
+
+// Backend comes from LAUNCHRADAR_STORAGE ('file' by default, or 'sqlite'); the SQLite connection is shared
+export function createDataStore(backend: StorageBackend = (process.env.LAUNCHRADAR_STORAGE as StorageBackend) || 'file'): DataStore {
+  if (backend === 'sqlite') {
+    sqliteStore ??= new SqliteDataStore(process.env.LAUNCHRADAR_DB_PATH || undefined);
+    return sqliteStore;
+  }
+  if (backend !== 'file') {
+    throw new Error(`Unknown storage backend "${backend}" (expected "file" or "sqlite")`);
+  }
+  return new FileDataStore();
+}
@@ -0,0 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+
+export type IssueLevel = 'error' | 'warning';
+
+export interface ValidationIssue {
+  file: string;
+  path: string; // Location inside the file, e.g. updates[3].title
+  level: IssueLevel;
+  message: string;
+}
+
+export interface DataDirValidation {
+  files: number;
+  updates: number;
+  issues: ValidationIssue[];
+}
+
+const UPDATE_TYPES = ['feature', 'pricing', 'bugfix', 'improvement', 'breaking', 'security', 'performance'];
+
+// Top-level JSON files in data/ that are not competitor datasets (older daily-scraper.js versions wrote scraping-log.json)
+const NON_DATASET_FILES = ['scraping-log.json'];
+
+const isIsoTimestamp = (value: unknown) => typeof value === 'string' && !isNaN(Date.parse(value));
+const isOptionalString = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+
+// Check one parsed competitor dataset against the StoredData/ScrapedUpdate shape.
+// Errors break readers; warnings flag legacy data that still loads (e.g. unnormalized dates).
+export function validateStoredData(raw: any, file: string, expectedCompetitor?: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (at: string, level: IssueLevel, message: string) => issues.push({ file, path: at, level, message });
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    report('$', 'error', 'dataset must be a JSON object');
+    return issues;
+  }
+
+  if (typeof raw.competitor !== 'string' || !raw.competitor) {
+    report('competitor', 'error', 'missing "competitor"');
+  } else if (expectedCompetitor && raw.competitor !== expectedCompetitor) {
+    report('competitor', 'error', `"${raw.competitor}" does not match the file name (${expectedCompetitor})`);
+  }
+
+  if (!isIsoTimestamp(raw.lastScraped)) {
+    report('lastScraped', 'error', 'must be an ISO timestamp');
+  }
+  if (typeof raw.success !== 'boolean') {
+    report('success', 'warning', 'missing "success" flag');
+  }
+  for (const field of ['lastSuccessAt', 'lastFailureAt']) {
+    if (raw[field] != null && !isIsoTimestamp(raw[field])) {
+      report(field, 'error', 'must be an ISO timestamp');
+    }
+  }
+  if (raw.failureStreak !== undefined && (!Number.isInteger(raw.failureStreak) || raw.failureStreak < 0)) {
+    report('failureStreak', 'error', 'must be a non-negative integer');
+  }
+
+  if (!Array.isArray(raw.updates)) {
+    report('updates', 'error', 'must be an array');
+    return issues;
+  }
+
+  const seenIds = new Map<string, number>();
+
+  raw.updates.forEach((update: any, index: number) => {
+    const at = `updates[${index}]`;
+
+    if (!update || typeof update !== 'object') {
+      report(at, 'error', 'update must be an object');
+      return;
+    }
+
+    if (typeof update.title !== 'string' || !update.title.trim()) {
+      report(`${at}.title`, 'error', 'missing title');
+    }
+    if (typeof update.date !== 'string' || !update.date) {
+      report(`${at}.date`, 'error', 'missing date');
+    } else if (update.date !== 'unknown' && !/^\d{4}-\d{2}-\d{2}/.test(update.date)) {
+      report(`${at}.date`, 'warning', `"${update.date}" is not YYYY-MM-DD or "unknown"`);
+    }
+    if (!UPDATE_TYPES.includes(update.type)) {
+      report(`${at}.type`, 'error', `unknown type "${update.type}" (expected ${UPDATE_TYPES.join(', ')})`);
+    }
+    if (typeof update.description !== 'string') {
+      report(`${at}.description`, 'error', 'missing description');
+    }
+
+    for (const field of ['url', 'version', 'category', 'rawContent']) {
+      if (!isOptionalString(update[field])) {
+        report(`${at}.${field}`, 'error', 'must be a string');
+      }
+    }
+    if (update.tags !== undefined && (!Array.isArray(update.tags) || update.tags.some((tag: unknown) => typeof tag !== 'string'))) {
+      report(`${at}.tags`, 'error', 'must be an array of strings');
+    }
+    for (const field of ['confidence', 'dateConfidence']) {
+      const value = update[field];
+      if (value !== undefined && (typeof value !== 'number' || value < 0 || value > 1)) {
+        report(`${at}.${field}`, 'error', 'must be a number between 0 and 1');
+      }
+    }
+    for (const field of ['firstSeenAt', 'lastSeenAt']) {
+      if (update[field] !== undefined && !isIsoTimestamp(update[field])) {
+        report(`${at}.${field}`, 'error', 'must be an ISO timestamp');
+      }
+    }
+
+    // Legacy entries without IDs get them assigned when served by /api/data
+    if (update.id === undefined) {
+      return;
+    }
+    if (typeof update.id !== 'string') {
+      report(`${at}.id`, 'error', 'must be a string');
+    } else if (seenIds.has(update.id)) {
+      report(`${at}.id`, 'error', `duplicate ID "${update.id}" (also updates[${seenIds.get(update.id)}])`);
+    } else {
+      seenIds.set(update.id, index);
+    }
+  });
+
+  return issues;
+}
+
+// Validate every competitor dataset file at the top level of a data directory
+export function validateDataDir(dataDir: string): DataDirValidation {
+  const result: DataDirValidation = { files: 0, updates: 0, issues: [] };
+
+  if (!fs.existsSync(dataDir)) {
+    result.issues.push({ file: dataDir, path: '$', level: 'error', message: 'data directory does not exist' });
+    return result;
+  }
+
+  const files = fs.readdirSync(dataDir)
+    .filter(file => file.endsWith('.json') && !NON_DATASET_FILES.includes(file))
+    .sort();
+
+  for (const file of files) {
+    result.files++;
+
+    let raw: any;
+    try {
+      raw = JSON.parse(fs.readFileSync(path.join(dataDir, file), 'utf8'));
+    } catch (error) {
+      result.issues.push({ file, path: '$', level: 'error', message: `invalid JSON: ${error instanceof Error ? error.message : error}` });
+      continue;
+    }
+
+    result.updates += Array.isArray(raw?.updates) ? raw.updates.length : 0;
+    result.issues.push(...validateStoredData(raw, file, file.replace(/\.json$/, '')));
+  }
+
+  return result;
+}
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { parseDateText, resolveDate, UNKNOWN_DATE } from './date-resolver';
+
+const REFERENCE = new Date('2025-07-15T12:00:00.000Z');
+
+// Date text exactly as the scrapers stored it in data/
+function storedDates(competitor: string): string[] {
+  const data = JSON.parse(fs.readFileSync(path.join(__dirname, '../../data', `${competitor}.json`), 'utf8'));
+  return Array.from(new Set<string>(data.updates.map((update: { date: string }) => update.date)));
+}
+
+describe('parseDateText', () => {
+  it('reads every date the stored changelogs show', () => {
+    const dates = ['figma', 'notion', 'vercel'].flatMap(storedDates);
+    assert.ok(dates.length > 10);
+
+    for (const text of dates) {
+      const parsed = parseDateText(text, REFERENCE);
+      assert.equal(parsed?.kind, 'absolute', text);
+      assert.ok(parsed && parsed.confidence >= 0.95, text);
+    }
+    assert.equal(parseDateText('Jul 9, 2025', REFERENCE)?.date, '2025-07-09');
+    assert.equal(parseDateText('February 18, 2025', REFERENCE)?.date, '2025-02-18');
+  });
+
+  it('places a date without a year in the year before the reference when it would be in the future', () => {
+    assert.equal(parseDateText('Jul 14', REFERENCE)?.date, '2025-07-14');
+    assert.equal(parseDateText('Dec 3', REFERENCE)?.date, '2024-12-03');
+  });
+
+  it('trusts numeric dates only as far as their day and month order is certain', () => {
+    assert.deepEqual(parseDateText('25/07/2025', REFERENCE), { date: '2025-07-25', confidence: 0.9, kind: 'absolute' });
+    assert.deepEqual(parseDateText('10.07.2025', REFERENCE), { date: '2025-07-10', confidence: 0.7, kind: 'absolute' });
+    assert.deepEqual(parseDateText('07/10/2025', REFERENCE), { date: '2025-07-10', confidence: 0.6, kind: 'absolute' });
+  });
+
+  it('counts relative dates back from the reference, trusting coarser units less', () => {
+    assert.deepEqual(parseDateText('yesterday', REFERENCE), { date: '2025-07-14', confidence: 0.9, kind: 'relative' });
+    assert.deepEqual(parseDateText('Posted 3 days ago', REFERENCE), { date: '2025-07-12', confidence: 0.8, kind: 'relative' });
+    assert.deepEqual(parseDateText('a month ago', REFERENCE), { date: '2025-06-15', confidence: 0.4, kind: 'relative' });
+  });
+
+  it('finds no date in text without one', () => {
+    assert.equal(parseDateText('Version 2.52 is out', REFERENCE), null);
+    assert.equal(parseDateText('', REFERENCE), null);
+  });
+
+  it('reads ISO dates followed by a time', () => {
+    assert.equal(parseDateText('2025-07-10T12:00:00Z', REFERENCE)?.date, '2025-07-10');
+    assert.equal(parseDateText('Released 2025-07-10 09:30', REFERENCE)?.date, '2025-07-10');
+  });
+
+  it('resolves a range of ISO dates to its last day', () => {
+    const parsed = parseDateText('2025-06-30 – 2025-07-02', REFERENCE);
+    assert.deepEqual(parsed, { date: '2025-07-02', confidence: 0.8, kind: 'range' });
+    assert.equal(parseDateText('2025-06-30 to 2025-07-02', REFERENCE)?.date, '2025-07-02');
+    assert.equal(parseDateText('2025-06-30 - 2025-07-02', REFERENCE)?.date, '2025-07-02');
+  });
+
+  it('resolves ranges written with month names to their last day', () => {
+    assert.equal(parseDateText('June 30 – July 2, 2025', REFERENCE)?.date, '2025-07-02');
+    assert.equal(parseDateText('June 3-7, 2025', REFERENCE)?.date, '2025-06-07');
+  });
+
+  it('keeps a single ISO date whole', () => {
+    assert.deepEqual(parseDateText('2025-06-30', REFERENCE), { date: '2025-06-30', confidence: 1, kind: 'absolute' });
+  });
+});
+
+describe('resolveDate', () => {
+  it('uses the calendar date written in a timestamp rather than its UTC date', () => {
+    assert.equal(resolveDate({ datetime: '2025-07-10T23:30:00-05:00' }, REFERENCE).date, '2025-07-10');
+    assert.equal(resolveDate({ datetime: 'Thu, 10 Jul 2025 23:30:00 -0500' }, REFERENCE).date, '2025-07-10');
+    assert.equal(resolveDate({ datetime: '2025-07-11T01:00:00+09:00' }, REFERENCE).date, '2025-07-11');
+  });
+
+  it('prefers the datetime attribute, then the visible text, then the heading', () => {
+    const candidates = { datetime: '2025-07-10T08:00:00Z', text: 'Jul 9, 2025', heading: 'July 2025' };
+
+    assert.deepEqual(resolveDate(candidates, REFERENCE), { date: '2025-07-10', confidence: 1, source: 'datetime-attribute' });
+    assert.deepEqual(resolveDate({ ...candidates, datetime: 'soon' }, REFERENCE), { date: '2025-07-09', confidence: 0.95, source: 'text' });
+    assert.deepEqual(resolveDate({ text: 'New', heading: 'July 8, 2025' }, REFERENCE), { date: '2025-07-08', confidence: 0.76, source: 'heading' });
+  });
+
+  it('reports unknown when no candidate holds a date', () => {
+    assert.deepEqual(resolveDate({ text: 'Improvements', heading: 'Changelog' }, REFERENCE), {
+      date: UNKNOWN_DATE,
+      confidence: 0,
+      source: 'unknown'
+    });
+  });
+});
@@ -0,0 +1,223 @@
+// Stored in ScrapedUpdate.date when no date could be determined
+export const UNKNOWN_DATE = 'unknown';
+
+export type DateSource = 'datetime-attribute' | 'text' | 'relative' | 'range' | 'heading' | 'unknown';
+
+export interface ResolvedDate {
+  date: string; // YYYY-MM-DD, or UNKNOWN_DATE
+  confidence: number; // 0 when unknown, 1 for machine-readable timestamps
+  source: DateSource;
+}
+
+// Everything an extractor found that might carry the entry's date, most reliable first
+export interface DateCandidates {
+  datetime?: string | null; // datetime attribute or feed timestamp
+  text?: string | null; // visible date text
+  heading?: string | null; // nearest section heading above the entry
+}
+
+interface ParsedDate {
+  date: string;
+  confidence: number;
+  kind: 'absolute' | 'relative' | 'range';
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1,
+  feb: 2, february: 2,
+  mar: 3, march: 3,
+  apr: 4, april: 4,
+  may: 5,
+  jun: 6, june: 6,
+  jul: 7, july: 7,
+  aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10,
+  nov: 11, november: 11,
+  dec: 12, december: 12
+};
+
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?';
+const YEAR = '(\\d{4})';
+const DASH = '\\s*(?:-|–|—|\\bto\\b|\\buntil\\b)\\s*';
+// Between two full dates a bare hyphen would also split an ISO date, so it has to be spaced
+const RANGE_SEPARATOR = '\\s*[–—]\\s*|\\s+-\\s+|\\s+(?:to|until)\\s+';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject overflow such as February 30th
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().split('T')[0];
+}
+
+function shiftDays(reference: Date, days: number): string {
+  return new Date(reference.getTime() - days * DAY_MS).toISOString().split('T')[0];
+}
+
+// Month names without a year belong to the most recent occurrence before the reference date
+function inferYear(month: number, day: number, reference: Date): number {
+  const year = reference.getUTCFullYear();
+  const candidate = Date.UTC(year, month - 1, day);
+  return candidate > reference.getTime() + DAY_MS ? year - 1 : year;
+}
+
+function parseRelative(text: string, reference: Date): ParsedDate | null {
+  const lower = text.toLowerCase();
+
+  if (/\b(just now|today)\b/.test(lower)) return { date: shiftDays(reference, 0), confidence: 0.9, kind: 'relative' };
+  if (/\byesterday\b/.test(lower)) return { date: shiftDays(reference, 1), confidence: 0.9, kind: 'relative' };
+
+  const match = lower.match(/\b(\d+|an?|one)\s+(minute|hour|day|week|month|year)s?\s+ago\b/);
+  if (!match) return null;
+
+  const amount = /^\d+$/.test(match[1]) ? parseInt(match[1], 10) : 1;
+  const unitDays: Record<string, number> = { minute: 0, hour: 0, day: 1, week: 7, month: 30, year: 365 };
+  // Coarser units only pin the date down approximately
+  const unitConfidence: Record<string, number> = { minute: 0.9, hour: 0.9, day: 0.8, week: 0.6, month: 0.4, year: 0.3 };
+
+  const hoursAgo = match[2] === 'hour' ? amount / 24 : 0;
+  return {
+    date: shiftDays(reference, amount * unitDays[match[2]] + hoursAgo),
+    confidence: unitConfidence[match[2]],
+    kind: 'relative'
+  };
+}
+
+function parseAbsolute(text: string, reference: Date): ParsedDate | null {
+  let match: RegExpMatchArray | null;
+
+  // ISO: 2025-07-10, 2025/07/10, 2025-07-10T12:00:00Z
+  if ((match = text.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?!\d)/))) {
+    const date = formatDate(+match[1], +match[2], +match[3]);
+    if (date) return { date, confidence: 1, kind: 'absolute' };
+  }
+
+  // July 10, 2025 / Jul 10th 2025 / Sept. 3, 2025
+  if ((match = text.match(new RegExp(`\\b${MONTH}\\s+${DAY},?\\s+${YEAR}\\b`, 'i')))) {
+    const date = formatDate(+match[3], MONTHS[match[1].toLowerCase()], +match[2]);
+    if (date) return { date, confidence: 0.95, kind: 'absolute' };
+  }
+
+  // 10 July 2025 / 10th of Jul, 2025
+  if ((match = text.match(new RegExp(`\\b${DAY}\\s+(?:of\\s+)?${MONTH},?\\s+${YEAR}\\b`, 'i')))) {
+    const date = formatDate(+match[3], MONTHS[match[2].toLowerCase()], +match[1]);
+    if (date) return { date, confidence: 0.95, kind: 'absolute' };
+  }
+
+  // Numeric day/month/year: dots are European, slashes are ambiguous unless one part exceeds 12
+  if ((match = text.match(/\b(\d{1,2})([./])(\d{1,2})\2(\d{4})\b/))) {
+    const first = +match[1];
+    const second = +match[3];
+    const year = +match[4];
+    let date: string | null = null;
+    let confidence = 0.9;
+
+    if (first > 12) {
+      date = formatDate(year, second, first);
+    } else if (second > 12) {
+      date = formatDate(year, first, second);
+    } else if (match[2] === '.') {
+      date = formatDate(year, second, first);
+      confidence = 0.7;
+    } else {
+      date = formatDate(year, first, second);
+      confidence = 0.6;
+    }
+
+    if (date) return { date, confidence, kind: 'absolute' };
+  }
+
+  // July 10 (no year)
+  if ((match = text.match(new RegExp(`\\b${MONTH}\\s+${DAY}\\b(?!\\s*,?\\s*\\d)`, 'i')))) {
+    const month = MONTHS[match[1].toLowerCase()];
+    const date = formatDate(inferYear(month, +match[2], reference), month, +match[2]);
+    if (date) return { date, confidence: 0.6, kind: 'absolute' };
+  }
+
+  // July 2025: only the month is known
+  if ((match = text.match(new RegExp(`\\b${MONTH}\\s+${YEAR}\\b`, 'i')))) {
+    const date = formatDate(+match[2], MONTHS[match[1].toLowerCase()], 1);
+    if (date) return { date, confidence: 0.4, kind: 'absolute' };
+  }
+
+  return null;
+}
+
+// Ranges resolve to their last day, which is when the release was complete
+function parseRange(text: string, reference: Date): ParsedDate | null {
+  let match: RegExpMatchArray | null;
+
+  // June 3 – 7, 2025
+  if ((match = text.match(new RegExp(`\\b${MONTH}\\s+${DAY}${DASH}${DAY},?\\s+${YEAR}\\b`, 'i')))) {
+    const date = formatDate(+match[4], MONTHS[match[1].toLowerCase()], +match[3]);
+    if (date) return { date, confidence: 0.8, kind: 'range' };
+  }
+
+  // 3 – 7 June 2025
+  if ((match = text.match(new RegExp(`\\b${DAY}${DASH}${DAY}\\s+${MONTH},?\\s+${YEAR}\\b`, 'i')))) {
+    const date = formatDate(+match[4], MONTHS[match[3].toLowerCase()], +match[2]);
+    if (date) return { date, confidence: 0.8, kind: 'range' };
+  }
+
+  // June 30 – July 2, 2025 and 2025-06-30 – 2025-07-02: parse whatever follows the separator
+  const parts = text.split(new RegExp(RANGE_SEPARATOR, 'i'));
+  if (parts.length === 2) {
+    const end = parseAbsolute(parts[1], reference);
+    const start = parseAbsolute(parts[0], reference);
+    if (end && start) return { date: end.date, confidence: Math.min(end.confidence, 0.8), kind: 'range' };
+  }
+
+  return null;
+}
+
+// Parse a single piece of free text, returning null rather than guessing
+export function parseDateText(text: string | null | undefined, reference: Date = new Date()): ParsedDate | null {
+  const clean = (text || '').replace(/\s+/g, ' ').trim();
+  if (!clean) return null;
+
+  return parseRange(clean, reference) || parseAbsolute(clean, reference) || parseRelative(clean, reference);
+}
+
+// Machine-readable timestamps such as datetime attributes and feed dates. The date is the calendar date
+// written in the timestamp: "2025-07-10T23:30:00-05:00" was published on the 10th where it was written,
+// even though it is already the 11th in UTC.
+function parseTimestamp(value: string, reference: Date): ParsedDate | null {
+  const written = parseAbsolute(value, reference);
+  if (written && written.confidence === 1) return written;
+
+  const parsed = new Date(value);
+  if (!isNaN(parsed.getTime())) {
+    if (written) return { date: written.date, confidence: 1, kind: 'absolute' };
+    return { date: parsed.toISOString().split('T')[0], confidence: 1, kind: 'absolute' };
+  }
+
+  return parseDateText(value, reference);
+}
+
+export function resolveDate(candidates: DateCandidates, reference: Date = new Date()): ResolvedDate {
+  if (candidates.datetime) {
+    const parsed = parseTimestamp(candidates.datetime.trim(), reference);
+    if (parsed) return { date: parsed.date, confidence: parsed.confidence, source: 'datetime-attribute' };
+  }
+
+  const fromText = parseDateText(candidates.text, reference);
+  if (fromText) {
+    return {
+      date: fromText.date,
+      confidence: fromText.confidence,
+      source: fromText.kind === 'absolute' ? 'text' : fromText.kind
+    };
+  }
+
+  // A date inherited from a section heading applies to everything under it, so trust it a little less
+  const fromHeading = parseDateText(candidates.heading, reference);
+  if (fromHeading) {
+    return { date: fromHeading.date, confidence: Math.round(fromHeading.confidence * 0.8 * 100) / 100, source: 'heading' };
+  }
+
+  return { date: UNKNOWN_DATE, confidence: 0, source: 'unknown' };
+}
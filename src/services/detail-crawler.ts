@@ -0,0 +1,185 @@
+import { DomainThrottle } from './concurrency';
+import { parseDocument, TextFetcher } from './static-page';
+
+// Second crawl stage: pull an entry's full release notes from its own page. The listing only carries
+// a teaser; the detail page has the body, its headings and bullets, screenshots and demo videos.
+
+export interface DetailImage {
+  src: string;
+  alt: string;
+}
+
+export interface DetailVideo {
+  src: string;
+  provider: 'youtube' | 'vimeo' | 'loom' | 'wistia' | 'video';
+}
+
+export interface EntryDetail {
+  url: string;
+  html: string; // Sanitized: a fixed set of formatting tags, no scripts, styles, classes or handlers
+  text: string; // Plain text, one block per paragraph
+  headings: string[];
+  bullets: string[];
+  images: DetailImage[];
+  videos: DetailVideo[];
+  crawledAt: string;
+}
+
+export interface DetailCrawlOptions {
+  contentSelector: string;
+  delayMs: number; // Minimum gap between requests to the same host
+  fetcher: TextFetcher;
+  crawledAt: string;
+  onPage?: (url: string, detail: EntryDetail | null, error?: unknown) => void;
+}
+
+// Tags kept in the sanitized HTML. Only links keep an attribute (href) and images two (src, alt).
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'blockquote', 'pre', 'code',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'ul', 'ol', 'li',
+  'strong', 'b', 'em', 'i', 'u', 's', 'sub', 'sup',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td',
+  'figure', 'figcaption', 'a', 'img'
+]);
+// Dropped with everything inside them; any other tag is unwrapped and its children kept
+const DROPPED_TAGS = ['script', 'style', 'noscript', 'template', 'object', 'embed', 'svg', 'canvas', 'audio',
+  'button', 'input', 'select', 'textarea', 'form', 'nav', 'footer', 'aside', 'dialog'];
+// Tags that end a line of plain text
+const BLOCK_TAGS = ['p', 'div', 'section', 'article', 'blockquote', 'pre', 'li', 'tr', 'figure', 'figcaption',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'br', 'hr', 'table', 'ul', 'ol'];
+
+const VIDEO_PROVIDERS: [RegExp, DetailVideo['provider']][] = [
+  [/(^|\.)(youtube\.com|youtube-nocookie\.com|youtu\.be)$/, 'youtube'],
+  [/(^|\.)vimeo\.com$/, 'vimeo'],
+  [/(^|\.)loom\.com$/, 'loom'],
+  [/(^|\.)(wistia\.com|wistia\.net)$/, 'wistia']
+];
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Absolute http(s) URL, or null for javascript:, data: and anything unparseable
+function absoluteUrl(value: string | null, pageUrl: string): string | null {
+  if (!value?.trim()) return null;
+  try {
+    const url = new URL(value.trim(), pageUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// Lazy-loaded images keep the real source in a data attribute
+function imageSource(element: Element): string | null {
+  return element.getAttribute('src') || element.getAttribute('data-src') || element.getAttribute('data-lazy-src');
+}
+
+function videoFrom(element: Element, pageUrl: string): DetailVideo | null {
+  const tag = element.tagName.toLowerCase();
+  const src = absoluteUrl(
+    tag === 'video' ? element.getAttribute('src') || element.querySelector('source[src]')?.getAttribute('src') || null : element.getAttribute('src'),
+    pageUrl
+  );
+  if (!src) return null;
+  if (tag === 'video') return { src, provider: 'video' };
+
+  const host = new URL(src).hostname.toLowerCase();
+  const match = VIDEO_PROVIDERS.find(([pattern]) => pattern.test(host));
+  return match ? { src, provider: match[1] } : null;
+}
+
+// Sanitize an element's contents and collect its text, headings, bullets and media in one walk
+export function extractDetailContent(root: Element, pageUrl: string): Omit<EntryDetail, 'url' | 'crawledAt'> {
+  const lines: string[] = [];
+  let line = '';
+  const headings: string[] = [];
+  const bullets: string[] = [];
+  const images: DetailImage[] = [];
+  const videos: DetailVideo[] = [];
+
+  const endLine = () => {
+    const text = collapse(line);
+    if (text) lines.push(text);
+    line = '';
+  };
+
+  const walk = (node: Node): string => {
+    if (node.nodeType === 3) {
+      line += node.textContent || '';
+      return escapeHtml(node.textContent || '');
+    }
+    if (node.nodeType !== 1) return '';
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (tag === 'iframe' || tag === 'video') {
+      const video = videoFrom(element, pageUrl);
+      if (video && !videos.some(existing => existing.src === video.src)) videos.push(video);
+      return '';
+    }
+    if (DROPPED_TAGS.includes(tag)) return '';
+
+    const block = BLOCK_TAGS.includes(tag);
+    if (block) endLine();
+
+    let attributes = '';
+    if (tag === 'img') {
+      const src = absoluteUrl(imageSource(element), pageUrl);
+      if (!src) return '';
+      const alt = collapse(element.getAttribute('alt') || '');
+      if (!images.some(existing => existing.src === src)) images.push({ src, alt });
+      attributes = ` src="${escapeHtml(src)}" alt="${escapeHtml(alt)}"`;
+    } else if (tag === 'a') {
+      const href = absoluteUrl(element.getAttribute('href'), pageUrl);
+      if (href) attributes = ` href="${escapeHtml(href)}" rel="noopener noreferrer"`;
+    }
+
+    const inner = Array.from(element.childNodes).map(walk).join('');
+    if (block) endLine();
+
+    const text = collapse(element.textContent || '');
+    if (/^h[1-6]$/.test(tag) && text) headings.push(text);
+    if (tag === 'li' && text) bullets.push(text);
+
+    if (!ALLOWED_TAGS.has(tag)) return inner;
+    if (tag === 'br' || tag === 'hr' || tag === 'img') return `<${tag}${attributes}>`;
+    return `<${tag}${attributes}>${inner}</${tag}>`;
+  };
+
+  const html = Array.from(root.childNodes).map(walk).join('').replace(/\n\s*\n+/g, '\n').trim();
+  endLine();
+
+  return { html, text: lines.join('\n\n'), headings, bullets, images, videos };
+}
+
+// The entry body on its detail page: the first element matching the configured selector, or the whole body
+export function extractDetail(document: Document, contentSelector: string, pageUrl: string, crawledAt: string): EntryDetail | null {
+  const root = document.querySelector(contentSelector) || document.body;
+  if (!root) return null;
+
+  const content = extractDetailContent(root, pageUrl);
+  if (!content.text) return null;
+  return { url: pageUrl, crawledAt, ...content };
+}
+
+// Fetch each detail page one at a time, spaced out per host. A page that fails to load or has no
+// text is left out of the result, so its entry keeps the listing teaser.
+export async function crawlDetails(urls: string[], options: DetailCrawlOptions): Promise<Map<string, EntryDetail>> {
+  const throttle = new DomainThrottle(options.delayMs);
+  const details = new Map<string, EntryDetail>();
+
+  for (const url of urls) {
+    try {
+      const { body, url: finalUrl } = await throttle.run(new URL(url).hostname, () => options.fetcher(url));
+      const detail = extractDetail(parseDocument(body), options.contentSelector, finalUrl, options.crawledAt);
+      if (detail) details.set(url, detail);
+      options.onPage?.(url, detail);
+    } catch (error) {
+      options.onPage?.(url, null, error);
+    }
+  }
+
+  return details;
+}
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { CompetitorConfig, loadCompetitorConfigs } from './competitor-registry';
+import { ENTRY_MARKER, extractEntries, ExtractionRules, findDatedHeading } from './entry-extractor';
+import { parseDocument } from './static-page';
+
+const PAGE_URL = 'https://vercel.com/changelog';
+
+// Vercel's own selectors and fallback rules, as the scraper applies them
+const vercel = loadCompetitorConfigs(path.join(__dirname, '../../config/competitors'))
+  .find(config => config.id === 'vercel') as CompetitorConfig;
+
+function rules(overrides: Partial<ExtractionRules> = {}): ExtractionRules {
+  return { selectors: vercel.selectors!, minTitleLength: 5, fallback: vercel.fallback, pageUrl: PAGE_URL, ...overrides };
+}
+
+const LISTING = `<!DOCTYPE html>
+<html><body>
+  <nav><a href="/">Home</a><a href="/changelog">Changelog</a></nav>
+  <main>
+    <h2>July 10, 2025</h2>
+    <article ${ENTRY_MARKER}="entry-1">
+      <h3><a href="/changelog/blob-regions">Vercel Blob now available in all Vercel Regions</a></h3>
+      <p>You can now create Vercel Blob stores in any of the 19 Vercel Regions.</p>
+    </article>
+    <h2>July 9, 2025</h2>
+    <article>
+      <h3>Web Application Firewall control now available with vercel.json</h3>
+      <time datetime="2025-07-09T17:00:00.000Z">Jul 9, 2025</time>
+      <p>Configure WAF rules in vercel.json.</p>
+    </article>
+    <article><h3>New</h3><p>Too short a title to be an entry.</p></article>
+  </main>
+</body></html>`;
+
+describe('extractEntries', () => {
+  it('pulls each entry with its date, nearest dated heading and permalink', () => {
+    const entries = extractEntries(parseDocument(LISTING), rules({ fallback: undefined }));
+
+    assert.deepEqual(entries, [
+      {
+        title: 'Vercel Blob now available in all Vercel Regions',
+        date: '',
+        datetime: undefined,
+        heading: 'July 10, 2025',
+        description: 'You can now create Vercel Blob stores in any of the 19 Vercel Regions.',
+        permalink: 'https://vercel.com/changelog/blob-regions',
+        elementKey: 'entry-1',
+        fallback: false
+      },
+      {
+        title: 'Web Application Firewall control now available with vercel.json',
+        date: 'Jul 9, 2025',
+        datetime: '2025-07-09T17:00:00.000Z',
+        heading: 'July 9, 2025',
+        description: 'Configure WAF rules in vercel.json.',
+        permalink: undefined,
+        elementKey: undefined,
+        fallback: false
+      }
+    ]);
+  });
+
+  it('leaves permalinks out without the page URL to resolve them against', () => {
+    const [entry] = extractEntries(parseDocument(LISTING), rules({ fallback: undefined, pageUrl: undefined }));
+
+    assert.equal(entry.permalink, undefined);
+  });
+
+  it('falls back to keyword blocks from the entry list when the selectors find too few entries', () => {
+    const document = parseDocument(`<!DOCTYPE html>
+      <html><body>
+        <nav class="menu"><div>New: deploy from the dashboard with one click</div></nav>
+        <main>
+          <h2>July 8, 2025</h2>
+          <ul class="releases">
+            <li class="release">Preview deployments now build twice as fast</li>
+            <li class="release">Edge Functions improve cold starts in every region</li>
+            <li class="release">New build cache for monorepos with many projects</li>
+          </ul>
+        </main>
+      </body></html>`);
+
+    const entries = extractEntries(document, rules());
+
+    assert.deepEqual(entries.map(entry => [entry.title, entry.heading, entry.fallback]), [
+      ['Preview deployments now build twice as fast', 'July 8, 2025', true],
+      ['Edge Functions improve cold starts in every region', 'July 8, 2025', true],
+      ['New build cache for monorepos with many projects', 'July 8, 2025', true]
+    ]);
+  });
+});
+
+describe('findDatedHeading', () => {
+  it('skips headings without a date and stops at the depth limit', () => {
+    const document = parseDocument(`<!DOCTYPE html>
+      <html><body>
+        <h2>June 30, 2025</h2>
+        <section><h3>Highlights</h3><div><div><p id="entry">Dark mode</p></div></div></section>
+      </body></html>`);
+    const entry = document.getElementById('entry')!;
+
+    assert.equal(findDatedHeading(entry), 'June 30, 2025');
+    assert.equal(findDatedHeading(entry, 2), '');
+  });
+});
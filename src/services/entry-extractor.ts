@@ -0,0 +1,175 @@
+import { CompetitorSelectors, FallbackRules } from './competitor-registry';
+import { classifyBlock, findEntryList } from './content-classifier';
+import { parseDateText } from './date-resolver';
+import { findPermalink } from './permalink';
+
+// Raw entry pulled out of the page before tags and types are applied
+export interface ExtractedEntry {
+  title: string;
+  date: string; // Visible date text, unparsed
+  datetime?: string; // Machine-readable datetime attribute, when present
+  heading?: string; // Nearest dated section heading above the entry
+  description: string;
+  permalink?: string; // Absolute URL that deep-links to this entry
+  elementKey?: string; // ENTRY_MARKER value the live page tagged the entry with, for screenshots
+  fallback: boolean;
+}
+
+export interface ExtractionRules {
+  selectors: CompetitorSelectors;
+  minTitleLength: number;
+  fallback?: FallbackRules;
+  pageUrl?: string; // Where the DOM was loaded from; relative permalinks resolve against it
+}
+
+// What a fallback pass looks for: any element matching `selector` whose text fits the length limits and `matches`
+export interface FallbackBlockRules {
+  selector: string;
+  minLength: number;
+  maxLength: number;
+  matches: (text: string) => boolean;
+  classify?: boolean; // Narrow to the detected entry list and drop boilerplate; on by default
+}
+
+export interface FallbackBlock {
+  element: Element;
+  text: string;
+}
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+// Browser scrapes tag each entry element on the live page before snapshotting it, so an extracted
+// entry can be found again there
+export const ENTRY_MARKER = 'data-launchradar-entry';
+
+// Walk back through previous siblings and up through ancestors to the nearest heading
+// that carries a date, so entries listed under "July 10, 2025" inherit that date
+export function findDatedHeading(element: Element, maxDepth: number = 6, maxSiblings: number = 30): string {
+  let node: Element | null = element;
+
+  for (let depth = 0; node && depth < maxDepth; depth++) {
+    let sibling = node.previousElementSibling;
+
+    for (let scanned = 0; sibling && scanned < maxSiblings; scanned++) {
+      const headings = sibling.matches(HEADING_SELECTOR)
+        ? [sibling]
+        : Array.from(sibling.querySelectorAll(HEADING_SELECTOR)).reverse();
+
+      for (const heading of headings) {
+        const text = heading.textContent?.trim() || '';
+        if (parseDateText(text)) return text;
+      }
+
+      sibling = sibling.previousElementSibling;
+    }
+
+    node = node.parentElement;
+  }
+
+  return '';
+}
+
+// Candidate elements for a fallback pass. With the classifier on, blocks come from the page's
+// detected entry list when it has matching ones (an entry too long to take whole contributes its
+// matching descendants), and anything that reads as navigation, banners or footers is dropped.
+export function extractFallbackBlocks(root: ParentNode, rules: FallbackBlockRules): FallbackBlock[] {
+  const fits = (text: string) => text.length > rules.minLength && text.length <= rules.maxLength && rules.matches(text);
+  const textOf = (element: Element) => element.textContent?.trim() || '';
+
+  let candidates = Array.from(root.querySelectorAll(rules.selector));
+
+  if (rules.classify !== false) {
+    const list = findEntryList(root, rules.minLength);
+    const listed = list?.items.flatMap(item =>
+      fits(textOf(item)) ? [item] : Array.from(item.querySelectorAll(rules.selector))
+    ) || [];
+
+    if (listed.some(element => fits(textOf(element)))) {
+      candidates = listed;
+    }
+  }
+
+  const blocks: FallbackBlock[] = [];
+  const seen = new Set<string>();
+  let dropped = 0;
+
+  for (const element of candidates) {
+    const text = textOf(element);
+    if (!fits(text) || seen.has(text)) continue;
+
+    if (rules.classify !== false && classifyBlock(element).boilerplate) {
+      dropped++;
+      continue;
+    }
+
+    seen.add(text);
+    blocks.push({ element, text });
+  }
+
+  if (dropped > 0) {
+    console.log('Dropped', dropped, 'boilerplate fallback blocks');
+  }
+  return blocks;
+}
+
+// Apply a competitor's selectors to a parsed DOM. The same logic serves the
+// static HTML mode and the browser mode (which parses the rendered page).
+export function extractEntries(root: ParentNode, rules: ExtractionRules): ExtractedEntry[] {
+  const entries: ExtractedEntry[] = [];
+
+  for (const entry of Array.from(root.querySelectorAll(rules.selectors.entry))) {
+    const titleEl = entry.querySelector(rules.selectors.title);
+    const dateEl = entry.querySelector(rules.selectors.date);
+    const descriptionEl = entry.querySelector(rules.selectors.description);
+
+    if (!titleEl) continue;
+
+    const title = titleEl.textContent?.trim() || '';
+    const date = dateEl?.textContent?.trim() || '';
+    const datetime = dateEl?.getAttribute('datetime') || entry.querySelector('[datetime]')?.getAttribute('datetime') || undefined;
+    const description = descriptionEl?.textContent?.trim() || '';
+
+    if (title.length < rules.minTitleLength) continue;
+
+    entries.push({
+      title,
+      date,
+      datetime,
+      heading: findDatedHeading(entry),
+      description,
+      permalink: rules.pageUrl ? findPermalink(entry, titleEl, rules.pageUrl)?.url : undefined,
+      elementKey: entry.getAttribute(ENTRY_MARKER) || undefined,
+      fallback: false
+    });
+  }
+
+  console.log('Found', entries.length, 'entries with primary selectors');
+
+  // Fallback strategy: Look for any text content that might be changelog entries
+  const fallback = rules.fallback;
+  if (fallback && entries.length < fallback.minEntries) {
+    const blocks = extractFallbackBlocks(root, {
+      selector: fallback.selector,
+      minLength: fallback.minLength,
+      maxLength: fallback.maxLength,
+      matches: text => fallback.keywords.some(keyword => text.toLowerCase().includes(keyword)),
+      classify: fallback.classify
+    });
+
+    for (const { element, text } of blocks) {
+      entries.push({
+        title: text.length > 100 ? text.substring(0, 100) + '...' : text,
+        date: '',
+        datetime: element.querySelector('[datetime]')?.getAttribute('datetime') || undefined,
+        heading: findDatedHeading(element),
+        description: text,
+        permalink: rules.pageUrl ? findPermalink(element, null, rules.pageUrl)?.url : undefined,
+        fallback: true
+      });
+    }
+
+    console.log('Found', blocks.length, 'additional fallback entries');
+  }
+
+  return entries;
+}
@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+import { detectFeedFormat, fetchFeed, parseFeed } from './feed-parser';
+import { FixtureSession } from './fixtures';
+
+const RSS = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>Acme changelog</title>
+    <item>
+      <title>Faster &lt;em&gt;builds&lt;/em&gt;</title>
+      <guid isPermaLink="true">https://acme.test/changelog/faster-builds</guid>
+      <pubDate>Thu, 10 Jul 2025 16:00:00 GMT</pubDate>
+      <description>&lt;p&gt;Builds got faster.&lt;/p&gt;</description>
+      <content:encoded><![CDATA[<p>Builds are <strong>twice</strong> as fast.</p>]]></content:encoded>
+      <category>Build</category>
+      <category>Performance</category>
+    </item>
+    <item>
+      <title>Audit logs</title>
+      <guid isPermaLink="false">release-412</guid>
+      <description>Audit logs for enterprise workspaces.</description>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Vercel Changelog</title>
+  <entry>
+    <id>tag:vercel.com,2025:changelog/blob-regions</id>
+    <title>Vercel Blob now available in all Vercel Regions</title>
+    <link rel="replies" href="https://vercel.com/changelog/blob-regions#comments"/>
+    <link href="https://vercel.com/changelog/blob-regions"/>
+    <published>2025-07-10T13:00:00.000Z</published>
+    <updated>2025-07-11T09:00:00.000Z</updated>
+    <summary>You can now create Vercel Blob stores in any of the 19 Vercel Regions.</summary>
+    <category term="Storage"/>
+  </entry>
+  <entry>
+    <id>tag:vercel.com,2025:changelog/waf-vercel-json</id>
+    <title>Web Application Firewall control now available with vercel.json</title>
+    <link rel="alternate" href="https://vercel.com/changelog/waf-vercel-json"/>
+    <updated>2025-07-09T17:00:00.000Z</updated>
+    <content type="html">&lt;p&gt;Configure WAF rules &lt;code&gt;in vercel.json&lt;/code&gt;.&lt;/p&gt;</content>
+  </entry>
+</feed>`;
+
+const JSON_FEED = JSON.stringify({
+  version: 'https://jsonfeed.org/version/1.1',
+  title: 'Acme',
+  items: [
+    { id: 41, title: ' Dark mode ', url: 'https://acme.test/changelog/dark-mode', date_published: '2025-07-08T10:00:00Z', content_html: '<p>Dark   mode for <b>every</b> app.</p>', tags: ['UI', 3] },
+    { id: 'abc', title: 'Webhooks', external_url: 'https://blog.acme.test/webhooks', date_modified: '2025-07-01T10:00:00Z', content_text: 'Retry\nfailed webhooks.', summary: 'Retries' }
+  ]
+});
+
+describe('detectFeedFormat', () => {
+  it('tells the formats apart by content type and root element', () => {
+    assert.equal(detectFeedFormat(RSS), 'rss');
+    assert.equal(detectFeedFormat(ATOM, 'application/xml'), 'atom');
+    assert.equal(detectFeedFormat(JSON_FEED), 'json');
+    assert.equal(detectFeedFormat(' {"items": []}', 'text/plain'), 'json');
+    assert.throws(() => detectFeedFormat('<!DOCTYPE html><html></html>', 'text/html'), /Unrecognised feed format/);
+  });
+});
+
+describe('parseFeed', () => {
+  it('reads RSS items, preferring the full content to the description', () => {
+    const [builds, audit] = parseFeed(RSS, 'application/rss+xml');
+
+    assert.deepEqual(builds, {
+      title: 'Faster builds',
+      link: 'https://acme.test/changelog/faster-builds',
+      guid: 'https://acme.test/changelog/faster-builds',
+      published: 'Thu, 10 Jul 2025 16:00:00 GMT',
+      contentHtml: '<p>Builds are <strong>twice</strong> as fast.</p>',
+      contentText: 'Builds are twice as fast.',
+      summary: 'Builds got faster.',
+      categories: ['Build', 'Performance']
+    });
+    // A guid that isn't a URL is no link
+    assert.equal(audit.link, undefined);
+    assert.equal(audit.guid, 'release-412');
+    assert.equal(audit.published, undefined);
+    assert.equal(audit.contentText, 'Audit logs for enterprise workspaces.');
+  });
+
+  it('reads Atom entries, linking to the alternate page and falling back to updated', () => {
+    const [blob, waf] = parseFeed(ATOM);
+
+    assert.equal(blob.link, 'https://vercel.com/changelog/blob-regions');
+    assert.equal(blob.published, '2025-07-10T13:00:00.000Z');
+    assert.equal(blob.contentText, 'You can now create Vercel Blob stores in any of the 19 Vercel Regions.');
+    assert.deepEqual(blob.categories, ['Storage']);
+
+    assert.equal(waf.link, 'https://vercel.com/changelog/waf-vercel-json');
+    assert.equal(waf.published, '2025-07-09T17:00:00.000Z');
+    assert.equal(waf.contentText, 'Configure WAF rules in vercel.json.');
+    assert.equal(waf.summary, undefined);
+  });
+
+  it('reads JSON Feed items', () => {
+    const [dark, webhooks] = parseFeed(JSON_FEED, 'application/feed+json');
+
+    assert.equal(dark.title, 'Dark mode');
+    assert.equal(dark.guid, '41');
+    assert.equal(dark.contentText, 'Dark mode for every app.');
+    assert.deepEqual(dark.categories, ['UI', '3']);
+
+    assert.equal(webhooks.link, 'https://blog.acme.test/webhooks');
+    assert.equal(webhooks.published, '2025-07-01T10:00:00Z');
+    assert.equal(webhooks.contentText, 'Retry failed webhooks.');
+    assert.equal(webhooks.summary, 'Retries');
+  });
+
+  it('rejects a JSON document that is no feed', () => {
+    assert.throws(() => parseFeed('{"title": "Acme"}'), /no items array/);
+  });
+});
+
+describe('fetchFeed', () => {
+  const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'feed-fixtures-'));
+  after(() => fs.rmSync(fixturesDir, { recursive: true, force: true }));
+
+  // Lay the feed out the way `npm run fixtures -- record` would
+  fs.mkdirSync(path.join(fixturesDir, 'vercel', 'responses'), { recursive: true });
+  fs.writeFileSync(path.join(fixturesDir, 'vercel', 'responses', 'atom'), ATOM);
+  fs.writeFileSync(path.join(fixturesDir, 'vercel', 'manifest.json'), JSON.stringify({
+    competitor: 'vercel',
+    capturedAt: '2025-07-11T10:00:00.000Z',
+    responses: {
+      'GET https://vercel.com/atom': {
+        url: 'https://vercel.com/atom',
+        method: 'GET',
+        status: 200,
+        headers: { 'content-type': 'application/atom+xml; charset=utf-8' },
+        bodyFile: 'responses/atom'
+      }
+    }
+  }));
+
+  it('parses a feed replayed from recorded fixtures', async () => {
+    const session = FixtureSession.open('replay', 'vercel', fixturesDir);
+    const entries = await fetchFeed('https://vercel.com/atom', (url, accept) => session.fetchText(url, accept));
+
+    assert.deepEqual(entries.map(entry => entry.title), [
+      'Vercel Blob now available in all Vercel Regions',
+      'Web Application Firewall control now available with vercel.json'
+    ]);
+    await assert.rejects(
+      fetchFeed('https://vercel.com/rss', (url, accept) => session.fetchText(url, accept)),
+      /No recorded response for https:\/\/vercel.com\/rss/
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import { DOMParser, parseHTML } from 'linkedom';
+import { fetchText, TextFetcher } from './static-page';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface FeedEntry {
+  title: string;
+  link?: string;
+  guid?: string;
+  published?: string; // Raw date string as published in the feed
+  contentHtml?: string;
+  contentText: string;
+  summary?: string;
+  categories: string[];
+}
+
+export function detectFeedFormat(body: string, contentType: string = ''): FeedFormat {
+  const trimmed = body.trimStart();
+
+  if (contentType.includes('json') || trimmed.startsWith('{')) return 'json';
+  if (/<feed[\s>]/i.test(trimmed.slice(0, 2000))) return 'atom';
+  if (/<(rss|rdf:RDF)[\s>]/i.test(trimmed.slice(0, 2000))) return 'rss';
+
+  throw new Error('Unrecognised feed format');
+}
+
+// Strip markup from an HTML fragment
+export function htmlToText(html: string): string {
+  if (!html) return '';
+  const { document } = parseHTML(`<!DOCTYPE html><html><body>${html}</body></html>`);
+  return (document.body.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+// Find a direct child by tag name, including namespaced names like content:encoded
+function childText(parent: Element, ...names: string[]): string {
+  for (const name of names) {
+    for (const child of Array.from(parent.children)) {
+      if (child.tagName.toLowerCase() === name.toLowerCase()) {
+        const text = child.textContent?.trim();
+        if (text) return text;
+      }
+    }
+  }
+  return '';
+}
+
+function parseRss(xml: string): FeedEntry[] {
+  const document = new DOMParser().parseFromString(xml, 'text/xml') as unknown as Document;
+
+  return Array.from(document.querySelectorAll('item')).map(item => {
+    const contentHtml = childText(item, 'content:encoded') || childText(item, 'description');
+    const summaryHtml = childText(item, 'description');
+    const guid = childText(item, 'guid');
+    const link = childText(item, 'link') || (/^https?:\/\//.test(guid) ? guid : '');
+
+    return {
+      title: htmlToText(childText(item, 'title')),
+      link: link || undefined,
+      guid: guid || undefined,
+      published: childText(item, 'pubDate', 'dc:date') || undefined,
+      contentHtml: contentHtml || undefined,
+      contentText: htmlToText(contentHtml),
+      summary: summaryHtml ? htmlToText(summaryHtml) : undefined,
+      categories: Array.from(item.children)
+        .filter(child => child.tagName.toLowerCase() === 'category')
+        .map(child => child.textContent?.trim() || '')
+        .filter(Boolean)
+    };
+  });
+}
+
+function parseAtom(xml: string): FeedEntry[] {
+  const document = new DOMParser().parseFromString(xml, 'text/xml') as unknown as Document;
+
+  return Array.from(document.querySelectorAll('entry')).map(entry => {
+    const links = Array.from(entry.children).filter(child => child.tagName.toLowerCase() === 'link');
+    const alternate = links.find(link => (link.getAttribute('rel') || 'alternate') === 'alternate') || links[0];
+    const contentHtml = childText(entry, 'content');
+    const summaryHtml = childText(entry, 'summary');
+
+    return {
+      title: htmlToText(childText(entry, 'title')),
+      link: alternate?.getAttribute('href') || undefined,
+      guid: childText(entry, 'id') || undefined,
+      published: childText(entry, 'published', 'updated') || undefined,
+      contentHtml: contentHtml || summaryHtml || undefined,
+      contentText: htmlToText(contentHtml || summaryHtml),
+      summary: summaryHtml ? htmlToText(summaryHtml) : undefined,
+      categories: Array.from(entry.children)
+        .filter(child => child.tagName.toLowerCase() === 'category')
+        .map(child => child.getAttribute('term') || child.textContent?.trim() || '')
+        .filter(Boolean)
+    };
+  });
+}
+
+function parseJsonFeed(body: string): FeedEntry[] {
+  const feed = JSON.parse(body);
+  if (!Array.isArray(feed.items)) {
+    throw new Error('JSON Feed has no items array');
+  }
+
+  return feed.items.map((item: any) => {
+    const contentHtml: string = item.content_html || '';
+    const contentText: string = item.content_text || htmlToText(contentHtml);
+
+    return {
+      title: (item.title || '').trim(),
+      link: item.url || item.external_url || undefined,
+      guid: item.id !== undefined ? String(item.id) : undefined,
+      published: item.date_published || item.date_modified || undefined,
+      contentHtml: contentHtml || undefined,
+      contentText: contentText.replace(/\s+/g, ' ').trim(),
+      summary: item.summary || undefined,
+      categories: Array.isArray(item.tags) ? item.tags.map(String) : []
+    };
+  });
+}
+
+export function parseFeed(body: string, contentType: string = ''): FeedEntry[] {
+  const format = detectFeedFormat(body, contentType);
+
+  switch (format) {
+    case 'json': return parseJsonFeed(body);
+    case 'atom': return parseAtom(body);
+    case 'rss': return parseRss(body);
+  }
+}
+
+export async function fetchFeed(url: string, fetcher: TextFetcher = fetchText): Promise<FeedEntry[]> {
+  const { body, contentType } = await fetcher(
+    url,
+    'application/feed+json, application/atom+xml, application/rss+xml, application/xml;q=0.9, */*;q=0.8'
+  );
+  return parseFeed(body, contentType);
+}
@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Page } from 'puppeteer';
+import { FetchedText, fetchText } from './static-page';
+
+export type FixtureMode = 'record' | 'replay';
+
+interface RecordedResponse {
+  url: string;
+  method: string;
+  status: number;
+  headers: Record<string, string>;
+  bodyFile: string;
+}
+
+interface FixtureManifest {
+  competitor: string;
+  capturedAt: string;
+  responses: Record<string, RecordedResponse>;
+}
+
+export const FIXTURES_DIR = path.join(process.cwd(), 'fixtures');
+
+// Headers that no longer describe the body once it has been decoded and stored
+const DROPPED_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding'];
+
+const responseKey = (method: string, url: string) => `${method.toUpperCase()} ${url.split('#')[0]}`;
+
+// Captures every response a scrape sees, or serves them back so the scrape runs offline
+export class FixtureSession {
+  private manifest: FixtureManifest;
+  private pending: Promise<void>[] = [];
+
+  private constructor(
+    readonly mode: FixtureMode,
+    readonly dir: string,
+    competitor: string,
+    manifest?: FixtureManifest
+  ) {
+    this.manifest = manifest || {
+      competitor,
+      capturedAt: new Date().toISOString(),
+      responses: {}
+    };
+  }
+
+  static open(mode: FixtureMode, competitor: string, rootDir: string = FIXTURES_DIR): FixtureSession {
+    const dir = path.join(rootDir, competitor);
+    const manifestPath = path.join(dir, 'manifest.json');
+
+    if (mode === 'replay') {
+      if (!fs.existsSync(manifestPath)) {
+        throw new Error(`No fixtures recorded for ${competitor} (expected ${manifestPath})`);
+      }
+      const manifest: FixtureManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      return new FixtureSession(mode, dir, competitor, manifest);
+    }
+
+    // Recording replaces whatever was captured before
+    fs.rmSync(path.join(dir, 'responses'), { recursive: true, force: true });
+    fs.mkdirSync(path.join(dir, 'responses'), { recursive: true });
+    return new FixtureSession(mode, dir, competitor);
+  }
+
+  get capturedAt(): string {
+    return this.manifest.capturedAt;
+  }
+
+  // Wire a Puppeteer page up for recording or replay
+  async attach(page: Page): Promise<void> {
+    if (this.mode === 'record') {
+      page.on('response', response => {
+        const request = response.request();
+        if (request.method() !== 'GET' || (response.status() >= 300 && response.status() < 400)) return;
+
+        this.pending.push(
+          response.buffer()
+            .then(body => this.saveResponse(request.method(), response.url(), response.status(), response.headers(), body))
+            .catch(() => {
+              // Some responses (preflight, evicted bodies) cannot be read back; skip them
+            })
+        );
+      });
+      return;
+    }
+
+    await page.setRequestInterception(true);
+    page.on('request', request => {
+      const recorded = this.manifest.responses[responseKey(request.method(), request.url())];
+      if (!recorded) {
+        request.abort('internetdisconnected').catch(() => {});
+        return;
+      }
+
+      request.respond({
+        status: recorded.status,
+        headers: recorded.headers,
+        body: fs.readFileSync(path.join(this.dir, recorded.bodyFile))
+      }).catch(() => {});
+    });
+  }
+
+  // Plain HTTP fetch that records or replays, used by the feed and static sources
+  async fetchText(url: string, accept?: string): Promise<FetchedText> {
+    if (this.mode === 'replay') {
+      const recorded = this.manifest.responses[responseKey('GET', url)];
+      if (!recorded) {
+        throw new Error(`No recorded response for ${url}`);
+      }
+      return {
+        body: fs.readFileSync(path.join(this.dir, recorded.bodyFile), 'utf8'),
+        contentType: recorded.headers['content-type'] || '',
+        url
+      };
+    }
+
+    const fetched = await fetchText(url, accept);
+    this.saveResponse('GET', url, 200, { 'content-type': fetched.contentType }, Buffer.from(fetched.body));
+    return fetched;
+  }
+
+  // Keep the fully loaded DOM alongside the responses for inspection
+  saveDom(html: string): void {
+    if (this.mode === 'record') {
+      fs.writeFileSync(path.join(this.dir, 'dom.html'), html);
+    }
+  }
+
+  async finish(): Promise<void> {
+    await Promise.all(this.pending);
+    this.pending = [];
+
+    if (this.mode === 'record') {
+      fs.writeFileSync(path.join(this.dir, 'manifest.json'), JSON.stringify(this.manifest, null, 2));
+      console.log(`Recorded ${Object.keys(this.manifest.responses).length} responses to ${this.dir}`);
+    }
+  }
+
+  private saveResponse(method: string, url: string, status: number, headers: Record<string, string>, body: Buffer): void {
+    const key = responseKey(method, url);
+    const bodyFile = path.join('responses', crypto.createHash('sha1').update(key).digest('hex'));
+
+    const keptHeaders: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (!DROPPED_HEADERS.includes(name.toLowerCase())) {
+        keptHeaders[name.toLowerCase()] = value;
+      }
+    }
+
+    fs.writeFileSync(path.join(this.dir, bodyFile), body);
+    this.manifest.responses[key] = { url, method, status, headers: keptHeaders, bodyFile };
+  }
+}
+
+// Golden output path for a competitor's fixtures
+export function goldenPath(competitor: string, rootDir: string = FIXTURES_DIR): string {
+  return path.join(rootDir, competitor, 'expected.json');
+}
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+
+// A competitor's full dataset as stored at one point in time
+export interface Snapshot {
+  competitor: string;
+  capturedAt: string;
+  updates: any[];
+}
+
+// Competitor IDs name directories; anything else could point outside data/history
+export const isValidCompetitorId = (competitor: string) => /^[\w-]+$/.test(competitor);
+
+// Snapshot files are named after their capture time with ':' and '.' replaced, so they sort chronologically
+const toFileName = (capturedAt: string) => `${capturedAt.replace(/[:.]/g, '-')}.json`;
+
+// Append-only, one immutable file per scrape under data/history/<competitor>/
+export class HistoryStore {
+  private historyDir: string;
+
+  constructor(dataDir: string = path.join(process.cwd(), 'data')) {
+    this.historyDir = path.join(dataDir, 'history');
+  }
+
+  private getCompetitorDir(competitor: string): string {
+    if (!isValidCompetitorId(competitor)) {
+      throw new Error(`Invalid competitor ID: ${competitor}`);
+    }
+    return path.join(this.historyDir, competitor);
+  }
+
+  // Write a snapshot unless nothing but lastSeenAt changed since the previous one
+  recordSnapshot(competitor: string, updates: any[], capturedAt: string = new Date().toISOString()): boolean {
+    const previous = this.getLatestSnapshot(competitor);
+    if (previous && fingerprint(previous.updates) === fingerprint(updates)) {
+      return false;
+    }
+
+    const dir = this.getCompetitorDir(competitor);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const snapshot: Snapshot = { competitor, capturedAt, updates };
+    try {
+      // 'wx' refuses to overwrite, keeping history immutable
+      fs.writeFileSync(path.join(dir, toFileName(capturedAt)), JSON.stringify(snapshot, null, 2), { flag: 'wx' });
+    } catch (error: any) {
+      if (error?.code === 'EEXIST') return false;
+      throw error;
+    }
+
+    console.log(`Recorded history snapshot for ${competitor} at ${capturedAt}`);
+    return true;
+  }
+
+  listCompetitors(): string[] {
+    if (!fs.existsSync(this.historyDir)) return [];
+    return fs.readdirSync(this.historyDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort();
+  }
+
+  // Capture times, oldest first
+  listSnapshots(competitor: string): string[] {
+    const dir = this.getCompetitorDir(competitor);
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .map(file => this.readSnapshotFile(path.join(dir, file))?.capturedAt)
+      .filter((capturedAt): capturedAt is string => Boolean(capturedAt));
+  }
+
+  getLatestSnapshot(competitor: string): Snapshot | null {
+    return this.getSnapshotAt(competitor, new Date(8.64e15));
+  }
+
+  // The snapshot that was current at the given time, or null if none existed yet
+  getSnapshotAt(competitor: string, at: Date): Snapshot | null {
+    const dir = this.getCompetitorDir(competitor);
+    if (!fs.existsSync(dir)) return null;
+
+    const files = fs.readdirSync(dir).filter(file => file.endsWith('.json')).sort().reverse();
+    for (const file of files) {
+      const snapshot = this.readSnapshotFile(path.join(dir, file));
+      if (snapshot && new Date(snapshot.capturedAt).getTime() <= at.getTime()) {
+        return snapshot;
+      }
+    }
+
+    return null;
+  }
+
+  // Every competitor's dataset as it stood at the given time
+  getDatasetAt(at: Date, competitors: string[] = this.listCompetitors()): Snapshot[] {
+    return competitors
+      .map(competitor => this.getSnapshotAt(competitor, at))
+      .filter((snapshot): snapshot is Snapshot => snapshot !== null);
+  }
+
+  private readSnapshotFile(filePath: string): Snapshot | null {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      console.error(`Error reading history snapshot ${filePath}:`, error);
+      return null;
+    }
+  }
+}
+
+// Content identity of a dataset, ignoring the lastSeenAt bump every scrape makes
+function fingerprint(updates: any[]): string {
+  return JSON.stringify(updates.map(update => ({ ...update, lastSeenAt: undefined })));
+}
@@ -0,0 +1,513 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { diffWords } from 'diff';
+import { closeBrowser, launchBrowser } from './browser-pool';
+import { ScrapedUpdate } from './changelog-scraper';
+import { loadCompetitorConfigs } from './competitor-registry';
+import { CronError, nextCronRun, parseCron } from './cron';
+import { createDataStore } from './data-store';
+import { extractDetailContent } from './detail-crawler';
+import { TextChange } from './revisions';
+import { getScrapeEventBus } from './scrape-events';
+import { fetchStaticDocument, parseDocument, USER_AGENT } from './static-page';
+
+// How a watched page's text is cleaned up before two checks are compared
+export interface WatchNormalization {
+  ignoreCase?: boolean;
+  ignoreNumbers?: boolean; // Counters, dates and build numbers don't count as changes
+  ignorePatterns?: string[]; // Regular expressions whose matches are removed before comparing
+  minChangedWords?: number; // Smaller changes wait until enough has changed (default 1)
+}
+
+// A page outside the changelogs watched for text changes, e.g. an API versioning page or a homepage hero
+export interface PageWatch {
+  id: string; // Also the dataset its changes are stored under
+  name: string;
+  url: string;
+  selector?: string; // CSS selector scoping the watched text; every match is included
+  xpath?: string; // Alternative to selector; needs the browser source
+  source: 'static' | 'browser';
+  normalize: WatchNormalization;
+  schedule: string; // Cron expression
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  baseline?: string | null; // Text the next check is compared with; reset when the scope changes
+  lastCheckedAt?: string | null;
+  lastChangedAt?: string | null;
+  lastError?: string | null;
+  nextCheckAt?: string | null;
+}
+
+// Fields accepted when creating or editing a watch; null clears the selector or XPath
+export type WatchInput = Partial<Pick<PageWatch, 'id' | 'name' | 'url' | 'source' | 'normalize' | 'schedule' | 'enabled'>> & {
+  selector?: string | null;
+  xpath?: string | null;
+};
+
+export interface WatchCheckResult {
+  watch: PageWatch;
+  changed: boolean;
+  update?: ScrapedUpdate;
+}
+
+// Rejected watch definitions and unknown watches; routes map these to 4xx responses
+export class WatchError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+  }
+}
+
+// Kept out of data/ itself, where every top-level JSON file is a dataset
+const WATCHES_DIR = path.join(process.cwd(), 'data', 'watches');
+const TICK_MS = 30000;
+const MAX_WATCH_TEXT = 20000; // Characters of watched text kept as the baseline
+const DIFF_CONTEXT = 120; // Unchanged characters kept on either side of a change
+const SUMMARY_LENGTH = 400;
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const INPUT_KEYS = ['id', 'name', 'url', 'selector', 'xpath', 'source', 'normalize', 'schedule', 'enabled'];
+const NORMALIZATION_KEYS = ['ignoreCase', 'ignoreNumbers', 'ignorePatterns', 'minChangedWords'];
+// Changing any of these means the old baseline no longer describes the same text
+const SCOPE_KEYS: (keyof WatchInput)[] = ['url', 'selector', 'xpath', 'source', 'normalize'];
+
+const defaultWatchSchedule = () => process.env.LAUNCHRADAR_WATCH_SCHEDULE || '0 * * * *';
+
+function nextCheck(watch: PageWatch, after: Date = new Date()): string | null {
+  return watch.enabled ? nextCronRun(parseCron(watch.schedule), after)?.toISOString() ?? null : null;
+}
+
+function validateWatchInput(input: any, creating: boolean): void {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new WatchError('Watch must be a JSON object');
+  }
+
+  for (const key of Object.keys(input)) {
+    if (!INPUT_KEYS.includes(key)) {
+      throw new WatchError(`Unknown watch field "${key}"`);
+    }
+  }
+
+  if (creating) {
+    if (typeof input.id !== 'string' || !ID_PATTERN.test(input.id)) {
+      throw new WatchError('"id" must be lowercase letters, digits and dashes');
+    }
+    if (input.url === undefined) {
+      throw new WatchError('Missing "url"');
+    }
+  } else if (input.id !== undefined) {
+    throw new WatchError('"id" cannot be changed');
+  }
+
+  if (input.url !== undefined) {
+    let url: URL | null = null;
+    try {
+      url = new URL(input.url);
+    } catch {
+      // Reported below
+    }
+    if (!url || !['http:', 'https:'].includes(url.protocol)) {
+      throw new WatchError('"url" must be an http or https URL');
+    }
+  }
+  for (const key of ['name', 'selector', 'xpath']) {
+    if (input[key] !== undefined && input[key] !== null && (typeof input[key] !== 'string' || !input[key])) {
+      throw new WatchError(`"${key}" must be a non-empty string`);
+    }
+  }
+  if (input.selector && input.xpath) {
+    throw new WatchError('Set "selector" or "xpath", not both');
+  }
+  if (input.source !== undefined && !['static', 'browser'].includes(input.source)) {
+    throw new WatchError('"source" must be "static" or "browser"');
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    throw new WatchError('"enabled" must be true or false');
+  }
+  if (input.schedule !== undefined) {
+    try {
+      parseCron(input.schedule);
+    } catch (error) {
+      throw new WatchError(error instanceof CronError ? error.message : '"schedule" must be a cron expression');
+    }
+  }
+
+  const normalize = input.normalize;
+  if (normalize === undefined) return;
+  if (!normalize || typeof normalize !== 'object' || Array.isArray(normalize)) {
+    throw new WatchError('"normalize" must be an object');
+  }
+  for (const [key, value] of Object.entries(normalize)) {
+    if (!NORMALIZATION_KEYS.includes(key)) {
+      throw new WatchError(`Unknown normalization rule "${key}"`);
+    }
+    if ((key === 'ignoreCase' || key === 'ignoreNumbers') && typeof value !== 'boolean') {
+      throw new WatchError(`"normalize.${key}" must be true or false`);
+    }
+    if (key === 'minChangedWords' && (!Number.isInteger(value) || (value as number) < 1)) {
+      throw new WatchError('"normalize.minChangedWords" must be a positive integer');
+    }
+  }
+  if (normalize.ignorePatterns !== undefined) {
+    if (!Array.isArray(normalize.ignorePatterns)) {
+      throw new WatchError('"normalize.ignorePatterns" must be an array of regular expressions');
+    }
+    for (const pattern of normalize.ignorePatterns) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        throw new WatchError(`Invalid pattern in "normalize.ignorePatterns": ${pattern}`);
+      }
+    }
+  }
+}
+
+// The text two checks are compared on
+export function normalizeWatchText(text: string, rules: WatchNormalization): string {
+  let result = text;
+  for (const pattern of rules.ignorePatterns || []) {
+    result = result.replace(new RegExp(pattern, rules.ignoreCase ? 'gi' : 'g'), ' ');
+  }
+  if (rules.ignoreNumbers) {
+    result = result.replace(/\d+(?:[.,:/-]\d+)*/g, '#');
+  }
+  if (rules.ignoreCase) {
+    result = result.toLowerCase();
+  }
+  return result.replace(/\s+/g, ' ').trim();
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Long unchanged runs are cut down to the text around the changes
+function trimContext(changes: TextChange[]): TextChange[] {
+  return changes.map((change, index) => {
+    if (change.added || change.removed || change.value.length <= DIFF_CONTEXT * 2) return change;
+
+    const head = change.value.slice(0, DIFF_CONTEXT);
+    const tail = change.value.slice(-DIFF_CONTEXT);
+    if (index === 0) return { value: `… ${tail}` };
+    if (index === changes.length - 1) return { value: `${head} …` };
+    return { value: `${head} … ${tail}` };
+  });
+}
+
+// Word-level diff between two checks, or null when the normalized text is the same or fewer than
+// minChangedWords words changed
+export function compareWatchText(before: string, after: string, rules: WatchNormalization): TextChange[] | null {
+  const changedWords = diffWords(normalizeWatchText(before, rules), normalizeWatchText(after, rules))
+    .filter(part => part.added || part.removed)
+    .reduce((total, part) => total + countWords(part.value), 0);
+  if (changedWords === 0 || changedWords < (rules.minChangedWords ?? 1)) return null;
+
+  return trimContext(diffWords(before, after).map(({ value, added, removed }) => ({
+    value,
+    ...(added ? { added } : {}),
+    ...(removed ? { removed } : {})
+  })));
+}
+
+// "Added: … Removed: …" from the lines that differ, for the update's description; the word-level
+// diff is too fragmented to read on its own
+function summarizeChanges(before: string, after: string): string {
+  const lines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+  const was = lines(before);
+  const now = lines(after);
+
+  const added = now.filter(line => !was.includes(line)).join(' … ');
+  const removed = was.filter(line => !now.includes(line)).join(' … ');
+  const summary = [added && `Added: ${added}`, removed && `Removed: ${removed}`].filter(Boolean).join(' ');
+  return summary.length > SUMMARY_LENGTH ? `${summary.slice(0, SUMMARY_LENGTH - 3)}...` : summary;
+}
+
+// The watched text in a parsed page: every selector match, or the whole body
+export function extractWatchedText(document: Document, url: string, selector?: string): string {
+  const roots = selector ? Array.from(document.querySelectorAll(selector)) : [document.body].filter(Boolean);
+  if (roots.length === 0) {
+    throw new Error(`"${selector}" matched nothing on ${url}`);
+  }
+  return roots.map(root => extractDetailContent(root, url).text).join('\n\n').slice(0, MAX_WATCH_TEXT);
+}
+
+// Load the page and read its watched text. XPath scopes are resolved in the browser, since the
+// static parser has no XPath support.
+async function loadWatchedText(watch: PageWatch): Promise<string> {
+  if (watch.source === 'static') {
+    return extractWatchedText(await fetchStaticDocument(watch.url), watch.url, watch.selector);
+  }
+
+  const browser = await launchBrowser();
+  try {
+    const page = await browser.newPage();
+    await page.setUserAgent(USER_AGENT);
+    await page.goto(watch.url, { waitUntil: 'networkidle2', timeout: 30000 });
+
+    if (!watch.xpath) {
+      return extractWatchedText(parseDocument(await page.content()), watch.url, watch.selector);
+    }
+
+    const matches = await page.$$(`::-p-xpath(${watch.xpath})`);
+    if (matches.length === 0) {
+      throw new Error(`"${watch.xpath}" matched nothing on ${watch.url}`);
+    }
+    const fragments = await Promise.all(matches.map(match =>
+      match.evaluate((node: Node) => node.nodeType === 1 ? (node as Element).outerHTML : node.textContent || '')
+    ));
+    // Each match becomes one block of the parsed fragment, like a selector match
+    const document = parseDocument(`<html><body>${fragments.map(html => `<div>${html}</div>`).join('')}</body></html>`);
+    return extractWatchedText(document, watch.url, 'body > div');
+  } finally {
+    await closeBrowser(browser);
+  }
+}
+
+// The update a meaningful change becomes, with the diff as its one revision
+function watchUpdate(watch: PageWatch, before: string, after: string, changes: TextChange[], checkedAt: string): ScrapedUpdate {
+  return {
+    id: `${watch.id}-${crypto.createHash('sha1').update(checkedAt).digest('hex').slice(0, 12)}`,
+    title: `${watch.name} changed`,
+    date: checkedAt.split('T')[0],
+    dateConfidence: 1,
+    type: 'improvement',
+    description: summarizeChanges(before, after),
+    tags: ['Page watch'],
+    confidence: 1,
+    url: watch.url,
+    firstSeenAt: checkedAt,
+    lastSeenAt: checkedAt,
+    revisions: [{ detectedAt: checkedAt, title: watch.name, description: before, changes }],
+    metadata: {
+      sourceSection: `${watch.id}-watch`,
+      sourceUrl: watch.url
+    }
+  };
+}
+
+// Watch definitions and their check state, one file each under data/watches/
+export class WatchStore {
+  constructor(private watchesDir: string = WATCHES_DIR) {}
+
+  list(): PageWatch[] {
+    if (!fs.existsSync(this.watchesDir)) return [];
+
+    return fs.readdirSync(this.watchesDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => this.get(file.replace(/\.json$/, '')))
+      .filter((watch): watch is PageWatch => watch !== null)
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  get(id: string): PageWatch | null {
+    if (!ID_PATTERN.test(id)) return null;
+
+    try {
+      return JSON.parse(fs.readFileSync(this.pathFor(id), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  create(input: WatchInput): PageWatch {
+    validateWatchInput(input, true);
+    const id = input.id!;
+    if (this.get(id)) {
+      throw new WatchError(`Watch ${id} already exists`, 409);
+    }
+    // A watch stores its changes as a dataset of its own, which mustn't overwrite a competitor's
+    if (loadCompetitorConfigs().some(config => config.id === id)) {
+      throw new WatchError(`"${id}" is already a competitor ID`, 409);
+    }
+    if (input.xpath && input.source === 'static') {
+      throw new WatchError('"xpath" needs the "browser" source');
+    }
+
+    const now = new Date().toISOString();
+    const watch: PageWatch = {
+      id,
+      name: input.name || id,
+      url: input.url!,
+      ...(input.selector ? { selector: input.selector } : {}),
+      ...(input.xpath ? { xpath: input.xpath } : {}),
+      source: input.source || (input.xpath ? 'browser' : 'static'),
+      normalize: input.normalize || {},
+      schedule: input.schedule || defaultWatchSchedule(),
+      enabled: input.enabled ?? true,
+      createdAt: now,
+      updatedAt: now,
+      baseline: null
+    };
+    watch.nextCheckAt = nextCheck(watch);
+
+    this.save(watch);
+    console.log(`Created page watch ${id} for ${watch.url}`);
+    return watch;
+  }
+
+  update(id: string, changes: WatchInput): PageWatch {
+    validateWatchInput(changes, false);
+    const watch = this.require(id);
+
+    const rescoped = SCOPE_KEYS.some(key => changes[key] !== undefined && JSON.stringify(changes[key]) !== JSON.stringify(watch[key]));
+    const { selector, xpath, ...rest } = changes;
+    const updated: PageWatch = { ...watch, ...rest, updatedAt: new Date().toISOString() };
+    if (selector !== undefined) updated.selector = selector ?? undefined;
+    if (xpath !== undefined) updated.xpath = xpath ?? undefined;
+    if (updated.selector && updated.xpath) {
+      throw new WatchError('Set "selector" or "xpath", not both');
+    }
+    if (updated.xpath && updated.source === 'static') {
+      throw new WatchError('"xpath" needs the "browser" source');
+    }
+
+    if (rescoped) {
+      updated.baseline = null;
+    }
+    updated.nextCheckAt = nextCheck(updated);
+
+    this.save(updated);
+    return updated;
+  }
+
+  // Stops watching; changes already stored stay in the timeline
+  remove(id: string): void {
+    this.require(id);
+    fs.rmSync(this.pathFor(id), { force: true });
+    console.log(`Removed page watch ${id}`);
+  }
+
+  require(id: string): PageWatch {
+    const watch = this.get(id);
+    if (!watch) {
+      throw new WatchError(`Unknown watch: ${id}`, 404);
+    }
+    return watch;
+  }
+
+  save(watch: PageWatch): void {
+    fs.mkdirSync(this.watchesDir, { recursive: true });
+    fs.writeFileSync(this.pathFor(watch.id), JSON.stringify(watch, null, 2));
+  }
+
+  private pathFor(id: string): string {
+    return path.join(this.watchesDir, `${id}.json`);
+  }
+}
+
+// Checks due watches on their cron schedules inside the server process
+export class PageWatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private checking = new Set<string>();
+
+  constructor(private store: WatchStore = new WatchStore()) {}
+
+  start(): void {
+    if (this.timer) return;
+
+    console.log(`Page watcher started with ${this.store.list().filter(watch => watch.enabled).length} active watches`);
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+    // Never keep a process alive just for the watcher
+    this.timer.unref();
+    setTimeout(() => this.tick(), 0).unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Load the page, compare it with the baseline and store a meaningful change as an update. The first
+  // check of a watch (or of a changed scope) only records the baseline.
+  async check(id: string): Promise<WatchCheckResult> {
+    if (this.checking.has(id)) {
+      throw new WatchError(`Watch ${id} is already being checked`, 409);
+    }
+    this.checking.add(id);
+
+    const dataStore = createDataStore();
+    const startTime = Date.now();
+    try {
+      const watch = this.store.require(id);
+      const checkedAt = new Date().toISOString();
+      watch.lastCheckedAt = checkedAt;
+      watch.nextCheckAt = nextCheck(watch);
+
+      let text: string;
+      try {
+        text = await loadWatchedText(watch);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Page watch ${id} failed:`, message);
+        watch.lastError = message;
+        this.store.save(watch);
+        await dataStore.storeFailure(id, message, Date.now() - startTime);
+        return { watch, changed: false };
+      }
+
+      watch.lastError = null;
+      const before = watch.baseline;
+      const changes = before ? compareWatchText(before, text, watch.normalize) : null;
+      const existing = await dataStore.retrieve(id);
+
+      if (!changes) {
+        // Changes below minChangedWords keep the old baseline, so they add up until they're reported
+        if (!before || normalizeWatchText(before, watch.normalize) === normalizeWatchText(text, watch.normalize)) {
+          watch.baseline = text;
+        }
+        this.store.save(watch);
+        // The first check creates the dataset, so the watch is listed before anything changes
+        if (!existing) {
+          await dataStore.store(id, { updates: [] }, Date.now() - startTime);
+        }
+        return { watch, changed: false };
+      }
+
+      const update = watchUpdate(watch, before!, text, changes, checkedAt);
+      Object.assign(watch, { baseline: text, lastChangedAt: checkedAt });
+      this.store.save(watch);
+      await dataStore.store(id, { updates: [update, ...(existing?.updates || [])] }, Date.now() - startTime);
+
+      console.log(`Page watch ${id}: ${watch.url} changed`);
+      getScrapeEventBus().publish({
+        type: 'page-changed',
+        competitor: id,
+        message: `${watch.name} changed`,
+        data: { url: watch.url, updateId: update.id }
+      });
+      return { watch, changed: true, update };
+    } finally {
+      this.checking.delete(id);
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = Date.now();
+      const due = this.store.list().filter(watch =>
+        watch.enabled && watch.nextCheckAt && Date.parse(watch.nextCheckAt) <= now && !this.checking.has(watch.id)
+      );
+
+      for (const watch of due) {
+        await this.check(watch.id);
+      }
+    } catch (error) {
+      console.error('Page watcher tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
+
+// One watcher per server process; kept on globalThis so dev-mode reloads don't start a second timer
+const globalForWatcher = globalThis as unknown as { launchRadarPageWatcher?: PageWatcher };
+
+export function getPageWatcher(): PageWatcher {
+  globalForWatcher.launchRadarPageWatcher ??= new PageWatcher();
+  return globalForWatcher.launchRadarPageWatcher;
+}
@@ -0,0 +1,144 @@
+import { USER_AGENT } from './static-page';
+
+// Where on the page an entry's permalink came from, most specific first
+export type PermalinkSource = 'title-link' | 'heading-anchor' | 'entry-link' | 'entry-anchor';
+
+export interface Permalink {
+  url: string; // Absolute
+  source: PermalinkSource;
+}
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+// Links an entry uses to point at its own post
+const ENTRY_LINK_SELECTOR = 'a[rel~="bookmark"], a[itemprop="url"], [data-permalink], a[class*="permalink"]';
+const ENTRY_LINK_TEXT = /^(read more|read (the )?post|permalink|continue reading|view (post|entry|details))\b/i;
+
+const CHECK_TIMEOUT_MS = 10000;
+const CHECK_CACHE_MS = 24 * 60 * 60 * 1000;
+
+// example.com, www.example.com and docs.example.com all count as the same site
+function siteOf(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, '').split('.').slice(-2).join('.');
+}
+
+// Resolve an href against the page it appeared on. Only http(s) links on the page's own site
+// qualify: a title linking off to GitHub or a partner's blog isn't the entry's permalink.
+export function resolvePermalink(href: string | null | undefined, pageUrl: string): string | null {
+  const trimmed = href?.trim();
+  if (!trimmed || trimmed === '#' || /^(javascript|mailto|tel):/i.test(trimmed)) return null;
+
+  try {
+    const resolved = new URL(trimmed, pageUrl);
+    const page = new URL(pageUrl);
+    if (!['http:', 'https:'].includes(resolved.protocol)) return null;
+    if (siteOf(resolved.hostname) !== siteOf(page.hostname)) return null;
+    return resolved.toString();
+  } catch {
+    return null;
+  }
+}
+
+// A link into the listing page itself, e.g. https://example.com/changelog#2025-07-10
+export function isSamePageLink(url: string, pageUrl: string): boolean {
+  try {
+    const link = new URL(url);
+    const page = new URL(pageUrl);
+    return link.origin === page.origin && link.pathname.replace(/\/+$/, '') === page.pathname.replace(/\/+$/, '');
+  } catch {
+    return false;
+  }
+}
+
+// A fragment only deep-links if the page has an element it can scroll to
+function anchorExists(document: Document | null, fragment: string): boolean {
+  if (!document || !fragment) return false;
+  const id = decodeURIComponent(fragment);
+  return Boolean(document.getElementById(id) || document.querySelector(`a[name="${id.replace(/["\\]/g, '\\$&')}"]`));
+}
+
+function linkFrom(element: Element | null, pageUrl: string, source: PermalinkSource): Permalink | null {
+  if (!element) return null;
+
+  const url = resolvePermalink(element.getAttribute('data-permalink') || element.getAttribute('href'), pageUrl);
+  if (!url) return null;
+
+  const { hash } = new URL(url);
+  if (isSamePageLink(url, pageUrl) && !anchorExists(element.ownerDocument, hash.slice(1))) return null;
+  return { url, source };
+}
+
+function anchorFrom(element: Element | null, pageUrl: string, source: PermalinkSource): Permalink | null {
+  const id = element?.getAttribute('id') || element?.getAttribute('name');
+  if (!id) return null;
+
+  const url = new URL(pageUrl);
+  url.hash = id;
+  return { url: url.toString(), source };
+}
+
+// The entry's own URL: a link on its title, an anchor on its heading, then a "read more" style link
+// or the entry's own id. Same-page anchors are checked against the document so a stale #fragment
+// never gets stored.
+export function findPermalink(entry: Element, title: Element | null, pageUrl: string): Permalink | null {
+  if (title) {
+    const titleLink = title.closest('a[href]') || title.querySelector('a[href]');
+    // A link wrapping the whole entry is the entry's link, checked below
+    if (titleLink && entry.contains(titleLink)) {
+      const link = linkFrom(titleLink, pageUrl, 'title-link');
+      if (link) return link;
+    }
+
+    const heading = title.closest(HEADING_SELECTOR) || title;
+    const anchor = [title, heading, heading.querySelector('[id], a[name]')]
+      .map(element => anchorFrom(element, pageUrl, 'heading-anchor'))
+      .find(Boolean);
+    if (anchor) return anchor;
+  }
+
+  const entryLink = entry.closest('a[href]')
+    || entry.querySelector(ENTRY_LINK_SELECTOR)
+    || Array.from(entry.querySelectorAll('a[href]')).find(link => ENTRY_LINK_TEXT.test(link.textContent?.trim() || ''))
+    || null;
+  return linkFrom(entryLink, pageUrl, 'entry-link') || anchorFrom(entry, pageUrl, 'entry-anchor');
+}
+
+// Confirms permalinks to other pages resolve before they're stored. Results are cached for a day
+// so a competitor's permalinks are only requested again once they might have moved.
+export class LinkChecker {
+  private cache: Map<string, { ok: boolean; checkedAt: number }> = new Map();
+
+  async check(url: string): Promise<boolean> {
+    const cached = this.cache.get(url);
+    if (cached && Date.now() - cached.checkedAt < CHECK_CACHE_MS) return cached.ok;
+
+    const ok = await this.request(url);
+    this.cache.set(url, { ok, checkedAt: Date.now() });
+    return ok;
+  }
+
+  private async request(url: string): Promise<boolean> {
+    try {
+      let response = await this.send(url, 'HEAD');
+      // Some servers refuse HEAD outright
+      if (response.status === 405 || response.status === 501) {
+        response = await this.send(url, 'GET');
+      }
+      return response.status < 400;
+    } catch {
+      return false;
+    }
+  }
+
+  private async send(url: string, method: 'HEAD' | 'GET'): Promise<Response> {
+    const response = await fetch(url, {
+      method,
+      headers: { 'User-Agent': USER_AGENT },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(CHECK_TIMEOUT_MS)
+    });
+    await response.body?.cancel();
+    return response;
+  }
+}
+
+export const linkChecker = new LinkChecker();
@@ -0,0 +1,142 @@
+import { PricingPageRules } from './competitor-registry';
+import { findBoilerplateContext } from './content-classifier';
+
+// One plan as listed on a pricing page. Prices are per month, as pricing pages show them; an annual-only
+// "$96/year" becomes 8.
+export interface PricingPlan {
+  name: string;
+  monthly: number | null; // Billed monthly
+  annual: number | null; // Billed annually
+  currency: string | null; // ISO code
+  perSeat: boolean; // Priced per user, seat or member
+  free: boolean;
+  custom: boolean; // "Contact sales" with no listed price
+  limits: string[]; // Seat and usage limits, e.g. "Up to 10 users", "100 GB bandwidth"
+  features: string[];
+}
+
+const DEFAULT_NAME_SELECTOR = 'h1, h2, h3, h4, h5, [class*="name"], [class*="title"]';
+const DEFAULT_PRICE_SELECTOR = '[class*="price"], [data-price]';
+const DEFAULT_FEATURE_SELECTOR = 'li';
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6, [class*="name"], [class*="title"]';
+const MAX_PLANS = 8;
+const BILLING_CONTEXT = 80; // Characters after a price that can say how it's billed
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'US$': 'USD', 'A$': 'AUD', 'C$': 'CAD', '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR'
+};
+// "$12", "€ 9.50", "US$1,200" or "12 USD"
+const PRICE_PATTERN = /(US\$|A\$|C\$|[$€£¥₹])\s?(\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)|(\d+(?:\.\d{1,2})?)\s?(USD|EUR|GBP|CAD|AUD)\b/g;
+const FREE_PATTERN = /\bfree\b(?!\s+trial)/i;
+const CUSTOM_PATTERN = /contact (sales|us)|custom (pricing|quote)|get a quote|let['’]s talk|talk to (sales|us)/i;
+const ANNUAL_PATTERN = /annual|yearly|per year|a year|\/\s*(yr|year)\b/i;
+const PER_YEAR_PATTERN = /per year|a year|\/\s*(yr|year)\b/i;
+const PER_MONTH_PATTERN = /per month|a month|\/\s*mo(nth)?\b/i;
+const PER_SEAT_PATTERN = /per (user|seat|member|editor|person)|\/\s*(user|seat|member|editor)\b/i;
+const LIMIT_PATTERN = /\b(up to|unlimited|limited to|max(imum)?)\b|\b\d[\d,.]*\s*(k|m)?\s*(seats?|users?|members?|editors?|projects?|workspaces?|sites?|pages?|requests?|api calls|invocations|events|builds|deployments|minutes|hours|credits|emails|contacts|subscribers|gb|tb|mb)\b/i;
+
+const textOf = (element: Element) => (element.textContent || '').replace(/\s+/g, ' ').trim();
+
+interface ParsedPrice {
+  amount: number; // Per month
+  currency: string;
+  annual: boolean;
+  perSeat: boolean;
+}
+
+// Every price in a block of text, with how it's billed read from the words right after it
+export function parsePrices(text: string, defaultCurrency?: string): ParsedPrice[] {
+  const matches = Array.from(text.matchAll(PRICE_PATTERN));
+
+  return matches.map((match, index) => {
+    const end = (match.index ?? 0) + match[0].length;
+    const next = matches[index + 1]?.index ?? text.length;
+    const context = text.slice(end, Math.min(next, end + BILLING_CONTEXT));
+
+    const currency = match[1] ? CURRENCY_SYMBOLS[match[1]] : match[4] || defaultCurrency || 'USD';
+    const amount = Number((match[2] || match[3]).replace(/,/g, ''));
+    const perYear = PER_YEAR_PATTERN.test(context) && !PER_MONTH_PATTERN.test(context);
+
+    return {
+      amount: perYear ? Math.round((amount / 12) * 100) / 100 : amount,
+      currency,
+      annual: ANNUAL_PATTERN.test(context),
+      perSeat: PER_SEAT_PATTERN.test(context)
+    };
+  });
+}
+
+const hasPriceSignal = (text: string) =>
+  new RegExp(PRICE_PATTERN.source).test(text) || FREE_PATTERN.test(text) || CUSTOM_PATTERN.test(text);
+
+// Plan cards are sibling elements that each carry a heading and a price (or "Free" / "Contact sales").
+// The container with the most such children wins; on a tie the innermost one does.
+export function findPlanCards(root: ParentNode): Element[] {
+  let best: Element[] = [];
+
+  for (const container of Array.from(root.querySelectorAll('*'))) {
+    const cards = Array.from(container.children).filter(child =>
+      child.querySelector(HEADING_SELECTOR) && hasPriceSignal(textOf(child))
+    );
+    if (cards.length < 2 || cards.length > MAX_PLANS || cards.length < best.length) continue;
+    if (findBoilerplateContext(container)) continue;
+    best = cards;
+  }
+
+  return best;
+}
+
+export function extractPlan(card: Element, rules: Pick<PricingPageRules, 'selectors' | 'currency'>): PricingPlan | null {
+  const selectors = rules.selectors || {};
+  const nameEl = card.querySelector(selectors.name || DEFAULT_NAME_SELECTOR);
+  const name = nameEl ? textOf(nameEl) : textOf(card).split(/[$€£¥₹\d]/)[0].trim();
+  if (!name) return null;
+
+  const bullets = Array.from(card.querySelectorAll(selectors.features || DEFAULT_FEATURE_SELECTOR))
+    .map(textOf)
+    .filter(Boolean);
+
+  // Prices sit outside the feature list; "$10 credit included" in a bullet isn't the plan's price
+  const cardText = bullets.reduce((text, bullet) => text.replace(bullet, ' '), textOf(card));
+  const priceEls = Array.from(card.querySelectorAll(selectors.price || DEFAULT_PRICE_SELECTOR));
+  const priceText = priceEls.length > 0 ? priceEls.map(textOf).join(' ') : cardText;
+
+  const prices = parsePrices(priceText, rules.currency);
+  const monthly = prices.find(price => !price.annual) || null;
+  // "$8/mo billed annually" often sits away from the price itself
+  const annual = prices.find(price => price.annual)
+    || (prices.length === 1 && ANNUAL_PATTERN.test(cardText) && !/billed monthly/i.test(cardText) ? prices[0] : null);
+
+  const listed = [monthly, annual].filter((price): price is ParsedPrice => price !== null);
+  const custom = listed.length === 0 && CUSTOM_PATTERN.test(cardText);
+  const limits = bullets.filter(bullet => LIMIT_PATTERN.test(bullet));
+
+  return {
+    name,
+    monthly: monthly && monthly !== annual ? monthly.amount : null,
+    annual: annual ? annual.amount : null,
+    currency: listed[0]?.currency || null,
+    perSeat: listed.some(price => price.perSeat),
+    free: listed.length > 0 ? listed.every(price => price.amount === 0) : !custom && FREE_PATTERN.test(priceText),
+    custom,
+    limits,
+    features: bullets.filter(bullet => !limits.includes(bullet))
+  };
+}
+
+// The plans on a pricing page, from the configured plan selector or the detected plan cards
+export function extractPricing(document: ParentNode, rules: Pick<PricingPageRules, 'selectors' | 'currency'>): PricingPlan[] {
+  const cards = rules.selectors?.plan
+    ? Array.from(document.querySelectorAll(rules.selectors.plan))
+    : findPlanCards(document);
+
+  const plans: PricingPlan[] = [];
+  for (const card of cards) {
+    const plan = extractPlan(card, rules);
+    // Monthly and annual tabs often render every plan twice
+    if (plan && !plans.some(existing => existing.name.toLowerCase() === plan.name.toLowerCase())) {
+      plans.push(plan);
+    }
+  }
+  return plans;
+}
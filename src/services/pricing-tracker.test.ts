@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PricingPlan } from './pricing-extractor';
+import { checkPricing, PricingSnapshot } from './pricing-tracker';
+
+function plan(name: string, monthly: number): PricingPlan {
+  return { name, monthly, annual: null, currency: 'USD', perSeat: false, free: monthly === 0, custom: false, limits: [], features: [] };
+}
+
+function snapshot(plans: PricingPlan[], missingPlans?: PricingPlan[]): PricingSnapshot {
+  return { competitor: 'acme', capturedAt: '2026-10-18T06:00:00.000Z', url: 'https://acme.test/pricing', plans, missingPlans };
+}
+
+const listed = [plan('Free', 0), plan('Pro', 10), plan('Team', 20)];
+const partial = [plan('Free', 0), plan('Pro', 10)];
+
+describe('checkPricing', () => {
+  it('holds back a removal while the page lists fewer plans than before', () => {
+    const { changes, missingPlans } = checkPricing(snapshot(listed), partial);
+
+    assert.deepEqual(changes, []);
+    assert.deepEqual(missingPlans.map(missing => missing.name), ['Team']);
+  });
+
+  it('reports the removal when the next reading still lacks the plan', () => {
+    const { changes, missingPlans } = checkPricing(snapshot(partial, [plan('Team', 20)]), partial);
+
+    assert.deepEqual(changes.map(change => [change.kind, change.plan]), [['plan-removed', 'Team']]);
+    assert.deepEqual(missingPlans, []);
+  });
+
+  it('drops the pending removal when the plan is listed again', () => {
+    const { changes, missingPlans } = checkPricing(snapshot(partial, [plan('Team', 20)]), [...partial, plan('Team', 25)]);
+
+    assert.deepEqual(changes.map(change => [change.kind, change.plan]), [['price-increase', 'Team']]);
+    assert.deepEqual(missingPlans, []);
+  });
+
+  it('reports a removal right away when as many plans are listed', () => {
+    const { changes } = checkPricing(snapshot(listed), [...partial, plan('Business', 20)]);
+
+    assert.deepEqual(changes.map(change => [change.kind, change.plan]), [['plan-removed', 'Team']]);
+  });
+});
@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ScrapedUpdate } from './changelog-scraper';
+import { isValidCompetitorId } from './history-store';
+import { PricingPlan } from './pricing-extractor';
+
+// A competitor's plans as extracted at one point in time
+export interface PricingSnapshot {
+  competitor: string;
+  capturedAt: string;
+  url: string;
+  plans: PricingPlan[];
+  // Plans gone from a page that listed fewer plans than before, which may just be a partial extraction.
+  // Their removal is reported if they're still missing at the next check.
+  missingPlans?: PricingPlan[];
+}
+
+export type PricingChangeKind = 'price-increase' | 'plan-removed' | 'limits-changed';
+
+export interface PricingChange {
+  kind: PricingChangeKind;
+  plan: string;
+  summary: string;
+}
+
+// Snapshot files are named after their capture time with ':' and '.' replaced, so they sort chronologically
+const toFileName = (capturedAt: string) => `${capturedAt.replace(/[:.]/g, '-')}.json`;
+const planKey = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+function formatPrice(amount: number, plan: PricingPlan): string {
+  const price = new Intl.NumberFormat('en-US', { style: 'currency', currency: plan.currency || 'USD' }).format(amount);
+  return `${price}${plan.perSeat ? ' per seat' : ''}`;
+}
+
+// What moved between two snapshots that sales should hear about: prices going up (including a free plan
+// becoming paid), plans disappearing and seat or usage limits changing. Cuts and new plans only show
+// up in the snapshots.
+export function comparePricing(previous: PricingPlan[], current: PricingPlan[]): PricingChange[] {
+  const changes: PricingChange[] = [];
+  const currentPlans = new Map(current.map(plan => [planKey(plan.name), plan]));
+
+  for (const before of previous) {
+    const after = currentPlans.get(planKey(before.name));
+    if (!after) {
+      changes.push({ kind: 'plan-removed', plan: before.name, summary: `The ${before.name} plan is no longer listed` });
+      continue;
+    }
+
+    const increases: string[] = [];
+    for (const billing of ['monthly', 'annual'] as const) {
+      const was = before[billing];
+      const now = after[billing];
+      if (was === null || now === null || now <= was || before.currency !== after.currency) continue;
+      increases.push(`${formatPrice(was, before)} → ${formatPrice(now, after)} per month, billed ${billing === 'monthly' ? 'monthly' : 'annually'}`);
+    }
+    if (before.free && !after.free && !after.custom && (after.monthly ?? after.annual) !== null) {
+      increases.push(`Free → ${formatPrice((after.monthly ?? after.annual)!, after)} per month`);
+    }
+    if (increases.length > 0) {
+      changes.push({ kind: 'price-increase', plan: after.name, summary: `${after.name}: ${increases.join('; ')}` });
+    }
+
+    const removedLimits = before.limits.filter(limit => !after.limits.includes(limit));
+    const addedLimits = after.limits.filter(limit => !before.limits.includes(limit));
+    if (removedLimits.length > 0 || addedLimits.length > 0) {
+      const parts = [
+        ...removedLimits.map(limit => `was "${limit}"`),
+        ...addedLimits.map(limit => `now "${limit}"`)
+      ];
+      changes.push({ kind: 'limits-changed', plan: after.name, summary: `${after.name} limits: ${parts.join('; ')}` });
+    }
+  }
+
+  return changes;
+}
+
+// Compare a fresh read of the pricing page with the latest snapshot. Removals are only reported right
+// away when the page lists as many plans as before; otherwise they wait for the next check to confirm them.
+export function checkPricing(previous: PricingSnapshot | null, plans: PricingPlan[]): { changes: PricingChange[]; missingPlans: PricingPlan[] } {
+  if (!previous) return { changes: [], missingPlans: [] };
+
+  const pending = previous.missingPlans || [];
+  const baseline = [...previous.plans, ...pending];
+  const complete = plans.length >= baseline.length;
+  const pendingKeys = new Set(pending.map(plan => planKey(plan.name)));
+
+  const changes: PricingChange[] = [];
+  const missingPlans: PricingPlan[] = [];
+  for (const change of comparePricing(baseline, plans)) {
+    if (change.kind === 'plan-removed' && !complete && !pendingKeys.has(planKey(change.plan))) {
+      missingPlans.push(baseline.find(plan => plan.name === change.plan)!);
+    } else {
+      changes.push(change);
+    }
+  }
+  return { changes, missingPlans };
+}
+
+const CHANGE_TITLES: Record<PricingChangeKind, (plan: string) => string> = {
+  'price-increase': plan => `${plan} plan price increased`,
+  'plan-removed': plan => `${plan} plan removed`,
+  'limits-changed': plan => `${plan} plan limits changed`
+};
+
+const pricingIdPrefix = (competitor: string) => `${competitor}-pricing-`;
+
+// Pricing alerts sit in the changelog dataset but never come from the changelog page itself
+export function isPricingUpdate(competitor: string, update: { id?: string }): boolean {
+  return Boolean(update.id?.startsWith(pricingIdPrefix(competitor)));
+}
+
+// Synthetic high-impact updates for the changes, dated when the pricing page was checked
+export function pricingUpdates(competitor: string, url: string, capturedAt: string, changes: PricingChange[]): ScrapedUpdate[] {
+  return changes.map(change => ({
+    // Fixed IDs: every one of these links to the same pricing page, which would otherwise key them all alike
+    id: `${pricingIdPrefix(competitor)}${crypto.createHash('sha1').update(`${capturedAt}|${change.kind}|${change.plan}`).digest('hex').slice(0, 12)}`,
+    title: CHANGE_TITLES[change.kind](change.plan),
+    date: capturedAt.split('T')[0],
+    dateConfidence: 1,
+    type: 'pricing',
+    impact: 'high',
+    description: change.summary,
+    tags: ['Pricing'],
+    confidence: 0.9,
+    url,
+    firstSeenAt: capturedAt,
+    lastSeenAt: capturedAt,
+    metadata: {
+      sourceSection: `${competitor}-pricing`,
+      sourceUrl: url,
+      affectedServices: [change.plan]
+    }
+  }));
+}
+
+// Append-only pricing snapshots, one immutable file per change under data/pricing/<competitor>/
+export class PricingStore {
+  private pricingDir: string;
+
+  constructor(dataDir: string = path.join(process.cwd(), 'data')) {
+    this.pricingDir = path.join(dataDir, 'pricing');
+  }
+
+  private getCompetitorDir(competitor: string): string {
+    if (!isValidCompetitorId(competitor)) {
+      throw new Error(`Invalid competitor ID: ${competitor}`);
+    }
+    return path.join(this.pricingDir, competitor);
+  }
+
+  // Write a snapshot unless the plans (and those awaiting a removal check) are identical to the latest one
+  recordSnapshot(snapshot: PricingSnapshot): boolean {
+    const previous = this.getLatestSnapshot(snapshot.competitor);
+    const state = (entry: PricingSnapshot) => JSON.stringify([entry.plans, entry.missingPlans || []]);
+    if (previous && state(previous) === state(snapshot)) {
+      return false;
+    }
+
+    const dir = this.getCompetitorDir(snapshot.competitor);
+    fs.mkdirSync(dir, { recursive: true });
+    try {
+      // 'wx' refuses to overwrite, keeping pricing history immutable
+      fs.writeFileSync(path.join(dir, toFileName(snapshot.capturedAt)), JSON.stringify(snapshot, null, 2), { flag: 'wx' });
+    } catch (error: any) {
+      if (error?.code === 'EEXIST') return false;
+      throw error;
+    }
+
+    console.log(`Recorded pricing snapshot for ${snapshot.competitor} at ${snapshot.capturedAt}`);
+    return true;
+  }
+
+  listCompetitors(): string[] {
+    if (!fs.existsSync(this.pricingDir)) return [];
+    return fs.readdirSync(this.pricingDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort();
+  }
+
+  // Every snapshot for a competitor, oldest first
+  listSnapshots(competitor: string): PricingSnapshot[] {
+    const dir = this.getCompetitorDir(competitor);
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .map(file => this.readSnapshotFile(path.join(dir, file)))
+      .filter((snapshot): snapshot is PricingSnapshot => snapshot !== null);
+  }
+
+  getLatestSnapshot(competitor: string): PricingSnapshot | null {
+    return this.getSnapshotAt(competitor, new Date(8.64e15));
+  }
+
+  // The plans that were listed at the given time, or null if the page hadn't been checked yet
+  getSnapshotAt(competitor: string, at: Date): PricingSnapshot | null {
+    const snapshots = this.listSnapshots(competitor);
+    for (let i = snapshots.length - 1; i >= 0; i--) {
+      if (new Date(snapshots[i].capturedAt).getTime() <= at.getTime()) {
+        return snapshots[i];
+      }
+    }
+    return null;
+  }
+
+  private readSnapshotFile(filePath: string): PricingSnapshot | null {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      console.error(`Error reading pricing snapshot ${filePath}:`, error);
+      return null;
+    }
+  }
+}
+
+// Record the pricing snapshot a scrape carried, once the dataset holding its pricing updates is stored.
+// Until then the next check compares against the old snapshot and reports the same changes again.
+export function recordPricingSnapshot(data: { pricingSnapshot?: PricingSnapshot }, store: PricingStore = new PricingStore()): void {
+  if (!data.pricingSnapshot) return;
+  try {
+    store.recordSnapshot(data.pricingSnapshot);
+  } catch (error) {
+    console.error(`Error recording pricing snapshot for ${data.pricingSnapshot.competitor}:`, error);
+  }
+}
@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+import { ScrapedData, ScrapedUpdate } from './changelog-scraper';
+import { DataStore, StoredData } from './data-store';
+import { DEFAULT_QUALITY_THRESHOLDS, evaluateQuality, QuarantineError, QuarantineStore } from './quality-gate';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+const LAST_SCRAPE = '2026-10-18T06:00:00.000Z';
+
+function entry(index: number, lastSeenAt: string): ScrapedUpdate {
+  const day = String((index % 28) + 1).padStart(2, '0');
+  return {
+    title: `Release ${index}`,
+    date: `2026-0${(index % 9) + 1}-${day}`,
+    type: 'feature',
+    description: `Release ${index} ships improvements to area ${index}`,
+    tags: [],
+    confidence: 0.9,
+    url: `https://acme.test/changelog/release-${index}`,
+    firstSeenAt: lastSeenAt,
+    lastSeenAt
+  };
+}
+
+const range = (from: number, to: number) => Array.from({ length: to - from }, (_, i) => from + i);
+
+function stored(updates: ScrapedUpdate[]): StoredData {
+  return { competitor: 'acme', updates, lastScraped: LAST_SCRAPE, success: true };
+}
+
+// The merged dataset a scrape hands back: what it extracted plus every stored entry
+function scraped(previous: ScrapedUpdate[], extracted: ScrapedUpdate[]): ScrapedData {
+  const titles = new Set(extracted.map(update => update.title));
+  return {
+    competitor: 'acme',
+    updates: [...extracted, ...previous.filter(update => !titles.has(update.title))],
+    lastScraped: NOW.toISOString(),
+    extracted
+  };
+}
+
+describe('evaluateQuality', () => {
+  const previous = range(0, 40).map(index => entry(index, LAST_SCRAPE));
+
+  it('quarantines a scrape that finds far fewer entries than the last one', () => {
+    const extracted = range(0, 3).map(index => entry(index, NOW.toISOString()));
+    const verdict = evaluateQuality('acme', stored(previous), scraped(previous, extracted), {}, DEFAULT_QUALITY_THRESHOLDS, NOW);
+
+    assert.equal(verdict.passed, false);
+    assert.equal(verdict.metrics.count, 3);
+    assert.equal(verdict.metrics.previousCount, 40);
+    assert.match(verdict.problems[0], /only 3 entries where the last scrape found 40/);
+  });
+
+  it('passes a scrape that finds the same entries again', () => {
+    const extracted = range(0, 40).map(index => entry(index, NOW.toISOString()));
+    const verdict = evaluateQuality('acme', stored(previous), scraped(previous, extracted), {}, DEFAULT_QUALITY_THRESHOLDS, NOW);
+
+    assert.equal(verdict.passed, true);
+    assert.equal(verdict.metrics.overlap, 1);
+  });
+
+  it('leaves out stored entries that had already dropped off the page', () => {
+    const older = range(100, 300).map(index => entry(index, '2026-01-01T06:00:00.000Z'));
+    const extracted = range(0, 40).map(index => entry(index, NOW.toISOString()));
+    const verdict = evaluateQuality('acme', stored([...previous, ...older]), scraped([...previous, ...older], extracted), {}, DEFAULT_QUALITY_THRESHOLDS, NOW);
+
+    assert.equal(verdict.passed, true);
+    assert.equal(verdict.metrics.previousCount, 40);
+  });
+
+  it('measures the share dated today on the extracted entries only', () => {
+    const extracted = range(0, 40).map(index => ({ ...entry(index, NOW.toISOString()), date: '2026-10-19' }));
+    const verdict = evaluateQuality('acme', stored(previous), scraped(previous, extracted), {}, DEFAULT_QUALITY_THRESHOLDS, NOW);
+
+    assert.equal(verdict.metrics.datedTodayShare, 1);
+    assert.equal(verdict.passed, false);
+  });
+});
+
+describe('QuarantineStore.approve', () => {
+  const quarantineDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quarantine-'));
+  after(() => fs.rmSync(quarantineDir, { recursive: true, force: true }));
+
+  // Just enough of a data store to hold one competitor's dataset
+  function memoryStore(initial: StoredData | null) {
+    const state = { current: initial, stores: 0 };
+    const store = {
+      retrieve: async () => state.current,
+      store: async (competitor: string, data: any) => {
+        state.stores++;
+        state.current = { competitor, updates: data.updates, lastScraped: new Date().toISOString(), success: true };
+      }
+    } as unknown as DataStore;
+    return { state, store };
+  }
+
+  function quarantine(store: DataStore) {
+    const quarantined = new QuarantineStore(store, quarantineDir);
+    const extracted = range(0, 3).map(index => entry(index, NOW.toISOString()));
+    return { quarantined, entry: quarantined.add({ competitor: 'acme', problems: ['too few'], metrics: {} as any, durationMs: 10, data: scraped([], extracted) }) };
+  }
+
+  it('stores a result when nothing newer was stored since', async () => {
+    const { state, store } = memoryStore({ ...stored([]), lastScraped: new Date(Date.now() - 1000).toISOString() });
+    const { quarantined, entry: held } = quarantine(store);
+
+    const approved = await quarantined.approve(held.id);
+
+    assert.equal(approved.status, 'approved');
+    assert.equal(state.stores, 1);
+    assert.equal(state.current?.updates.length, 3);
+  });
+
+  it('refuses a result that a later scrape has superseded', async () => {
+    const { state, store } = memoryStore(null);
+    const { quarantined, entry: held } = quarantine(store);
+    state.current = { ...stored([]), lastScraped: new Date(Date.now() + 1000).toISOString() };
+
+    await assert.rejects(quarantined.approve(held.id), (error: unknown) => error instanceof QuarantineError && error.status === 409);
+    assert.equal(state.stores, 0);
+    assert.equal(quarantined.get(held.id)?.status, 'pending');
+  });
+});
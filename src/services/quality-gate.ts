@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ScrapedData } from './changelog-scraper';
+import { CompetitorConfig, QualityThresholds } from './competitor-registry';
+import { DataStore, StoredData } from './data-store';
+import { isPricingUpdate, recordPricingSnapshot } from './pricing-tracker';
+import { DuplicateIndex } from './update-identity';
+
+// Used for any threshold a competitor config doesn't override under "qualityGate"
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  minCountRatio: 0.5,
+  maxCountRatio: 3,
+  minOverlap: 0.3,
+  maxFallbackShare: 0.5,
+  maxDatedTodayShare: 0.5,
+  minComparableEntries: 5
+};
+
+// Below this many entries a share of fallback or same-day entries is too noisy to act on
+const MIN_SHARE_SAMPLE = 5;
+const QUARANTINE_DIR = path.join(process.cwd(), 'data', 'quarantine');
+
+export interface QualityMetrics {
+  previousCount: number; // Entries the last full scrape found
+  count: number; // Entries this scrape found
+  countRatio: number | null; // null when the last scrape found too few entries to compare against
+  overlap: number | null; // Matched entries over the smaller of the two scrapes
+  fallbackShare: number | null; // null when the scraper didn't report extraction counts
+  datedTodayShare: number;
+}
+
+export interface QualityVerdict {
+  passed: boolean;
+  problems: string[]; // One line per threshold crossed
+  metrics: QualityMetrics;
+}
+
+export type QuarantineStatus = 'pending' | 'approved' | 'rejected';
+
+// A scrape result held back from storage until someone reviews it
+export interface QuarantinedResult {
+  id: string;
+  competitor: string;
+  runId?: string;
+  quarantinedAt: string;
+  status: QuarantineStatus;
+  problems: string[];
+  metrics: QualityMetrics;
+  durationMs: number;
+  data: ScrapedData;
+  reviewedAt?: string;
+  reviewNote?: string;
+}
+
+export interface QuarantineFilter {
+  status?: QuarantineStatus;
+  competitor?: string;
+}
+
+// Review requests that can't be carried out; routes map these to 4xx responses
+export class QuarantineError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+  }
+}
+
+export function qualityThresholdsFor(config?: CompetitorConfig): QualityThresholds {
+  return { ...DEFAULT_QUALITY_THRESHOLDS, ...config?.qualityGate };
+}
+
+// The stored entries the last full scrape saw: it stamps everything it finds with one lastSeenAt, while
+// entries that have since dropped off the page keep an older one. Pricing alerts are stamped separately.
+export function lastScrapedUpdates<T extends { id?: string; lastSeenAt?: string }>(competitor: string, updates: T[]): T[] {
+  const scraped = updates.filter(update => !isPricingUpdate(competitor, update));
+  const latest = scraped.reduce((max, update) => (update.lastSeenAt || '') > max ? update.lastSeenAt! : max, '');
+  return scraped.filter(update => (update.lastSeenAt || '') === latest);
+}
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Decide whether a fresh scrape looks enough like a real changelog to replace the stored dataset. What this
+// scrape extracted is compared with what the last one did; the merged dataset keeps every stored entry, so
+// it would always look at least as complete as before.
+export function evaluateQuality(
+  competitor: string,
+  previous: StoredData | null,
+  data: ScrapedData,
+  extraction: { primaryMatches?: number; fallbackEntries?: number },
+  thresholds: QualityThresholds,
+  now: Date = new Date()
+): QualityVerdict {
+  const previousUpdates = lastScrapedUpdates(competitor, previous?.updates || []);
+  const updates = data.extracted ?? data.updates;
+  const count = updates.length;
+  const comparable = previousUpdates.length >= thresholds.minComparableEntries;
+
+  let overlap: number | null = null;
+  if (comparable && count > 0) {
+    const stored = new DuplicateIndex(previousUpdates);
+    const matched = updates.filter(update => stored.has(update)).length;
+    overlap = ratio(matched, Math.min(previousUpdates.length, count));
+  }
+
+  const extracted = (extraction.primaryMatches ?? 0) + (extraction.fallbackEntries ?? 0);
+  const today = now.toISOString().split('T')[0];
+
+  const metrics: QualityMetrics = {
+    previousCount: previousUpdates.length,
+    count,
+    countRatio: comparable ? count / previousUpdates.length : null,
+    overlap,
+    fallbackShare: extraction.primaryMatches !== undefined ? ratio(extraction.fallbackEntries ?? 0, extracted) : null,
+    datedTodayShare: ratio(updates.filter(update => update.date === today).length, count)
+  };
+
+  const problems: string[] = [];
+  if (metrics.countRatio !== null && metrics.countRatio < thresholds.minCountRatio) {
+    problems.push(`only ${count} entries where the last scrape found ${metrics.previousCount} (minimum ${percent(thresholds.minCountRatio)})`);
+  }
+  if (metrics.countRatio !== null && metrics.countRatio > thresholds.maxCountRatio) {
+    problems.push(`${count} entries where the last scrape found ${metrics.previousCount} (maximum ${thresholds.maxCountRatio}x)`);
+  }
+  if (metrics.overlap !== null && metrics.overlap < thresholds.minOverlap) {
+    problems.push(`${percent(metrics.overlap)} of entries match ones the last scrape found (minimum ${percent(thresholds.minOverlap)})`);
+  }
+  if (count >= MIN_SHARE_SAMPLE && metrics.fallbackShare !== null && metrics.fallbackShare > thresholds.maxFallbackShare) {
+    problems.push(`${percent(metrics.fallbackShare)} of entries came from the fallback pass (maximum ${percent(thresholds.maxFallbackShare)})`);
+  }
+  if (count >= MIN_SHARE_SAMPLE && metrics.datedTodayShare > thresholds.maxDatedTodayShare) {
+    problems.push(`${percent(metrics.datedTodayShare)} of entries are dated today (maximum ${percent(thresholds.maxDatedTodayShare)})`);
+  }
+
+  return { passed: problems.length === 0, problems, metrics };
+}
+
+// Quarantined results, one file each under data/quarantine/. Approving one stores it as if the gate had passed it.
+export class QuarantineStore {
+  constructor(
+    private dataStore: DataStore,
+    private quarantineDir: string = QUARANTINE_DIR
+  ) {}
+
+  add(entry: Omit<QuarantinedResult, 'id' | 'quarantinedAt' | 'status'>): QuarantinedResult {
+    const result: QuarantinedResult = {
+      id: crypto.randomUUID(),
+      quarantinedAt: new Date().toISOString(),
+      status: 'pending',
+      ...entry
+    };
+
+    this.save(result);
+    console.warn(`Quarantined ${entry.competitor} scrape ${result.id}: ${entry.problems.join('; ')}`);
+    return result;
+  }
+
+  get(id: string): QuarantinedResult | null {
+    if (!/^[\w-]+$/.test(id)) return null;
+
+    try {
+      return JSON.parse(fs.readFileSync(this.pathFor(id), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  // Most recent first
+  list(filter: QuarantineFilter = {}): QuarantinedResult[] {
+    if (!fs.existsSync(this.quarantineDir)) return [];
+
+    return fs.readdirSync(this.quarantineDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => this.get(file.replace(/\.json$/, '')))
+      .filter((entry): entry is QuarantinedResult => entry !== null)
+      .filter(entry => (!filter.status || entry.status === filter.status) && (!filter.competitor || entry.competitor === filter.competitor))
+      .sort((a, b) => b.quarantinedAt.localeCompare(a.quarantinedAt));
+  }
+
+  // Replace the stored dataset with the quarantined result, unless a later scrape has already replaced it:
+  // storing the older result would drop whatever that scrape found
+  async approve(id: string, note?: string): Promise<QuarantinedResult> {
+    const entry = this.pending(id);
+    const current = await this.dataStore.retrieve(entry.competitor);
+    if (current && current.lastScraped > entry.quarantinedAt) {
+      throw new QuarantineError(
+        `${entry.competitor} was scraped again at ${current.lastScraped}, after this result was quarantined; reject it instead`,
+        409
+      );
+    }
+
+    await this.dataStore.store(entry.competitor, entry.data, entry.durationMs);
+    recordPricingSnapshot(entry.data);
+    return this.review(entry, 'approved', note);
+  }
+
+  // Discard the quarantined result; the stored dataset stays as it is
+  reject(id: string, note?: string): QuarantinedResult {
+    return this.review(this.pending(id), 'rejected', note);
+  }
+
+  private pending(id: string): QuarantinedResult {
+    const entry = this.get(id);
+    if (!entry) {
+      throw new QuarantineError(`Unknown quarantined result: ${id}`, 404);
+    }
+    if (entry.status !== 'pending') {
+      throw new QuarantineError(`Quarantined result ${id} was already ${entry.status}`, 409);
+    }
+    return entry;
+  }
+
+  private review(entry: QuarantinedResult, status: QuarantineStatus, note?: string): QuarantinedResult {
+    Object.assign(entry, { status, reviewedAt: new Date().toISOString(), reviewNote: note });
+    this.save(entry);
+    console.log(`Quarantined ${entry.competitor} scrape ${entry.id} ${status}`);
+    return entry;
+  }
+
+  private pathFor(id: string): string {
+    return path.join(this.quarantineDir, `${id}.json`);
+  }
+
+  private save(entry: QuarantinedResult): void {
+    fs.mkdirSync(this.quarantineDir, { recursive: true });
+    fs.writeFileSync(this.pathFor(entry.id), JSON.stringify(entry, null, 2));
+  }
+}
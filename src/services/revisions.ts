@@ -0,0 +1,62 @@
+import { diffWords } from 'diff';
+
+// One run of words in a diff: unchanged, added in the new text or removed from the old one
+export interface TextChange {
+  value: string;
+  added?: boolean;
+  removed?: boolean;
+}
+
+// A silent edit to a stored entry: its text before the edit and a word-level diff to the text after it
+export interface UpdateRevision {
+  detectedAt: string;
+  title: string;
+  description: string;
+  changes: TextChange[];
+}
+
+// The fields an edit is detected in; ScrapedUpdate and stored entries both fit
+export interface RevisableUpdate {
+  title: string;
+  description?: string;
+  metadata?: { sourceSection?: string };
+}
+
+export const MAX_REVISIONS = 20; // Per entry; older revisions are dropped first
+
+const collapse = (text: string) => (text || '').replace(/\s+/g, ' ').trim();
+const TRUNCATION = /\s*(\.\.\.|…)$/;
+
+// "Introducing the new dashboard..." and its full text are the same field, cut at different lengths
+function sameField(a: string, b: string): boolean {
+  if (a === b) return true;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return TRUNCATION.test(shorter) && longer.startsWith(shorter.replace(TRUNCATION, ''));
+}
+
+// The text revisions are diffed on: title, then description
+export function revisionText(update: RevisableUpdate): string {
+  return `${collapse(update.title)}\n\n${collapse(update.description || '')}`.trim();
+}
+
+// Compare a stored entry with the same entry from a fresh scrape. Returns null when the text is the
+// same, or differs only by whitespace or truncation, or when the two came from different extraction
+// passes (a fallback block isn't an edited version of a primary-selector entry).
+export function detectRevision(stored: RevisableUpdate, scraped: RevisableUpdate, detectedAt: string): UpdateRevision | null {
+  if ((stored.metadata?.sourceSection || '') !== (scraped.metadata?.sourceSection || '')) return null;
+
+  const unchanged = sameField(collapse(stored.title), collapse(scraped.title))
+    && sameField(collapse(stored.description || ''), collapse(scraped.description || ''));
+  if (unchanged) return null;
+
+  return {
+    detectedAt,
+    title: stored.title,
+    description: stored.description || '',
+    changes: diffWords(revisionText(stored), revisionText(scraped)).map(({ value, added, removed }) => ({
+      value,
+      ...(added ? { added } : {}),
+      ...(removed ? { removed } : {})
+    }))
+  };
+}
@@ -0,0 +1,283 @@
+import crypto from 'crypto';
+import { CompanyScrapeResult } from './changelog-scraper';
+import {
+  CompetitorRun,
+  CompetitorRunStatus,
+  DataStore,
+  RunTrigger,
+  ScrapeRun,
+  ScrapeRunStatus,
+  ScrapeRunTotals
+} from './data-store';
+import { loadCompetitorConfigs } from './competitor-registry';
+import { recordPricingSnapshot } from './pricing-tracker';
+import { evaluateQuality, lastScrapedUpdates, qualityThresholdsFor, QuarantineStore } from './quality-gate';
+import { ScrapeProgress } from './scrape-events';
+import { ScraperHealthMonitor } from './scraper-health';
+import { assignUpdateIds, DuplicateIndex } from './update-identity';
+
+export interface UpdateDiff {
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+// Fields whose edits count as a changed update; lastSeenAt and friends move on every scrape
+const COMPARED_FIELDS = ['title', 'description', 'date', 'type', 'url', 'version'];
+
+// Count added and changed updates between two datasets of one competitor, matched by stable ID. Stored
+// entries are never dropped, so removed ones are those the last scrape saw that this one (seen) didn't.
+export function diffUpdates(competitor: string, previous: any[], next: any[], seen: any[] = next): UpdateDiff {
+  const before = new Map(assignUpdateIds(competitor, previous).map(update => [update.id, update]));
+  const after = new Map(assignUpdateIds(competitor, next).map(update => [update.id, update]));
+
+  let added = 0;
+  let changed = 0;
+  for (const [id, update] of after) {
+    const old = before.get(id);
+    if (!old) {
+      added++;
+    } else if (COMPARED_FIELDS.some(field => (old as any)[field] !== (update as any)[field])) {
+      changed++;
+    }
+  }
+
+  const seenIndex = new DuplicateIndex(seen);
+  const removed = lastScrapedUpdates(competitor, [...before.values()]).filter(update => !seenIndex.has(update)).length;
+  return { added, changed, removed };
+}
+
+export function summarizeRun(competitors: CompetitorRun[]): ScrapeRunTotals {
+  const count = (status: CompetitorRunStatus) => competitors.filter(entry => entry.status === status).length;
+  const sum = (field: 'newUpdates' | 'changedUpdates' | 'removedUpdates') =>
+    competitors.reduce((total, entry) => total + entry[field], 0);
+
+  return {
+    competitors: competitors.length,
+    succeeded: count('succeeded'),
+    failed: count('failed'),
+    skipped: count('skipped-unchanged'),
+    quarantined: count('quarantined'),
+    cancelled: count('cancelled'),
+    newUpdates: sum('newUpdates'),
+    changedUpdates: sum('changedUpdates'),
+    removedUpdates: sum('removedUpdates')
+  };
+}
+
+interface CompetitorActivity {
+  startedAt?: string;
+  pagesVisited: number;
+  entriesExtracted: number;
+  primaryMatches?: number;
+  fallbackEntries?: number;
+  undatedEntries?: number;
+  source?: string;
+}
+
+// Stores each competitor's result and builds the run's history record as the run progresses.
+// Jobs, the scheduler and the CLI all go through this so every run is recorded the same way.
+export class RunRecorder {
+  readonly run: ScrapeRun;
+  private activity: Map<string, CompetitorActivity> = new Map();
+  private health: ScraperHealthMonitor;
+  private quarantine: QuarantineStore;
+
+  constructor(private dataStore: DataStore, trigger: RunTrigger, options: { jobId?: string } = {}) {
+    this.health = new ScraperHealthMonitor(dataStore);
+    this.quarantine = new QuarantineStore(dataStore);
+    this.run = {
+      id: crypto.randomUUID(),
+      trigger,
+      jobId: options.jobId,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      competitors: [],
+      totals: summarizeRun([])
+    };
+  }
+
+  async begin(): Promise<void> {
+    await this.dataStore.saveScrapeRun(this.run);
+  }
+
+  competitorStarted(competitor: string): void {
+    this.activityFor(competitor).startedAt = new Date().toISOString();
+  }
+
+  // Feed scraper progress here to count page loads and extracted entries
+  observe(progress: ScrapeProgress): void {
+    if (!progress.competitor) return;
+    const activity = this.activityFor(progress.competitor);
+
+    if (progress.type === 'page-loaded') {
+      activity.pagesVisited++;
+    } else if (progress.type === 'entries-extracted') {
+      // The last source to report is the one whose entries were kept
+      activity.entriesExtracted = Number(progress.data?.count ?? 0);
+      activity.primaryMatches = progress.data?.primary as number | undefined;
+      activity.fallbackEntries = progress.data?.fallback as number | undefined;
+      activity.undatedEntries = progress.data?.undated as number | undefined;
+      activity.source = progress.data?.source as string | undefined;
+    }
+  }
+
+  // Successes that pass the quality gate replace the stored dataset; the rest are quarantined for review.
+  // Failures, including a dataset that couldn't be written, are recorded without touching it.
+  async recordResult(result: CompanyScrapeResult): Promise<CompetitorRun> {
+    const activity = this.activityFor(result.competitor);
+    const finishedAt = new Date().toISOString();
+    const previous = result.cancelled ? null : await this.dataStore.retrieve(result.competitor);
+    const unchanged = Boolean(result.data?.unchanged);
+
+    let quarantined: { id: string; problems: string[] } | null = null;
+    let storeError: string | undefined;
+    if (!result.cancelled) {
+      if (result.success && result.data) {
+        // The quick check hands back the stored dataset, so only full scrapes go through the gate
+        const verdict = unchanged ? null : evaluateQuality(
+          result.competitor,
+          previous,
+          result.data,
+          activity,
+          qualityThresholdsFor(loadCompetitorConfigs().find(config => config.id === result.competitor))
+        );
+
+        if (verdict && !verdict.passed) {
+          const { id } = this.quarantine.add({
+            competitor: result.competitor,
+            runId: this.run.id,
+            problems: verdict.problems,
+            metrics: verdict.metrics,
+            durationMs: result.durationMs,
+            data: result.data
+          });
+          quarantined = { id, problems: verdict.problems };
+        } else {
+          try {
+            await this.dataStore.store(result.competitor, result.data, result.durationMs);
+            recordPricingSnapshot(result.data);
+          } catch (error) {
+            storeError = `Could not store results: ${error instanceof Error ? error.message : String(error)}`;
+            await this.dataStore.storeFailure(result.competitor, storeError, result.durationMs);
+          }
+        }
+      } else {
+        await this.dataStore.storeFailure(result.competitor, result.error || 'Unknown error', result.durationMs);
+      }
+    }
+
+    const stored = result.success && !storeError;
+    const diff = stored && result.data && !unchanged && !quarantined
+      ? diffUpdates(result.competitor, previous?.updates || [], result.data.updates, result.data.extracted)
+      : { added: 0, changed: 0, removed: 0 };
+
+    const entry: CompetitorRun = {
+      competitor: result.competitor,
+      status: result.cancelled
+        ? 'cancelled'
+        : !stored ? 'failed' : quarantined ? 'quarantined' : unchanged ? 'skipped-unchanged' : 'succeeded',
+      startedAt: activity.startedAt || new Date(Date.parse(finishedAt) - result.durationMs).toISOString(),
+      finishedAt,
+      durationMs: result.durationMs,
+      source: activity.source,
+      pagesVisited: activity.pagesVisited,
+      entriesExtracted: activity.entriesExtracted,
+      primaryMatches: activity.primaryMatches,
+      fallbackEntries: activity.fallbackEntries,
+      undatedEntries: activity.undatedEntries,
+      quickCheckSkipped: unchanged,
+      newUpdates: diff.added,
+      changedUpdates: diff.changed,
+      removedUpdates: diff.removed,
+      totalUpdates: (quarantined || !stored ? undefined : result.data?.updates.length) ?? previous?.updates.length ?? 0,
+      error: result.success ? storeError : result.error,
+      errorStack: result.success ? undefined : result.errorStack,
+      quarantineId: quarantined?.id,
+      qualityProblems: quarantined?.problems
+    };
+
+    this.run.competitors.push(entry);
+    this.run.totals = summarizeRun(this.run.competitors);
+    await this.dataStore.saveScrapeRun(this.run);
+
+    // Only full scrapes say anything about the selectors; failures are tracked by the failure streak
+    if (entry.status === 'succeeded' || entry.status === 'quarantined') {
+      try {
+        await this.health.check(entry.competitor);
+      } catch (error) {
+        console.error(`Scraper health check for ${entry.competitor} failed:`, error);
+      }
+    }
+    return entry;
+  }
+
+  // Without an explicit status the outcome follows from the competitors: all failed, some failed or
+  // quarantined, or none
+  async finish(status?: ScrapeRunStatus): Promise<ScrapeRun> {
+    const { failed, quarantined, competitors } = this.run.totals;
+    const finishedAt = new Date().toISOString();
+
+    this.run.status = status ?? (competitors > 0 && failed === competitors ? 'failed' : failed + quarantined > 0 ? 'partial' : 'succeeded');
+    this.run.finishedAt = finishedAt;
+    this.run.durationMs = Date.parse(finishedAt) - Date.parse(this.run.startedAt);
+    await this.dataStore.saveScrapeRun(this.run);
+    return this.run;
+  }
+
+  private activityFor(competitor: string): CompetitorActivity {
+    let activity = this.activity.get(competitor);
+    if (!activity) {
+      activity = { pagesVisited: 0, entriesExtracted: 0 };
+      this.activity.set(competitor, activity);
+    }
+    return activity;
+  }
+}
+
+export interface CompetitorRunComparison {
+  competitor: string;
+  a: CompetitorRun | null;
+  b: CompetitorRun | null;
+  statusChanged: boolean;
+  // b minus a; null when the competitor is missing from either run
+  deltas: {
+    durationMs: number;
+    pagesVisited: number;
+    entriesExtracted: number;
+    totalUpdates: number;
+  } | null;
+}
+
+export interface RunComparison {
+  a: ScrapeRun;
+  b: ScrapeRun;
+  competitors: CompetitorRunComparison[];
+}
+
+// Side-by-side view of two runs, per competitor
+export function compareRuns(a: ScrapeRun, b: ScrapeRun): RunComparison {
+  const names = [...new Set([...a.competitors, ...b.competitors].map(entry => entry.competitor))].sort();
+
+  const competitors = names.map(competitor => {
+    const left = a.competitors.find(entry => entry.competitor === competitor) || null;
+    const right = b.competitors.find(entry => entry.competitor === competitor) || null;
+
+    return {
+      competitor,
+      a: left,
+      b: right,
+      statusChanged: left?.status !== right?.status,
+      deltas: left && right
+        ? {
+            durationMs: right.durationMs - left.durationMs,
+            pagesVisited: right.pagesVisited - left.pagesVisited,
+            entriesExtracted: right.entriesExtracted - left.entriesExtracted,
+            totalUpdates: right.totalUpdates - left.totalUpdates
+          }
+        : null
+    };
+  });
+
+  return { a, b, competitors };
+}
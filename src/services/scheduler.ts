@@ -0,0 +1,285 @@
+import fs from 'fs';
+import path from 'path';
+import { ChangelogScraper, CompanyScrapeResult } from './changelog-scraper';
+import { CompetitorConfig, loadCompetitorConfigs } from './competitor-registry';
+import { CronError, nextCronRun, parseCron } from './cron';
+import { createDataStore } from './data-store';
+import { RunRecorder } from './run-history';
+import { getScrapeLockHolder, releaseScrapeLock, tryAcquireScrapeLock } from './scrape-lock';
+
+export type ScheduleSource = 'config' | 'override' | 'default';
+
+// Persisted per-competitor scheduler state in data/scheduler/schedules.json
+interface ScheduleState {
+  override?: string; // Set through the API; takes precedence over the config file
+  enabled: boolean;
+  cron?: string | null; // Expression nextRunAt was computed from, to notice config edits
+  nextRunAt?: string | null;
+  lastRunAt?: string;
+  lastStatus?: 'succeeded' | 'failed' | 'quarantined';
+  lastError?: string;
+  lastDurationMs?: number;
+  lastUpdates?: number;
+}
+
+export interface CompetitorSchedule {
+  competitor: string;
+  cron: string | null; // null when the schedule is "off"
+  source: ScheduleSource;
+  enabled: boolean;
+  running: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastStatus: 'succeeded' | 'failed' | 'quarantined' | null;
+  lastError: string | null;
+  lastDurationMs: number | null;
+  lastUpdates: number | null;
+}
+
+export interface ScheduleChanges {
+  cron?: string | null; // null drops the override and falls back to the config file
+  enabled?: boolean;
+}
+
+// Rejected schedule edits; routes map these to 4xx responses
+export class ScheduleError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+  }
+}
+
+// Kept out of data/ itself, where every top-level JSON file is a competitor dataset
+const SCHEDULER_DIR = path.join(process.cwd(), 'data', 'scheduler');
+const TICK_MS = 30000;
+
+const defaultSchedule = () => process.env.LAUNCHRADAR_DEFAULT_SCHEDULE || '0 6 * * *';
+
+function nextRun(cron: string | null, after: Date = new Date()): string | null {
+  return cron ? nextCronRun(parseCron(cron), after)?.toISOString() ?? null : null;
+}
+
+// Runs due competitors on their cron schedules inside the server process.
+// The shared scrape lock keeps it from running alongside a job, the CLI or another server process.
+export class Scheduler {
+  private state: Record<string, ScheduleState> = {};
+  private timer: NodeJS.Timeout | null = null;
+  private runningCompetitor: string | null = null;
+  private ticking = false;
+
+  constructor(private statePath: string = path.join(SCHEDULER_DIR, 'schedules.json')) {
+    this.state = this.loadState();
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    const active = this.listSchedules().filter(schedule => schedule.enabled && schedule.cron);
+    console.log(`Scheduler started with ${active.length} active schedules`);
+
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+    // Never keep a process alive just for the scheduler
+    this.timer.unref();
+    setTimeout(() => this.tick(), 0).unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  listSchedules(): CompetitorSchedule[] {
+    return this.sync().map(config => this.view(config));
+  }
+
+  updateSchedule(competitor: string, changes: ScheduleChanges): CompetitorSchedule {
+    const config = this.sync().find(entry => entry.id === competitor);
+    if (!config) {
+      throw new ScheduleError(`Unknown competitor: ${competitor}`, 404);
+    }
+
+    const state = this.state[competitor];
+    if (changes.cron !== undefined) {
+      if (changes.cron !== null && changes.cron !== 'off') {
+        try {
+          parseCron(changes.cron);
+        } catch (error) {
+          throw new ScheduleError(error instanceof CronError ? error.message : String(error));
+        }
+      }
+      state.override = changes.cron === null ? undefined : changes.cron.trim();
+    }
+    if (changes.enabled !== undefined) {
+      state.enabled = changes.enabled;
+    }
+
+    // Recompute from now so an edited schedule takes effect at its next matching minute
+    state.cron = undefined;
+    this.sync();
+    return this.view(config);
+  }
+
+  // Reconcile persisted state with the current configs and return them
+  private sync(): CompetitorConfig[] {
+    const configs = loadCompetitorConfigs();
+    let changed = false;
+
+    for (const config of configs) {
+      const state = this.state[config.id] ??= { enabled: true };
+      const { cron } = this.effectiveSchedule(config);
+
+      if (state.cron !== cron) {
+        state.cron = cron;
+        state.nextRunAt = nextRun(cron);
+        changed = true;
+      }
+    }
+
+    if (changed) this.saveState();
+    return configs;
+  }
+
+  private effectiveSchedule(config: CompetitorConfig): { cron: string | null; source: ScheduleSource } {
+    const state = this.state[config.id];
+    const [expression, source]: [string, ScheduleSource] = state?.override
+      ? [state.override, 'override']
+      : config.schedule ? [config.schedule, 'config'] : [defaultSchedule(), 'default'];
+
+    return { cron: expression === 'off' ? null : expression, source };
+  }
+
+  private view(config: CompetitorConfig): CompetitorSchedule {
+    const state = this.state[config.id];
+    const { cron, source } = this.effectiveSchedule(config);
+
+    return {
+      competitor: config.id,
+      cron,
+      source,
+      enabled: state.enabled,
+      running: this.runningCompetitor === config.id,
+      nextRunAt: state.enabled ? state.nextRunAt ?? null : null,
+      lastRunAt: state.lastRunAt ?? null,
+      lastStatus: state.lastStatus ?? null,
+      lastError: state.lastError ?? null,
+      lastDurationMs: state.lastDurationMs ?? null,
+      lastUpdates: state.lastUpdates ?? null
+    };
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = Date.now();
+      const due = this.sync().filter(config => {
+        const state = this.state[config.id];
+        return state.enabled && state.nextRunAt && Date.parse(state.nextRunAt) <= now;
+      });
+      if (due.length === 0) return;
+
+      if (!tryAcquireScrapeLock('scheduler')) {
+        console.log(`Scheduler: ${getScrapeLockHolder()?.owner ?? 'another run'} is scraping, will retry`);
+        return;
+      }
+
+      try {
+        const scraper = new ChangelogScraper();
+        const recorder = new RunRecorder(createDataStore(), 'scheduler');
+        await recorder.begin();
+
+        for (const config of due) {
+          await this.runCompetitor(scraper, recorder, config.id);
+        }
+        await recorder.finish();
+      } finally {
+        releaseScrapeLock('scheduler');
+      }
+    } catch (error) {
+      console.error('Scheduler tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runCompetitor(scraper: ChangelogScraper, recorder: RunRecorder, competitor: string): Promise<void> {
+    const state = this.state[competitor];
+    const companyScraper = scraper.getScraper(competitor);
+    const startTime = Date.now();
+    this.runningCompetitor = competitor;
+    console.log(`Scheduler: scraping ${competitor}`);
+
+    recorder.competitorStarted(competitor);
+    companyScraper?.useProgressListener(progress => recorder.observe(progress));
+
+    let result: CompanyScrapeResult;
+    try {
+      const data = await scraper.scrapeCompany(competitor);
+      result = { competitor, success: true, data, durationMs: Date.now() - startTime };
+
+      Object.assign(state, {
+        lastStatus: 'succeeded',
+        lastError: undefined,
+        lastDurationMs: result.durationMs,
+        lastUpdates: data.updates.length
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Scheduler: ${competitor} failed:`, message);
+      result = {
+        competitor,
+        success: false,
+        error: message,
+        errorStack: error instanceof Error ? error.stack : undefined,
+        durationMs: Date.now() - startTime
+      };
+
+      Object.assign(state, { lastStatus: 'failed', lastError: message, lastDurationMs: result.durationMs });
+    } finally {
+      companyScraper?.useProgressListener(null);
+    }
+
+    try {
+      const entry = await recorder.recordResult(result);
+      if (entry.status === 'quarantined') {
+        Object.assign(state, { lastStatus: 'quarantined', lastError: entry.qualityProblems?.join('; ') });
+      } else if (entry.status === 'failed' && result.success) {
+        // Scraped fine but the dataset couldn't be written
+        Object.assign(state, { lastStatus: 'failed', lastError: entry.error, lastUpdates: undefined });
+      }
+    } finally {
+      this.runningCompetitor = null;
+      state.lastRunAt = new Date().toISOString();
+      // Runs that overshoot their next slot skip it rather than firing again immediately
+      state.nextRunAt = nextRun(state.cron ?? null);
+      this.saveState();
+    }
+  }
+
+  private loadState(): Record<string, ScheduleState> {
+    try {
+      return JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  private saveState(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.statePath), { recursive: true });
+      fs.writeFileSync(this.statePath, JSON.stringify(this.state, null, 2));
+    } catch (error) {
+      console.error('Error saving scheduler state:', error);
+    }
+  }
+}
+
+// One scheduler per server process; kept on globalThis so dev-mode reloads don't start a second timer
+const globalForScheduler = globalThis as unknown as { launchRadarScheduler?: Scheduler };
+
+export function getScheduler(): Scheduler {
+  globalForScheduler.launchRadarScheduler ??= new Scheduler();
+  return globalForScheduler.launchRadarScheduler;
+}
@@ -0,0 +1,81 @@
+import { EventEmitter } from 'events';
+
+export type ScrapeEventType =
+  | 'job-queued'
+  | 'job-started'
+  | 'job-finished'
+  | 'competitor-started'
+  | 'page-loaded' // A browser page or plain HTTP fetch of the changelog finished loading
+  | 'quick-check' // The latest few entries were compared against stored data
+  | 'scroll' // One load-more click or infinite-scroll attempt
+  | 'entries-extracted'
+  | 'detail-page' // One new entry's own page was fetched for its full content
+  | 'changed' // Stored entries came back with rewritten text
+  | 'pricing-checked' // The pricing page was read and compared with its last snapshot
+  | 'page-changed' // A watched page's text changed (see page-watcher.ts)
+  | 'stored'
+  | 'quarantined' // The quality gate held the result back instead of storing it
+  | 'competitor-finished';
+
+// What a scraper reports about its own progress; the job registry adds the job ID
+export interface ScrapeProgress {
+  type: ScrapeEventType;
+  competitor?: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+export type ScrapeProgressListener = (progress: ScrapeProgress) => void;
+
+export interface ScrapeEvent extends ScrapeProgress {
+  id: number; // Increases monotonically per process; used as the SSE event ID for resuming
+  jobId?: string;
+  timestamp: string;
+}
+
+const MAX_RECENT_EVENTS = 500;
+
+// Fans scrape lifecycle events out to SSE subscribers, keeping the most recent ones for late joiners
+export class ScrapeEventBus {
+  private emitter = new EventEmitter();
+  private recent: ScrapeEvent[] = [];
+  private nextId = 1;
+
+  constructor() {
+    // Every open dashboard holds a subscription
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(progress: ScrapeProgress & { jobId?: string }): ScrapeEvent {
+    const event: ScrapeEvent = { ...progress, id: this.nextId++, timestamp: new Date().toISOString() };
+
+    this.recent.push(event);
+    if (this.recent.length > MAX_RECENT_EVENTS) {
+      this.recent.shift();
+    }
+
+    this.emitter.emit('event', event);
+    return event;
+  }
+
+  // Returns a function that removes the listener
+  subscribe(listener: (event: ScrapeEvent) => void): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+
+  // Buffered events after the given ID, optionally only those belonging to one job
+  since(afterId: number, jobId?: string): ScrapeEvent[] {
+    return this.recent.filter(event => event.id > afterId && (!jobId || event.jobId === jobId));
+  }
+}
+
+// One bus per server process, shared with the job registry across dev-mode reloads
+const globalForEvents = globalThis as unknown as { launchRadarScrapeEvents?: ScrapeEventBus };
+
+export function getScrapeEventBus(): ScrapeEventBus {
+  globalForEvents.launchRadarScrapeEvents ??= new ScrapeEventBus();
+  return globalForEvents.launchRadarScrapeEvents;
+}
@@ -0,0 +1,332 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ChangelogScraper, CompanyScrapeResult } from './changelog-scraper';
+import { CompetitorRun, createDataStore } from './data-store';
+import { RunRecorder } from './run-history';
+import { getScrapeEventBus, ScrapeProgress } from './scrape-events';
+import { getScrapeLockHolder, releaseScrapeLock, tryAcquireScrapeLock, waitForScrapeLock } from './scrape-lock';
+
+export type JobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+export type CompetitorState = 'queued' | 'running' | 'succeeded' | 'failed' | 'skipped-unchanged' | 'quarantined' | 'cancelled';
+
+export interface CompetitorProgress {
+  competitor: string;
+  state: CompetitorState;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  updates?: number; // Updates stored after a successful scrape
+  error?: string;
+  quarantineId?: string; // Set when the quality gate held the result back for review
+}
+
+export interface ScrapeJob {
+  id: string;
+  // 'failed' only when every competitor failed; partial failures show up in counts
+  state: JobState;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  competitors: CompetitorProgress[];
+  counts: Record<CompetitorState, number>;
+  error?: string;
+}
+
+// Requests the registry refuses, such as unknown competitors; routes map these to 4xx responses
+export class JobError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+  }
+}
+
+const JOBS_DIR = path.join(process.cwd(), 'data', 'jobs');
+const MAX_STORED_JOBS = 50;
+
+const isFinished = (state: JobState) => state === 'succeeded' || state === 'failed' || state === 'cancelled';
+
+function countStates(competitors: CompetitorProgress[]): Record<CompetitorState, number> {
+  const counts: Record<CompetitorState, number> = {
+    queued: 0, running: 0, succeeded: 0, failed: 0, 'skipped-unchanged': 0, quarantined: 0, cancelled: 0
+  };
+  for (const competitor of competitors) {
+    counts[competitor.state]++;
+  }
+  return counts;
+}
+
+// Runs scrape jobs in the background one at a time, persisting progress to data/jobs/<id>.json
+export class JobRegistry {
+  private jobs: Map<string, ScrapeJob> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private jobsDir: string = JOBS_DIR) {
+    this.loadPersistedJobs();
+  }
+
+  // Queue a scrape of the given competitors (all of them by default) and return without waiting
+  createJob(companies?: string[]): ScrapeJob {
+    const supported = new ChangelogScraper().getSupportedCompanies();
+    const requested = companies && companies.length > 0 ? [...new Set(companies)] : supported;
+
+    const unknown = requested.filter(company => !supported.includes(company));
+    if (unknown.length > 0) {
+      throw new JobError(`Unknown competitor${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`);
+    }
+
+    const competitors: CompetitorProgress[] = requested.map(competitor => ({ competitor, state: 'queued' }));
+    const job: ScrapeJob = {
+      id: crypto.randomUUID(),
+      state: 'queued',
+      createdAt: new Date().toISOString(),
+      competitors,
+      counts: countStates(competitors)
+    };
+
+    this.jobs.set(job.id, job);
+    this.controllers.set(job.id, new AbortController());
+    this.persist(job);
+
+    // Jobs run one after another so two runs never scrape the same site at once,
+    // and a job that blows up is marked failed instead of stalling the ones behind it
+    this.queue = this.queue.then(() => this.run(job)).catch(error => this.fail(job, error));
+    console.log(`Queued scrape job ${job.id} for ${requested.join(', ')}`);
+    this.publish(job, {
+      type: 'job-queued',
+      message: `Queued ${requested.length} competitor${requested.length === 1 ? '' : 's'}`,
+      data: { competitors: requested }
+    });
+    return job;
+  }
+
+  getJob(id: string): ScrapeJob | null {
+    return this.jobs.get(id) || null;
+  }
+
+  // Most recent first
+  listJobs(limit: number = 20): ScrapeJob[] {
+    return Array.from(this.jobs.values())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+
+  cancelJob(id: string): ScrapeJob {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new JobError(`No job found with id ${id}`, 404);
+    }
+    if (isFinished(job.state)) {
+      throw new JobError(`Job ${id} has already ${job.state}`, 409);
+    }
+
+    console.log(`Cancelling scrape job ${id}`);
+    this.controllers.get(id)?.abort();
+
+    // A queued job never starts; a running one settles once its in-flight scrapes stop
+    if (job.state === 'queued') {
+      this.finish(job, 'cancelled');
+    }
+    return job;
+  }
+
+  private async run(job: ScrapeJob): Promise<void> {
+    const controller = this.controllers.get(job.id);
+    if (job.state !== 'queued' || !controller || controller.signal.aborted) return;
+
+    // The job stays queued while the scheduler, the CLI or another server process is scraping
+    const owner = `job ${job.id}`;
+    if (!tryAcquireScrapeLock(owner)) {
+      this.publish(job, { type: 'job-queued', message: `Waiting for ${getScrapeLockHolder()?.owner ?? 'another run'} to finish` });
+      if (!await waitForScrapeLock(owner, { signal: controller.signal })) return;
+    }
+    if (job.state !== 'queued') {
+      releaseScrapeLock(owner);
+      return;
+    }
+
+    job.state = 'running';
+    job.startedAt = new Date().toISOString();
+    this.persist(job);
+    this.publish(job, { type: 'job-started', message: 'Scrape started' });
+
+    const recorder = new RunRecorder(createDataStore(), 'job', { jobId: job.id });
+
+    try {
+      await recorder.begin();
+      await new ChangelogScraper().scrapeAllChangelogs({
+        companies: job.competitors.map(competitor => competitor.competitor),
+        signal: controller.signal,
+        onCompetitorStart: competitor => {
+          recorder.competitorStarted(competitor);
+          this.updateCompetitor(job, competitor, { state: 'running', startedAt: new Date().toISOString() });
+          this.publish(job, { type: 'competitor-started', competitor, message: 'Scrape started' });
+        },
+        onProgress: progress => {
+          recorder.observe(progress);
+          this.publish(job, progress);
+        },
+        onCompetitorDone: async result => {
+          const entry = await this.storeResult(job, recorder, result);
+          const progress = this.progressFor(result, entry);
+          this.updateCompetitor(job, result.competitor, progress);
+          this.publish(job, {
+            type: 'competitor-finished',
+            competitor: result.competitor,
+            message: progress.error ? `${progress.state}: ${progress.error}` : progress.state,
+            data: { state: progress.state, updates: progress.updates, durationMs: progress.durationMs }
+          });
+        }
+      });
+
+      const { failed } = job.counts;
+      await recorder.finish(controller.signal.aborted ? 'cancelled' : undefined);
+      this.finish(job, controller.signal.aborted ? 'cancelled' : failed === job.competitors.length ? 'failed' : 'succeeded');
+    } catch (error) {
+      await recorder.finish('failed').catch(() => undefined);
+      this.fail(job, error);
+    } finally {
+      releaseScrapeLock(owner);
+    }
+  }
+
+  private fail(job: ScrapeJob, error: unknown): void {
+    if (isFinished(job.state)) return;
+    console.error(`Scrape job ${job.id} crashed:`, error);
+    this.finish(job, 'failed', error instanceof Error ? error.message : String(error));
+  }
+
+  // The recorder stores the result (or quarantines it) and adds it to the run history
+  private async storeResult(job: ScrapeJob, recorder: RunRecorder, result: CompanyScrapeResult): Promise<CompetitorRun> {
+    const entry = await recorder.recordResult(result);
+
+    if (entry.status === 'quarantined') {
+      this.publish(job, {
+        type: 'quarantined',
+        competitor: result.competitor,
+        message: `Held back for review: ${entry.qualityProblems?.join('; ')}`,
+        data: { quarantineId: entry.quarantineId, problems: entry.qualityProblems }
+      });
+    } else if (result.success && result.data) {
+      this.publish(job, {
+        type: 'stored',
+        competitor: result.competitor,
+        message: `Stored ${result.data.updates.length} updates`,
+        data: { updates: result.data.updates.length, unchanged: Boolean(result.data.unchanged) }
+      });
+    }
+    return entry;
+  }
+
+  private progressFor(result: CompanyScrapeResult, entry: CompetitorRun): Partial<CompetitorProgress> & { state: CompetitorState } {
+    if (entry.status === 'quarantined') {
+      return {
+        state: 'quarantined',
+        finishedAt: entry.finishedAt,
+        durationMs: result.durationMs,
+        error: entry.qualityProblems?.join('; '),
+        quarantineId: entry.quarantineId
+      };
+    }
+
+    const state: CompetitorState = result.cancelled
+      ? 'cancelled'
+      : entry.status === 'failed'
+        ? 'failed'
+        : result.data?.unchanged ? 'skipped-unchanged' : 'succeeded';
+
+    return {
+      state,
+      finishedAt: new Date().toISOString(),
+      durationMs: result.durationMs,
+      updates: state === 'failed' ? undefined : result.data?.updates.length,
+      error: entry.error
+    };
+  }
+
+  private updateCompetitor(job: ScrapeJob, competitor: string, changes: Partial<CompetitorProgress>): void {
+    const progress = job.competitors.find(entry => entry.competitor === competitor);
+    if (!progress) return;
+
+    Object.assign(progress, changes);
+    job.counts = countStates(job.competitors);
+    this.persist(job);
+  }
+
+  private finish(job: ScrapeJob, state: JobState, error?: string): void {
+    const finishedAt = new Date().toISOString();
+
+    // Anything that never got to run is reported as cancelled (or failed, if the job crashed)
+    for (const competitor of job.competitors) {
+      if (competitor.state === 'queued' || competitor.state === 'running') {
+        competitor.state = state === 'failed' ? 'failed' : 'cancelled';
+        competitor.finishedAt = finishedAt;
+        if (error) competitor.error = error;
+      }
+    }
+
+    job.state = state;
+    job.finishedAt = finishedAt;
+    job.durationMs = job.startedAt ? Date.parse(finishedAt) - Date.parse(job.startedAt) : 0;
+    job.counts = countStates(job.competitors);
+    if (error) job.error = error;
+
+    this.controllers.delete(job.id);
+    this.persist(job);
+    console.log(`Scrape job ${job.id} ${state}`);
+    this.publish(job, {
+      type: 'job-finished',
+      message: error ? `Scrape ${state}: ${error}` : `Scrape ${state}`,
+      data: { state, counts: job.counts }
+    });
+  }
+
+  private publish(job: ScrapeJob, progress: ScrapeProgress): void {
+    getScrapeEventBus().publish({ ...progress, jobId: job.id });
+  }
+
+  private persist(job: ScrapeJob): void {
+    try {
+      fs.mkdirSync(this.jobsDir, { recursive: true });
+      fs.writeFileSync(path.join(this.jobsDir, `${job.id}.json`), JSON.stringify(job, null, 2));
+    } catch (error) {
+      console.error(`Error saving scrape job ${job.id}:`, error);
+    }
+  }
+
+  // Reload recent jobs; ones the previous process never finished are marked failed
+  private loadPersistedJobs(): void {
+    if (!fs.existsSync(this.jobsDir)) return;
+
+    const jobs: ScrapeJob[] = [];
+    for (const file of fs.readdirSync(this.jobsDir).filter(name => name.endsWith('.json'))) {
+      try {
+        jobs.push(JSON.parse(fs.readFileSync(path.join(this.jobsDir, file), 'utf8')));
+      } catch (error) {
+        console.error(`Skipping unreadable job file ${file}:`, error);
+      }
+    }
+
+    jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    for (const [index, job] of jobs.entries()) {
+      if (index >= MAX_STORED_JOBS) {
+        fs.rmSync(path.join(this.jobsDir, `${job.id}.json`), { force: true });
+        continue;
+      }
+
+      this.jobs.set(job.id, job);
+      if (!isFinished(job.state)) {
+        this.finish(job, 'failed', 'Interrupted by a server restart');
+      }
+    }
+  }
+}
+
+// One registry per server process; kept on globalThis so dev-mode reloads don't orphan running jobs
+const globalForJobs = globalThis as unknown as { launchRadarJobs?: JobRegistry };
+
+export function getJobRegistry(): JobRegistry {
+  globalForJobs.launchRadarJobs ??= new JobRegistry();
+  return globalForJobs.launchRadarJobs;
+}
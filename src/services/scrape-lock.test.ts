@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, beforeEach, describe, it } from 'node:test';
+import { getScrapeLockHolder, releaseScrapeLock, tryAcquireScrapeLock } from './scrape-lock';
+
+describe('scrape lock', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scrape-lock-'));
+  const lockPath = path.join(dir, 'scrape.lock');
+  const writeLock = (contents: string) => fs.writeFileSync(lockPath, contents);
+
+  beforeEach(() => fs.rmSync(lockPath, { force: true }));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('lets one owner at a time hold the lock', () => {
+    assert.equal(tryAcquireScrapeLock('cli', lockPath), true);
+    assert.equal(tryAcquireScrapeLock('scheduler', lockPath), false);
+
+    releaseScrapeLock('scheduler', lockPath);
+    assert.equal(getScrapeLockHolder(lockPath)?.owner, 'cli');
+
+    releaseScrapeLock('cli', lockPath);
+    assert.equal(tryAcquireScrapeLock('scheduler', lockPath), true);
+    assert.deepEqual(fs.readdirSync(dir), ['scrape.lock']);
+  });
+
+  it('takes over a lock whose process is gone', () => {
+    writeLock(JSON.stringify({ pid: 2 ** 22 + 1, owner: 'job crashed', acquiredAt: new Date().toISOString() }));
+
+    assert.equal(tryAcquireScrapeLock('cli', lockPath), true);
+    assert.equal(getScrapeLockHolder(lockPath)?.owner, 'cli');
+    assert.deepEqual(fs.readdirSync(dir), ['scrape.lock']);
+  });
+
+  it('takes over a lock held for longer than a run can take', () => {
+    writeLock(JSON.stringify({ pid: process.pid, owner: 'scheduler', acquiredAt: '2020-01-01T00:00:00.000Z' }));
+
+    assert.equal(tryAcquireScrapeLock('cli', lockPath), true);
+  });
+
+  it('leaves a lock it cannot read alone', () => {
+    writeLock('');
+    assert.equal(tryAcquireScrapeLock('cli', lockPath), false);
+
+    writeLock('{"pid": 12');
+    assert.equal(tryAcquireScrapeLock('cli', lockPath), false);
+    assert.equal(fs.readFileSync(lockPath, 'utf8'), '{"pid": 12');
+  });
+});
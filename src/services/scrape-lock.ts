@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Held for the whole of a scrape run by the scheduler, scrape jobs and the CLI, so two runs never
+// scrape (and store) at the same time, even from different processes
+const LOCK_PATH = path.join(process.cwd(), 'data', 'locks', 'scrape.lock');
+// A lock older than this is assumed to belong to a run that died without cleaning up
+const LOCK_STALE_MS = 6 * 60 * 60 * 1000;
+const WAIT_POLL_MS = 5000;
+
+export interface ScrapeLockHolder {
+  pid: number;
+  owner: string; // e.g. "scheduler", "cli" or "job <id>"
+  acquiredAt: string;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export function getScrapeLockHolder(lockPath: string = LOCK_PATH): ScrapeLockHolder | null {
+  try {
+    const holder = JSON.parse(fs.readFileSync(lockPath, 'utf8'));
+    return Number.isInteger(holder?.pid) && !isNaN(Date.parse(holder.acquiredAt)) ? holder : null;
+  } catch {
+    return null;
+  }
+}
+
+// Only a lock whose holder can be read is ever taken over; anything else may belong to a live run
+function isStale(holder: ScrapeLockHolder): boolean {
+  return !isProcessAlive(holder.pid) || Date.now() - Date.parse(holder.acquiredAt) > LOCK_STALE_MS;
+}
+
+// The lock is written to a file of its own and linked into place, which fails if a lock exists, so no
+// other process ever reads it half-written
+function createLock(holder: ScrapeLockHolder, lockPath: string): boolean {
+  const temp = `${lockPath}.${process.pid}-${crypto.randomUUID()}`;
+  fs.writeFileSync(temp, JSON.stringify(holder));
+  try {
+    fs.linkSync(temp, lockPath);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    return false;
+  } finally {
+    fs.rmSync(temp, { force: true });
+  }
+}
+
+// Take the lock unless a live run holds it
+export function tryAcquireScrapeLock(owner: string, lockPath: string = LOCK_PATH): boolean {
+  const holder: ScrapeLockHolder = { pid: process.pid, owner, acquiredAt: new Date().toISOString() };
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  if (createLock(holder, lockPath)) return true;
+
+  const current = getScrapeLockHolder(lockPath);
+  if (!current || !isStale(current)) return false;
+
+  // Take over a lock left behind by a crashed run by moving it aside. Of several processes that found it
+  // stale only one can move it, and that one checks it moved the lock it found rather than a fresh one.
+  const aside = `${lockPath}.stale-${process.pid}-${crypto.randomUUID()}`;
+  try {
+    fs.renameSync(lockPath, aside);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw error;
+  }
+
+  const moved = getScrapeLockHolder(aside);
+  if (!moved || moved.pid !== current.pid || moved.acquiredAt !== current.acquiredAt) {
+    // Another process had already taken over; put its lock back
+    try {
+      fs.linkSync(aside, lockPath);
+    } catch {
+      // A third process holds the lock by now
+    }
+    fs.rmSync(aside, { force: true });
+    return false;
+  }
+
+  fs.rmSync(aside, { force: true });
+  console.log(`Removed stale scrape lock held by ${current.owner} (process ${current.pid})`);
+  return createLock(holder, lockPath);
+}
+
+// Poll until the lock is free; resolves false if the signal aborts first
+export async function waitForScrapeLock(
+  owner: string,
+  options: { signal?: AbortSignal; lockPath?: string } = {}
+): Promise<boolean> {
+  while (!options.signal?.aborted) {
+    if (tryAcquireScrapeLock(owner, options.lockPath)) return true;
+    await new Promise(resolve => setTimeout(resolve, WAIT_POLL_MS));
+  }
+  return false;
+}
+
+// Only the owner that took the lock removes it
+export function releaseScrapeLock(owner: string, lockPath: string = LOCK_PATH): void {
+  const holder = getScrapeLockHolder(lockPath);
+  if (!holder || holder.pid !== process.pid || holder.owner !== owner) return;
+  fs.rmSync(lockPath, { force: true });
+}
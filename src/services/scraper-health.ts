@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { CompetitorConfig, HealthThresholds, loadCompetitorConfigs } from './competitor-registry';
+import { CompetitorRun, DataStore } from './data-store';
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unknown';
+
+// Used for any threshold a competitor config doesn't override under "health"
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  minPrimaryMatches: 1,
+  maxFallbackRatio: 0.5,
+  minYieldRatio: 0.5,
+  maxUndatedRate: 0.5,
+  yieldWindow: 5
+};
+
+// Yield is only compared once there is enough history for the average to mean something
+const MIN_YIELD_HISTORY = 3;
+// Runs fetched per competitor when looking for its recent successful scrapes
+const RUN_LOOKBACK = 50;
+const MAX_ALERTS = 200;
+const HEALTH_DIR = path.join(process.cwd(), 'data', 'health');
+
+export interface HealthMetrics {
+  primaryMatches: number | null; // null for runs recorded before extraction counts were kept
+  fallbackRatio: number | null;
+  yield: number;
+  rollingAverageYield: number | null;
+  yieldRatio: number | null;
+  undatedRate: number | null;
+}
+
+export interface ScraperHealth {
+  competitor: string;
+  status: HealthStatus;
+  problems: string[]; // One line per threshold crossed
+  metrics: HealthMetrics | null; // From the latest full scrape; null when there is none
+  thresholds: HealthThresholds;
+  runId: string | null;
+  checkedAt: string | null; // When the scrape the metrics come from finished
+}
+
+export interface HealthAlert {
+  id: string;
+  competitor: string;
+  raisedAt: string;
+  runId: string | null;
+  problems: string[];
+  resolvedAt: string | null;
+}
+
+export function healthThresholdsFor(config?: CompetitorConfig): HealthThresholds {
+  return { ...DEFAULT_HEALTH_THRESHOLDS, ...config?.health };
+}
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Judge a scraper by its most recent full scrape; `history` is that competitor's succeeded or quarantined runs, newest first
+export function assessHealth(competitor: string, history: CompetitorRun[], thresholds: HealthThresholds, runId: string | null = null): ScraperHealth {
+  const [latest, ...earlier] = history;
+  if (!latest) {
+    return { competitor, status: 'unknown', problems: [], metrics: null, thresholds, runId: null, checkedAt: null };
+  }
+
+  const window = earlier.slice(0, thresholds.yieldWindow);
+  const rollingAverageYield = window.length >= MIN_YIELD_HISTORY
+    ? window.reduce((sum, entry) => sum + entry.entriesExtracted, 0) / window.length
+    : null;
+
+  const counted = latest.primaryMatches !== undefined;
+  const primaryMatches = latest.primaryMatches ?? 0;
+  const fallbackEntries = latest.fallbackEntries ?? 0;
+
+  const metrics: HealthMetrics = {
+    primaryMatches: counted ? primaryMatches : null,
+    fallbackRatio: counted ? ratio(fallbackEntries, primaryMatches + fallbackEntries) : null,
+    yield: latest.entriesExtracted,
+    rollingAverageYield,
+    yieldRatio: rollingAverageYield ? latest.entriesExtracted / rollingAverageYield : null,
+    undatedRate: latest.undatedEntries !== undefined ? ratio(latest.undatedEntries, latest.entriesExtracted) : null
+  };
+
+  const problems: string[] = [];
+  if (metrics.primaryMatches !== null && metrics.primaryMatches < thresholds.minPrimaryMatches) {
+    problems.push(`primary selectors matched ${metrics.primaryMatches} entries (minimum ${thresholds.minPrimaryMatches})`);
+  }
+  if (metrics.fallbackRatio !== null && metrics.fallbackRatio > thresholds.maxFallbackRatio) {
+    problems.push(`${percent(metrics.fallbackRatio)} of entries came from the fallback pass (maximum ${percent(thresholds.maxFallbackRatio)})`);
+  }
+  if (metrics.yieldRatio !== null && metrics.yieldRatio < thresholds.minYieldRatio) {
+    problems.push(`extracted ${metrics.yield} entries, ${percent(metrics.yieldRatio)} of the ${metrics.rollingAverageYield!.toFixed(1)} average (minimum ${percent(thresholds.minYieldRatio)})`);
+  }
+  if (metrics.undatedRate !== null && metrics.undatedRate > thresholds.maxUndatedRate) {
+    problems.push(`${percent(metrics.undatedRate)} of entries have no parseable date (maximum ${percent(thresholds.maxUndatedRate)})`);
+  }
+
+  return {
+    competitor,
+    status: problems.length > 0 ? 'degraded' : 'healthy',
+    problems,
+    metrics,
+    thresholds,
+    runId,
+    checkedAt: latest.finishedAt
+  };
+}
+
+// Evaluates scraper health from the run history and keeps alerts in data/health/alerts.json.
+// An alert opens when a scraper turns degraded and resolves on its next healthy scrape.
+export class ScraperHealthMonitor {
+  constructor(
+    private dataStore: DataStore,
+    private alertsPath: string = path.join(HEALTH_DIR, 'alerts.json')
+  ) {}
+
+  async getHealth(competitor: string, config?: CompetitorConfig): Promise<ScraperHealth> {
+    const runs = await this.dataStore.listScrapeRuns({ competitor, limit: RUN_LOOKBACK });
+    const successful = runs.flatMap(run => run.competitors
+      .filter(entry => entry.competitor === competitor && (entry.status === 'succeeded' || entry.status === 'quarantined'))
+      .map(entry => ({ runId: run.id, entry })));
+
+    return assessHealth(competitor, successful.map(({ entry }) => entry), healthThresholdsFor(config), successful[0]?.runId ?? null);
+  }
+
+  // Every configured competitor, in config order
+  async listHealth(): Promise<ScraperHealth[]> {
+    return Promise.all(loadCompetitorConfigs().map(config => this.getHealth(config.id, config)));
+  }
+
+  // Re-evaluate after a scrape and open or resolve the competitor's alert
+  async check(competitor: string): Promise<ScraperHealth> {
+    const config = loadCompetitorConfigs().find(entry => entry.id === competitor);
+    const health = await this.getHealth(competitor, config);
+    if (health.status === 'unknown') return health;
+
+    const alerts = this.loadAlerts();
+    const open = alerts.find(alert => alert.competitor === competitor && !alert.resolvedAt);
+
+    if (health.status === 'degraded') {
+      if (open) {
+        Object.assign(open, { runId: health.runId, problems: health.problems });
+      } else {
+        const alert: HealthAlert = {
+          id: crypto.randomUUID(),
+          competitor,
+          raisedAt: new Date().toISOString(),
+          runId: health.runId,
+          problems: health.problems,
+          resolvedAt: null
+        };
+        alerts.unshift(alert);
+        await this.notify(alert);
+      }
+    } else if (open) {
+      open.resolvedAt = new Date().toISOString();
+      console.log(`Scraper health: ${competitor} recovered`);
+    } else {
+      return health;
+    }
+
+    this.saveAlerts(alerts);
+    return health;
+  }
+
+  // Most recent first
+  listAlerts(options: { openOnly?: boolean } = {}): HealthAlert[] {
+    const alerts = this.loadAlerts();
+    return options.openOnly ? alerts.filter(alert => !alert.resolvedAt) : alerts;
+  }
+
+  // Alerts always go to the server log; LAUNCHRADAR_ALERT_WEBHOOK also receives them as a JSON POST
+  private async notify(alert: HealthAlert): Promise<void> {
+    console.warn(`Scraper health: ${alert.competitor} is degraded: ${alert.problems.join('; ')}`);
+
+    const webhook = process.env.LAUNCHRADAR_ALERT_WEBHOOK;
+    if (!webhook) return;
+
+    try {
+      const response = await fetch(webhook, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'scraper-degraded', ...alert }),
+        signal: AbortSignal.timeout(10000)
+      });
+      if (!response.ok) {
+        console.error(`Scraper health: alert webhook returned HTTP ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Scraper health: alert webhook failed:', error);
+    }
+  }
+
+  private loadAlerts(): HealthAlert[] {
+    try {
+      return JSON.parse(fs.readFileSync(this.alertsPath, 'utf8'));
+    } catch {
+      return [];
+    }
+  }
+
+  private saveAlerts(alerts: HealthAlert[]): void {
+    try {
+      fs.mkdirSync(path.dirname(this.alertsPath), { recursive: true });
+      fs.writeFileSync(this.alertsPath, JSON.stringify(alerts.slice(0, MAX_ALERTS), null, 2));
+    } catch (error) {
+      console.error('Error saving scraper health alerts:', error);
+    }
+  }
+}
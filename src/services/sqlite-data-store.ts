@@ -0,0 +1,372 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import {
+  buildFailureRecord,
+  buildSuccessRecord,
+  DataStore,
+  RunRecord,
+  ScrapeRun,
+  ScrapeRunFilter,
+  scrapeRunHasFailures,
+  StoredData
+} from './data-store';
+import { loadCompetitorConfigs } from './competitor-registry';
+import { HistoryStore } from './history-store';
+import { assignUpdateIds } from './update-identity';
+
+export const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'launchradar.db');
+
+// Frequently filtered fields get their own columns; the full update is kept as JSON in `data`
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS competitors (
+    id TEXT PRIMARY KEY,
+    last_scraped TEXT NOT NULL,
+    success INTEGER NOT NULL,
+    last_success_at TEXT,
+    failure_streak INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    last_failure_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS updates (
+    competitor TEXT NOT NULL REFERENCES competitors(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    date TEXT,
+    type TEXT,
+    description TEXT,
+    url TEXT,
+    confidence REAL,
+    first_seen_at TEXT,
+    last_seen_at TEXT,
+    data TEXT NOT NULL,
+    PRIMARY KEY (competitor, id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_updates_date ON updates(date);
+  CREATE INDEX IF NOT EXISTS idx_updates_type ON updates(type);
+  CREATE INDEX IF NOT EXISTS idx_updates_position ON updates(competitor, position);
+
+  CREATE TABLE IF NOT EXISTS tags (
+    competitor TEXT NOT NULL,
+    update_id TEXT NOT NULL,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (competitor, update_id, tag),
+    FOREIGN KEY (competitor, update_id) REFERENCES updates(competitor, id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_tags_tag ON tags(tag);
+
+  CREATE TABLE IF NOT EXISTS runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    competitor TEXT NOT NULL,
+    success INTEGER NOT NULL,
+    timestamp TEXT NOT NULL,
+    duration_ms INTEGER,
+    updates INTEGER,
+    error TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_runs_competitor ON runs(competitor, timestamp);
+
+  CREATE TABLE IF NOT EXISTS scrape_runs (
+    id TEXT PRIMARY KEY,
+    trigger TEXT NOT NULL,
+    status TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    has_failures INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_scrape_runs_started ON scrape_runs(started_at);
+
+  CREATE TABLE IF NOT EXISTS scrape_run_competitors (
+    run_id TEXT NOT NULL REFERENCES scrape_runs(id) ON DELETE CASCADE,
+    competitor TEXT NOT NULL,
+    status TEXT NOT NULL,
+    PRIMARY KEY (run_id, competitor)
+  );
+  CREATE INDEX IF NOT EXISTS idx_scrape_run_competitors ON scrape_run_competitors(competitor);
+`;
+
+interface CompetitorRow {
+  id: string;
+  last_scraped: string;
+  success: number;
+  last_success_at: string | null;
+  failure_streak: number;
+  last_error: string | null;
+  last_failure_at: string | null;
+}
+
+interface RunRow {
+  competitor: string;
+  success: number;
+  timestamp: string;
+  duration_ms: number | null;
+  updates: number | null;
+  error: string | null;
+}
+
+// Embedded SQLite database, by default data/launchradar.db
+export class SqliteDataStore implements DataStore {
+  private db: Database.Database;
+  private history: HistoryStore;
+
+  constructor(dbPath: string = DEFAULT_DB_PATH) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+
+    this.history = new HistoryStore();
+  }
+
+  async store(competitor: string, data: any, durationMs?: number): Promise<void> {
+    const now = new Date().toISOString();
+    const storedData = buildSuccessRecord(competitor, data.updates || [], now);
+
+    try {
+      this.db.transaction(() => {
+        this.writeDataset(storedData);
+        this.insertRun({ competitor, success: true, timestamp: now, durationMs, updates: storedData.updates.length });
+      })();
+      console.log(`Stored data for ${competitor}: ${storedData.updates.length} updates`);
+    } catch (error) {
+      console.error(`Error storing data for ${competitor}:`, error);
+      throw error;
+    }
+
+    try {
+      this.history.recordSnapshot(competitor, storedData.updates, now);
+    } catch (error) {
+      console.error(`Error recording history for ${competitor}:`, error);
+    }
+  }
+
+  async retrieve(competitor: string): Promise<StoredData | null> {
+    try {
+      const row = this.db.prepare('SELECT * FROM competitors WHERE id = ?').get(competitor) as CompetitorRow | undefined;
+      return row ? this.toStoredData(row) : null;
+    } catch (error) {
+      console.error(`Error retrieving data for ${competitor}:`, error);
+      return null;
+    }
+  }
+
+  async retrieveAll(): Promise<StoredData[]> {
+    try {
+      const rows = this.db.prepare('SELECT * FROM competitors ORDER BY id').all() as CompetitorRow[];
+      return rows.map(row => this.toStoredData(row));
+    } catch (error) {
+      console.error('Error retrieving all data:', error);
+      return [];
+    }
+  }
+
+  async storeFailure(competitor: string, error: string, durationMs?: number): Promise<void> {
+    const now = new Date().toISOString();
+    const existing = await this.retrieve(competitor);
+    const storedData = buildFailureRecord(existing, competitor, error, now);
+
+    try {
+      this.db.transaction(() => {
+        // Only the competitor row changes; the stored updates stay as they were
+        this.writeCompetitor(storedData);
+        this.insertRun({ competitor, success: false, timestamp: now, durationMs, error });
+      })();
+      console.log(`Stored failure for ${competitor} (${storedData.failureStreak} in a row): ${error}`);
+    } catch (err) {
+      console.error(`Error storing failure for ${competitor}:`, err);
+    }
+  }
+
+  async getRuns(competitor: string): Promise<RunRecord[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM runs WHERE competitor = ? ORDER BY timestamp DESC, id DESC'
+    ).all(competitor) as RunRow[];
+
+    return rows.map(row => ({
+      competitor: row.competitor,
+      success: row.success === 1,
+      timestamp: row.timestamp,
+      durationMs: row.duration_ms ?? undefined,
+      updates: row.updates ?? undefined,
+      error: row.error ?? undefined
+    }));
+  }
+
+  async getDataAge(competitor: string): Promise<number | null> {
+    const data = await this.retrieve(competitor);
+    if (!data) return null;
+    return (Date.now() - new Date(data.lastScraped).getTime()) / (1000 * 60);
+  }
+
+  async saveScrapeRun(run: ScrapeRun): Promise<void> {
+    try {
+      this.db.transaction(() => {
+        this.db.prepare(`
+          INSERT INTO scrape_runs (id, trigger, status, started_at, has_failures, data)
+          VALUES (@id, @trigger, @status, @startedAt, @hasFailures, @data)
+          ON CONFLICT(id) DO UPDATE SET
+            status = excluded.status,
+            has_failures = excluded.has_failures,
+            data = excluded.data
+        `).run({
+          id: run.id,
+          trigger: run.trigger,
+          status: run.status,
+          startedAt: run.startedAt,
+          hasFailures: scrapeRunHasFailures(run) ? 1 : 0,
+          data: JSON.stringify(run)
+        });
+
+        this.db.prepare('DELETE FROM scrape_run_competitors WHERE run_id = ?').run(run.id);
+        const insertCompetitor = this.db.prepare('INSERT INTO scrape_run_competitors (run_id, competitor, status) VALUES (?, ?, ?)');
+        for (const entry of run.competitors) {
+          insertCompetitor.run(run.id, entry.competitor, entry.status);
+        }
+      })();
+    } catch (error) {
+      console.error(`Error saving scrape run ${run.id}:`, error);
+    }
+  }
+
+  async getScrapeRun(id: string): Promise<ScrapeRun | null> {
+    const row = this.db.prepare('SELECT data FROM scrape_runs WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async listScrapeRuns(filter: ScrapeRunFilter = {}): Promise<ScrapeRun[]> {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = { limit: filter.limit ?? 50 };
+
+    if (filter.status && filter.status.length > 0) {
+      conditions.push(`status IN (${filter.status.map((_, index) => `@status${index}`).join(', ')})`);
+      filter.status.forEach((status, index) => { params[`status${index}`] = status; });
+    }
+    if (filter.trigger) {
+      conditions.push('trigger = @trigger');
+      params.trigger = filter.trigger;
+    }
+    if (filter.competitor) {
+      conditions.push('id IN (SELECT run_id FROM scrape_run_competitors WHERE competitor = @competitor)');
+      params.competitor = filter.competitor;
+    }
+    if (filter.failedOnly) {
+      conditions.push('has_failures = 1');
+    }
+    if (filter.before) {
+      conditions.push('started_at < @before');
+      params.before = filter.before;
+    }
+
+    const rows = this.db.prepare(`
+      SELECT data FROM scrape_runs
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY started_at DESC
+      LIMIT @limit
+    `).all(params) as { data: string }[];
+
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  // Copy a dataset and its runs in as-is, keeping their original timestamps
+  importStoredData(data: StoredData, runs: RunRecord[] = []): void {
+    this.db.transaction(() => {
+      this.writeDataset(data);
+      this.db.prepare('DELETE FROM runs WHERE competitor = ?').run(data.competitor);
+      for (const run of [...runs].reverse()) {
+        this.insertRun(run);
+      }
+    })();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private writeCompetitor(data: StoredData): void {
+    this.db.prepare(`
+      INSERT INTO competitors (id, last_scraped, success, last_success_at, failure_streak, last_error, last_failure_at)
+      VALUES (@id, @lastScraped, @success, @lastSuccessAt, @failureStreak, @lastError, @lastFailureAt)
+      ON CONFLICT(id) DO UPDATE SET
+        last_scraped = excluded.last_scraped,
+        success = excluded.success,
+        last_success_at = excluded.last_success_at,
+        failure_streak = excluded.failure_streak,
+        last_error = excluded.last_error,
+        last_failure_at = excluded.last_failure_at
+    `).run({
+      id: data.competitor,
+      lastScraped: data.lastScraped,
+      success: data.success ? 1 : 0,
+      lastSuccessAt: data.lastSuccessAt ?? null,
+      failureStreak: data.failureStreak ?? 0,
+      lastError: data.lastError ?? null,
+      lastFailureAt: data.lastFailureAt ?? null
+    });
+  }
+
+  // Replace a competitor's updates and tags with the given dataset
+  private writeDataset(data: StoredData): void {
+    this.writeCompetitor(data);
+    this.db.prepare('DELETE FROM updates WHERE competitor = ?').run(data.competitor);
+
+    const insertUpdate = this.db.prepare(`
+      INSERT INTO updates (competitor, id, position, title, date, type, description, url, confidence, first_seen_at, last_seen_at, data)
+      VALUES (@competitor, @id, @position, @title, @date, @type, @description, @url, @confidence, @firstSeenAt, @lastSeenAt, @data)
+    `);
+    const insertTag = this.db.prepare('INSERT OR IGNORE INTO tags (competitor, update_id, tag) VALUES (?, ?, ?)');
+
+    // Every row needs an ID; scrapers assign them, older datasets may not have them yet. Relative links
+    // resolve against the listing page as they do in the scraper, so both arrive at the same ID.
+    const listingUrl = loadCompetitorConfigs().find(config => config.id === data.competitor)?.listingUrl;
+    const updates = assignUpdateIds(data.competitor, data.updates, listingUrl);
+
+    updates.forEach((update: any, position) => {
+      insertUpdate.run({
+        competitor: data.competitor,
+        id: update.id,
+        position,
+        title: update.title || '',
+        date: update.date ?? null,
+        type: update.type ?? null,
+        description: update.description ?? null,
+        url: update.url ?? null,
+        confidence: update.confidence ?? null,
+        firstSeenAt: update.firstSeenAt ?? null,
+        lastSeenAt: update.lastSeenAt ?? null,
+        data: JSON.stringify(update)
+      });
+
+      for (const tag of update.tags || []) {
+        insertTag.run(data.competitor, update.id, tag);
+      }
+    });
+  }
+
+  private insertRun(run: RunRecord): void {
+    this.db.prepare(`
+      INSERT INTO runs (competitor, success, timestamp, duration_ms, updates, error)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(run.competitor, run.success ? 1 : 0, run.timestamp, run.durationMs ?? null, run.updates ?? null, run.error ?? null);
+  }
+
+  private toStoredData(row: CompetitorRow): StoredData {
+    const updates = this.db.prepare(
+      'SELECT data FROM updates WHERE competitor = ? ORDER BY position'
+    ).all(row.id) as { data: string }[];
+
+    return {
+      competitor: row.id,
+      updates: updates.map(update => JSON.parse(update.data)),
+      lastScraped: row.last_scraped,
+      success: row.success === 1,
+      lastSuccessAt: row.last_success_at ?? undefined,
+      failureStreak: row.failure_streak,
+      lastError: row.last_error,
+      lastFailureAt: row.last_failure_at
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { parseHTML } from 'linkedom';
+
+export const USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+export interface FetchedText {
+  body: string;
+  contentType: string;
+  url: string; // Final URL after redirects
+}
+
+// Plain HTTP GET used by every non-browser source
+export async function fetchText(url: string, accept: string = 'text/html,application/xhtml+xml'): Promise<FetchedText> {
+  const response = await fetch(url, {
+    headers: {
+      'Accept': accept,
+      'User-Agent': USER_AGENT
+    },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(30000)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed: ${response.status} ${response.statusText}`);
+  }
+
+  return {
+    body: await response.text(),
+    contentType: response.headers.get('content-type') || '',
+    url: response.url || url
+  };
+}
+
+// Parse an HTML string into a DOM that supports querySelector/querySelectorAll
+export function parseDocument(html: string): Document {
+  return parseHTML(html).document as unknown as Document;
+}
+
+export type TextFetcher = (url: string, accept?: string) => Promise<FetchedText>;
+
+// Fetch a server-rendered page and parse it without launching Chromium
+export async function fetchStaticDocument(url: string, fetcher: TextFetcher = fetchText): Promise<Document> {
+  const { body } = await fetcher(url);
+  return parseDocument(body);
+}
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import {
+  assignUpdateIds,
+  canonicalUrl,
+  collapseNearDuplicates,
+  computeUpdateId,
+  DuplicateIndex,
+  IdentifiableUpdate,
+  isNearDuplicate,
+  isSameEntry
+} from './update-identity';
+
+const LISTING_URL = 'https://vercel.com/changelog';
+
+// Updates exactly as the scraper stored them in data/
+function storedUpdates(competitor: string): IdentifiableUpdate[] {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, '../../data', `${competitor}.json`), 'utf8')).updates;
+}
+
+describe('computeUpdateId', () => {
+  it('derives the ID from the permalink, whatever tracking parameters it carries', () => {
+    const update = { title: 'Vercel Blob in every region', date: '2025-07-10', url: 'https://vercel.com/changelog/blob-regions' };
+    const id = computeUpdateId('vercel', update, LISTING_URL);
+
+    assert.match(id, /^vercel-[0-9a-f]{12}$/);
+    assert.equal(computeUpdateId('vercel', { ...update, title: 'Vercel Blob now available in all Vercel Regions' }, LISTING_URL), id);
+    assert.equal(computeUpdateId('vercel', { ...update, url: 'https://Vercel.com/changelog/blob-regions/?utm_source=x' }, LISTING_URL), id);
+  });
+
+  it('falls back to the title and date for entries that only link to the listing', () => {
+    const update = { title: 'Vercel Blob in every region', date: '2025-07-10', url: `${LISTING_URL}/` };
+    const id = computeUpdateId('vercel', update, LISTING_URL);
+
+    assert.equal(computeUpdateId('vercel', { ...update, title: 'Vercel blob in every region!', url: undefined }, LISTING_URL), id);
+    assert.notEqual(computeUpdateId('vercel', { ...update, date: '2025-07-11' }, LISTING_URL), id);
+    assert.notEqual(computeUpdateId('notion', update, LISTING_URL), id);
+  });
+});
+
+describe('canonicalUrl', () => {
+  it('drops tracking parameters and trailing slashes and sorts the rest', () => {
+    assert.equal(
+      canonicalUrl('https://Example.com/changelog/?utm_campaign=launch&b=2&ref=hn&a=1'),
+      'https://example.com/changelog?a=1&b=2'
+    );
+    assert.equal(canonicalUrl(' not a url '), 'not a url');
+  });
+});
+
+describe('assignUpdateIds', () => {
+  it('gives every stored update a unique ID that stays the same on the next run', () => {
+    for (const competitor of ['figma', 'notion', 'vercel', 'gumroad']) {
+      const updates = storedUpdates(competitor);
+      const ids = assignUpdateIds(competitor, updates, LISTING_URL).map(update => update.id);
+
+      assert.equal(new Set(ids).size, updates.length, competitor);
+      assert.deepEqual(assignUpdateIds(competitor, updates, LISTING_URL).map(update => update.id), ids, competitor);
+    }
+  });
+
+  it('keeps existing IDs and suffixes repeats', () => {
+    const repeated: IdentifiableUpdate = { title: 'Fixes and improvements', date: '2025-07-10' };
+    const [kept, first, second] = assignUpdateIds('acme', [{ ...repeated, id: 'acme-legacy' }, repeated, repeated]);
+
+    assert.equal(kept.id, 'acme-legacy');
+    assert.equal(second.id, `${first.id}-2`);
+  });
+});
+
+describe('isNearDuplicate', () => {
+  const blob = {
+    title: 'Vercel Blob now available in all Vercel Regions',
+    date: '2025-07-10',
+    description: 'You can now create Vercel Blob stores in any of the 19 Vercel Regions.'
+  };
+
+  it('matches a truncated title to the full one', () => {
+    assert.equal(isNearDuplicate({ ...blob, title: 'Vercel Blob now available in all...' }, blob), true);
+    assert.equal(isNearDuplicate({ ...blob, title: 'Vercel Blob now...' }, { ...blob, description: '' }), false);
+  });
+
+  it('matches the same text repeated inside a larger block', () => {
+    const block = { title: 'New this week', date: 'unknown', description: `${blob.title} ${blob.description} Read more` };
+    assert.equal(isNearDuplicate(block, blob), true);
+  });
+
+  it('keeps recurring titles on different dates and entries with different pages apart', () => {
+    const weekly = { title: 'Fixes and improvements', date: '2025-07-10' };
+    assert.equal(isNearDuplicate(weekly, { ...weekly, date: '2025-07-03' }), false);
+    assert.equal(isNearDuplicate(weekly, { ...weekly, date: 'unknown' }), true);
+    assert.equal(
+      isNearDuplicate({ ...blob, url: 'https://vercel.com/changelog/a' }, { ...blob, url: 'https://vercel.com/changelog/b' }),
+      false
+    );
+  });
+});
+
+describe('isSameEntry', () => {
+  it('takes only a shared ID or permalink as the same entry', () => {
+    const entry = { title: 'Audit logs', date: '2025-07-10', url: 'https://vercel.com/changelog/audit-logs' };
+
+    assert.equal(isSameEntry(entry, { ...entry, title: 'Audit logs for everyone', url: `${entry.url}?ref=feed` }), true);
+    assert.equal(isSameEntry({ ...entry, url: LISTING_URL }, { ...entry, url: LISTING_URL }, LISTING_URL), false);
+    assert.equal(isSameEntry({ ...entry, id: 'vercel-1' }, { title: 'Other', date: 'unknown', id: 'vercel-1' }), true);
+  });
+});
+
+describe('collapseNearDuplicates', () => {
+  it('keeps the more confident, untruncated record at the first position of its group', () => {
+    const full = { title: 'Preview comments are now generally available', date: '2025-07-08', confidence: 0.85 };
+    const truncated = { ...full, title: 'Preview comments are now generally...', confidence: 0.85 };
+    const fallback = { ...full, confidence: 0.6 };
+    const other = { title: 'Edge Config in every plan', date: '2025-07-08' };
+
+    assert.deepEqual(collapseNearDuplicates([truncated, other, full, fallback]), [full, other]);
+  });
+});
+
+describe('DuplicateIndex', () => {
+  it('finds stored updates by ID or as near-duplicates', () => {
+    const stored = assignUpdateIds('vercel', storedUpdates('vercel'), LISTING_URL);
+    const index = new DuplicateIndex(stored, LISTING_URL);
+    const [first] = stored;
+
+    assert.equal(index.find({ id: first.id, title: 'Renamed', date: 'unknown' }), first);
+    assert.equal(index.find({ title: first.title, date: first.date }), first);
+    assert.equal(index.has({ title: 'Something Vercel never shipped', date: '2025-07-10' }), false);
+  });
+});
@@ -0,0 +1,218 @@
+import crypto from 'crypto';
+
+// The fields identity is derived from; ScrapedUpdate and stored legacy entries both fit
+export interface IdentifiableUpdate {
+  id?: string;
+  title: string;
+  date: string;
+  description?: string;
+  url?: string;
+  confidence?: number;
+}
+
+const SHINGLE_SIZE = 3;
+const SIMILARITY_THRESHOLD = 0.8; // Jaccard similarity of word shingles
+const CONTAINMENT_THRESHOLD = 0.9; // Share of the smaller text found inside the larger one
+const MIN_SHINGLES = 5; // Shorter texts are too generic to compare fuzzily
+const MIN_PREFIX_LENGTH = 20;
+
+const TRACKING_PARAMS = /^(utm_|ref$|ref_src$|source$|fbclid$|gclid$)/;
+
+// Lowercase, strip punctuation and truncation markers, collapse whitespace
+export function normalizeText(text: string): string {
+  return (text || '')
+    .toLowerCase()
+    .replace(/(\.\.\.|…)\s*$/, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Drop tracking parameters and trailing slashes so the same page always hashes the same
+export function canonicalUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hostname = parsed.hostname.toLowerCase();
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+    }
+    parsed.searchParams.sort();
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+    return parsed.toString();
+  } catch {
+    return url.trim();
+  }
+}
+
+// The entry's own page, canonicalized; null when it only links to the listing
+function permalinkOf(update: IdentifiableUpdate, listingUrl?: string): string | null {
+  const url = update.url ? canonicalUrl(update.url) : '';
+  return url && (!listingUrl || url !== canonicalUrl(listingUrl)) ? url : null;
+}
+
+// Deterministic ID: an entry's own URL when it has one, otherwise its normalized title and date
+export function computeUpdateId(competitor: string, update: IdentifiableUpdate, listingUrl?: string): string {
+  const permalink = permalinkOf(update, listingUrl);
+
+  const key = permalink
+    ? `url:${permalink}`
+    : `content:${normalizeText(update.title)}|${update.date}`;
+
+  return `${competitor}-${crypto.createHash('sha1').update(key).digest('hex').slice(0, 12)}`;
+}
+
+function shingles(text: string): Set<string> {
+  const words = normalizeText(text).split(' ').filter(Boolean);
+  const result = new Set<string>();
+
+  if (words.length < SHINGLE_SIZE) {
+    if (words.length > 0) result.add(words.join(' '));
+    return result;
+  }
+
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+function overlap(a: Set<string>, b: Set<string>): { jaccard: number; containment: number } {
+  let shared = 0;
+  for (const shingle of a) {
+    if (b.has(shingle)) shared++;
+  }
+
+  const union = a.size + b.size - shared;
+  return {
+    jaccard: union === 0 ? 0 : shared / union,
+    containment: Math.min(a.size, b.size) === 0 ? 0 : shared / Math.min(a.size, b.size)
+  };
+}
+
+const isTruncated = (title: string) => /(\.\.\.|…)\s*$/.test(title.trim());
+
+const isKnownDate = (date: string) => Boolean(date) && date !== 'unknown';
+
+interface Fingerprint {
+  title: string;
+  truncated: boolean;
+  shingles: Set<string>;
+  date: string;
+  permalink: string | null;
+}
+
+function fingerprint(update: IdentifiableUpdate, listingUrl?: string): Fingerprint {
+  return {
+    title: normalizeText(update.title),
+    truncated: isTruncated(update.title),
+    shingles: shingles(`${update.title} ${update.description || ''}`),
+    date: update.date,
+    permalink: permalinkOf(update, listingUrl)
+  };
+}
+
+function fingerprintsMatch(a: Fingerprint, b: Fingerprint): boolean {
+  // Recurring titles like "Fixes and improvements" are different releases on different days
+  if (isKnownDate(a.date) && isKnownDate(b.date) && a.date !== b.date) return false;
+  // Entries with pages of their own are the same entry only when it's the same page
+  if (a.permalink && b.permalink && a.permalink !== b.permalink) return false;
+
+  if (a.title && a.title === b.title) return true;
+
+  // "Introducing the new dashboard that..." is the start of the full title
+  const [shorter, longer] = a.title.length <= b.title.length ? [a, b] : [b, a];
+  if (shorter.truncated && shorter.title.length >= MIN_PREFIX_LENGTH && longer.title.startsWith(shorter.title)) {
+    return true;
+  }
+
+  if (Math.min(a.shingles.size, b.shingles.size) < MIN_SHINGLES) return false;
+
+  // Containment catches the same text repeated inside a parent element
+  const { jaccard, containment } = overlap(a.shingles, b.shingles);
+  return jaccard >= SIMILARITY_THRESHOLD || containment >= CONTAINMENT_THRESHOLD;
+}
+
+// listingUrl keeps links to the listing page itself from counting as permalinks
+export function isNearDuplicate(a: IdentifiableUpdate, b: IdentifiableUpdate, listingUrl?: string): boolean {
+  if (a.id && a.id === b.id) return true;
+  return fingerprintsMatch(fingerprint(a, listingUrl), fingerprint(b, listingUrl));
+}
+
+// Whether two records are the same entry by identity alone: the same stable ID or the same permalink.
+// A near-duplicate is only probably the same entry, so it isn't enough to treat differences as edits.
+export function isSameEntry(a: IdentifiableUpdate, b: IdentifiableUpdate, listingUrl?: string): boolean {
+  if (a.id && a.id === b.id) return true;
+  const permalink = permalinkOf(a, listingUrl);
+  return permalink !== null && permalink === permalinkOf(b, listingUrl);
+}
+
+// Near-duplicate lookups against a fixed list, fingerprinting each entry once instead of on every comparison
+export class DuplicateIndex<T extends IdentifiableUpdate> {
+  private byId = new Map<string, T>();
+  private entries: { update: T; fingerprint: Fingerprint }[];
+
+  constructor(updates: T[], private listingUrl?: string) {
+    for (const update of updates) {
+      if (update.id && !this.byId.has(update.id)) this.byId.set(update.id, update);
+    }
+    this.entries = updates.map(update => ({ update, fingerprint: fingerprint(update, listingUrl) }));
+  }
+
+  // The indexed entry with the same ID, or else the first near-duplicate
+  find(update: IdentifiableUpdate): T | undefined {
+    const sameId = update.id ? this.byId.get(update.id) : undefined;
+    if (sameId) return sameId;
+
+    const print = fingerprint(update, this.listingUrl);
+    return this.entries.find(entry => fingerprintsMatch(entry.fingerprint, print))?.update;
+  }
+
+  has(update: IdentifiableUpdate): boolean {
+    return this.find(update) !== undefined;
+  }
+}
+
+// Of two near-duplicates, keep the more confident, untruncated, most specific record
+function preferred<T extends IdentifiableUpdate>(a: T, b: T): T {
+  const confidence = (b.confidence ?? 0) - (a.confidence ?? 0);
+  if (confidence !== 0) return confidence > 0 ? b : a;
+
+  const truncated = Number(isTruncated(a.title)) - Number(isTruncated(b.title));
+  if (truncated !== 0) return truncated > 0 ? b : a;
+
+  return (b.description || '').length < (a.description || '').length ? b : a;
+}
+
+// Collapse near-duplicate records, keeping the first position of each group
+export function collapseNearDuplicates<T extends IdentifiableUpdate>(updates: T[], listingUrl?: string): T[] {
+  const kept: { update: T; fingerprint: Fingerprint }[] = [];
+
+  for (const update of updates) {
+    const print = fingerprint(update, listingUrl);
+    const match = kept.find(candidate =>
+      (update.id && candidate.update.id === update.id) || fingerprintsMatch(candidate.fingerprint, print)
+    );
+
+    if (!match) {
+      kept.push({ update, fingerprint: print });
+    } else if (preferred(match.update, update) === update) {
+      match.update = update;
+      match.fingerprint = print;
+    }
+  }
+
+  return kept.map(entry => entry.update);
+}
+
+// Give every update a stable ID, suffixing repeats so IDs stay unique within a competitor
+export function assignUpdateIds<T extends IdentifiableUpdate>(competitor: string, updates: T[], listingUrl?: string): T[] {
+  const seen = new Map<string, number>();
+
+  return updates.map(update => {
+    const baseId = update.id || computeUpdateId(competitor, update, listingUrl);
+    const count = (seen.get(baseId) || 0) + 1;
+    seen.set(baseId, count);
+
+    return { ...update, id: count === 1 ? baseId : `${baseId}-${count}` };
+  });
+}
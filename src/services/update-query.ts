@@ -0,0 +1,267 @@
+import { StoredData } from './data-store';
+
+export type Impact = 'high' | 'medium' | 'low';
+export type UpdateSort = 'date-desc' | 'date-asc' | 'confidence-desc' | 'first-seen-desc' | 'changed-desc';
+
+const SORTS: UpdateSort[] = ['date-desc', 'date-asc', 'confidence-desc', 'first-seen-desc', 'changed-desc'];
+const IMPACTS: Impact[] = ['high', 'medium', 'low'];
+
+export const DEFAULT_LIMIT = 50;
+export const MAX_LIMIT = 1000;
+
+// Filters and paging accepted by GET /api/data
+export interface UpdateQuery {
+  competitors?: string[];
+  types?: string[];
+  tags?: string[]; // Matches updates carrying any of these tags
+  impact?: Impact[];
+  from?: string; // YYYY-MM-DD, inclusive; undated updates never match a date range
+  to?: string;
+  minConfidence?: number;
+  search?: string; // Every word must appear in the title, description or tags
+  changed?: boolean; // Only updates a rescrape found edited
+  sort: UpdateSort;
+  limit: number;
+  cursor?: string;
+}
+
+// A stored update flattened out of its competitor's dataset
+export interface QueriedUpdate {
+  id: string;
+  competitor: string;
+  title: string;
+  date: string;
+  type: string;
+  description?: string;
+  tags?: string[];
+  confidence?: number;
+  impact: Impact;
+  [field: string]: any;
+}
+
+export interface UpdateFacets {
+  competitors: Record<string, number>;
+  types: Record<string, number>;
+  tags: Record<string, number>;
+  impact: Record<string, number>;
+}
+
+export interface UpdateQueryResult {
+  updates: QueriedUpdate[];
+  total: number; // Matches across all pages
+  nextCursor: string | null;
+  facets: UpdateFacets;
+}
+
+// Bad query parameters; the route turns these into 400 responses
+export class QueryError extends Error {}
+
+const QUERY_PARAMS = ['competitor', 'type', 'tag', 'impact', 'from', 'to', 'minConfidence', 'q', 'changed', 'sort', 'limit', 'cursor'];
+
+// Any of these switches /api/data from the legacy per-competitor shape to query results
+export function hasQueryParams(params: URLSearchParams): boolean {
+  return QUERY_PARAMS.some(param => params.has(param));
+}
+
+// Repeated and comma-separated values both work: ?type=feature&type=security or ?type=feature,security
+function listParam(params: URLSearchParams, name: string): string[] | undefined {
+  const values = params.getAll(name)
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+function dateParam(params: URLSearchParams, name: string): string | undefined {
+  const value = params.get(name);
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new QueryError(`Invalid "${name}" date: ${value}`);
+  }
+  return date.toISOString().split('T')[0];
+}
+
+export function parseUpdateQuery(params: URLSearchParams): UpdateQuery {
+  const impact = listParam(params, 'impact');
+  for (const value of impact || []) {
+    if (!IMPACTS.includes(value as Impact)) {
+      throw new QueryError(`Unknown impact "${value}" (expected ${IMPACTS.join(', ')})`);
+    }
+  }
+
+  const sort = (params.get('sort') || 'date-desc') as UpdateSort;
+  if (!SORTS.includes(sort)) {
+    throw new QueryError(`Unknown sort "${sort}" (expected ${SORTS.join(', ')})`);
+  }
+
+  const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new QueryError(`"limit" must be a whole number between 1 and ${MAX_LIMIT}`);
+  }
+
+  const minConfidence = params.has('minConfidence') ? Number(params.get('minConfidence')) : undefined;
+  if (minConfidence !== undefined && (isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1)) {
+    throw new QueryError('"minConfidence" must be between 0 and 1');
+  }
+
+  const changed = params.get('changed');
+  if (changed !== null && changed !== 'true' && changed !== 'false') {
+    throw new QueryError('"changed" must be true or false');
+  }
+
+  return {
+    competitors: listParam(params, 'competitor'),
+    types: listParam(params, 'type'),
+    tags: listParam(params, 'tag'),
+    impact: impact as Impact[] | undefined,
+    from: dateParam(params, 'from'),
+    to: dateParam(params, 'to'),
+    minConfidence,
+    search: params.get('q')?.trim() || undefined,
+    changed: changed === 'true' || undefined,
+    sort,
+    limit,
+    cursor: params.get('cursor') || undefined
+  };
+}
+
+// Same rules the dashboard has always used to badge updates
+export function classifyImpact(title: string, description: string = '', type: string = ''): Impact {
+  const content = `${title} ${description}`.toLowerCase();
+
+  if (type === 'breaking' || type === 'security' ||
+      ['major', 'breaking', 'launch', 'new api', 'deprecat', 'security', 'vulnerability', 'critical']
+        .some(keyword => content.includes(keyword))) {
+    return 'high';
+  }
+
+  if (type === 'feature' || type === 'performance' ||
+      ['new', 'improv', 'enhanc', 'updat', 'added', 'support'].some(keyword => content.includes(keyword))) {
+    return 'medium';
+  }
+
+  return 'low';
+}
+
+const isDated = (date: string) => /^\d{4}-\d{2}-\d{2}/.test(date || '');
+
+type Filter = 'competitors' | 'types' | 'tags' | 'impact';
+
+// Facet counts ignore their own filter, so every option shows how many results picking it would give
+function matches(update: QueriedUpdate, query: UpdateQuery, skip?: Filter): boolean {
+  if (skip !== 'competitors' && query.competitors && !query.competitors.includes(update.competitor)) return false;
+  if (skip !== 'types' && query.types && !query.types.includes(update.type || 'other')) return false;
+  if (skip !== 'tags' && query.tags && !(update.tags || []).some(tag => query.tags!.includes(tag))) return false;
+  if (skip !== 'impact' && query.impact && !query.impact.includes(update.impact)) return false;
+
+  if (query.from || query.to) {
+    if (!isDated(update.date)) return false;
+    const day = update.date.slice(0, 10);
+    if (query.from && day < query.from) return false;
+    if (query.to && day > query.to) return false;
+  }
+
+  if (query.minConfidence !== undefined && (update.confidence ?? 0) < query.minConfidence) return false;
+  if (query.changed && !update.changedAt) return false;
+
+  if (query.search) {
+    const haystack = `${update.title} ${update.description || ''} ${(update.tags || []).join(' ')}`.toLowerCase();
+    if (!query.search.toLowerCase().split(/\s+/).every(word => haystack.includes(word))) return false;
+  }
+
+  return true;
+}
+
+function countBy(updates: QueriedUpdate[], keys: (update: QueriedUpdate) => string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const update of updates) {
+    for (const key of keys(update)) {
+      counts[key] = (counts[key] || 0) + 1;
+    }
+  }
+  return counts;
+}
+
+// Primary sort value; undated updates always sort last
+function sortKey(update: QueriedUpdate, sort: UpdateSort): string | number | null {
+  switch (sort) {
+    case 'date-desc':
+    case 'date-asc':
+      return isDated(update.date) ? update.date.slice(0, 10) : null;
+    case 'confidence-desc':
+      return update.confidence ?? 0;
+    case 'first-seen-desc':
+      return update.firstSeenAt || null;
+    case 'changed-desc':
+      return update.changedAt || null;
+  }
+}
+
+interface CursorPosition {
+  key: string | number | null;
+  uid: string;
+}
+
+const uidOf = (update: QueriedUpdate) => `${update.competitor}/${update.id}`;
+
+function compareKeys(a: CursorPosition, b: CursorPosition, sort: UpdateSort): number {
+  if (a.key !== b.key) {
+    if (a.key === null) return 1;
+    if (b.key === null) return -1;
+    const ascending = a.key < b.key ? -1 : 1;
+    return sort === 'date-asc' ? ascending : -ascending;
+  }
+  // Ties break on the stable ID so pages never overlap or skip
+  return a.uid < b.uid ? -1 : a.uid > b.uid ? 1 : 0;
+}
+
+const encodeCursor = (position: CursorPosition) => Buffer.from(JSON.stringify(position)).toString('base64url');
+
+function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof position?.uid !== 'string') throw new Error('missing uid');
+    return position;
+  } catch {
+    throw new QueryError('Invalid "cursor"');
+  }
+}
+
+// Only the competitor and its updates are needed, so any dataset-shaped object works
+type Dataset = Pick<StoredData, 'competitor' | 'updates'>;
+
+export function flattenUpdates(datasets: Dataset[]): QueriedUpdate[] {
+  return datasets.flatMap(data => data.updates.map(update => ({
+    ...update,
+    competitor: data.competitor,
+    impact: update.impact || classifyImpact(update.title || '', update.description, update.type)
+  })));
+}
+
+export function queryUpdates(datasets: Dataset[], query: UpdateQuery): UpdateQueryResult {
+  const all = flattenUpdates(datasets);
+  const results = all.filter(update => matches(update, query));
+
+  const position = (update: QueriedUpdate): CursorPosition => ({ key: sortKey(update, query.sort), uid: uidOf(update) });
+  results.sort((a, b) => compareKeys(position(a), position(b), query.sort));
+
+  // Keyset pagination: resume strictly after the last update of the previous page
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const remaining = after ? results.filter(update => compareKeys(position(update), after, query.sort) > 0) : results;
+  const page = remaining.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    updates: page,
+    total: results.length,
+    nextCursor: remaining.length > query.limit && last ? encodeCursor(position(last)) : null,
+    facets: {
+      competitors: countBy(all.filter(update => matches(update, query, 'competitors')), update => [update.competitor]),
+      types: countBy(all.filter(update => matches(update, query, 'types')), update => [update.type || 'other']),
+      tags: countBy(all.filter(update => matches(update, query, 'tags')), update => update.tags || []),
+      impact: countBy(all.filter(update => matches(update, query, 'impact')), update => [update.impact])
+    }
+  };
+}